@@ -1,12 +1,14 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
 import MemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { getPool } from "./db";
 
 declare global {
   namespace Express {
@@ -29,19 +31,112 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
-  const MemSession = MemoryStore(session);
-  
+const DEV_SESSION_SECRET = "eco-sustainability-dev-secret";
+const ONE_WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AuthOptions {
+  // Overrides the store picked from SESSION_STORE, e.g. to share one across apps
+  store?: session.Store;
+}
+
+// Reads true/1/yes or false/0/no in any case; anything else is a typo that
+// would otherwise quietly turn the flag off, so it stops startup
+function envFlag(name: string, fallback: boolean): boolean {
+  const value = process.env[name]?.trim().toLowerCase();
+  if (value === undefined || value === "") return fallback;
+  if (value === "true" || value === "1" || value === "yes") return true;
+  if (value === "false" || value === "0" || value === "no") return false;
+  throw new Error(`Invalid ${name} "${process.env[name]}", expected true or false`);
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("Warning: SESSION_SECRET not set, using an insecure development secret.");
+  return DEV_SESSION_SECRET;
+}
+
+// SESSION_STORE is "memory" or "postgres"; defaults to postgres when DATABASE_URL is set
+function createSessionStore(): session.Store {
+  const driver = process.env.SESSION_STORE || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "memory": {
+      const MemSession = MemoryStore(session);
+      return new MemSession({
+        checkPeriod: 86400000, // prune expired entries every 24h
+      });
+    }
+    case "postgres": {
+      const PgSession = connectPg(session);
+      return new PgSession({
+        pool: getPool(),
+        tableName: "user_sessions",
+        createTableIfMissing: true,
+      });
+    }
+    default:
+      throw new Error(`Unknown SESSION_STORE "${driver}", expected "memory" or "postgres"`);
+  }
+}
+
+function getCookieOptions(): session.CookieOptions {
+  const sameSite = (process.env.SESSION_COOKIE_SAMESITE || "lax").toLowerCase();
+  if (sameSite !== "lax" && sameSite !== "strict" && sameSite !== "none") {
+    throw new Error(`Invalid SESSION_COOKIE_SAMESITE "${sameSite}", expected lax, strict or none`);
+  }
+
+  const secure = envFlag("SESSION_COOKIE_SECURE", process.env.NODE_ENV === "production");
+  if (sameSite === "none" && !secure) {
+    throw new Error("SESSION_COOKIE_SAMESITE=none requires SESSION_COOKIE_SECURE=true");
+  }
+
+  const maxAge = process.env.SESSION_MAX_AGE_MS ? parseInt(process.env.SESSION_MAX_AGE_MS) : ONE_WEEK_MS;
+  if (isNaN(maxAge) || maxAge <= 0) {
+    throw new Error("SESSION_MAX_AGE_MS must be a positive number of milliseconds");
+  }
+
+  return {
+    maxAge,
+    secure,
+    sameSite,
+    httpOnly: envFlag("SESSION_COOKIE_HTTPONLY", true),
+  };
+}
+
+// Authentication middleware
+export const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  return res.status(401).json({ message: "Authentication required" });
+};
+
+// Admin-only middleware; ADMIN_USERNAMES is a comma-separated list of usernames
+export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  const admins = (process.env.ADMIN_USERNAMES || "").split(",").map(name => name.trim()).filter(Boolean);
+  if (!admins.includes(req.user!.username)) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  return next();
+};
+
+export function setupAuth(app: Express, options: AuthOptions = {}) {
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || "eco-sustainability-secret-key",
+    secret: getSessionSecret(),
     resave: false,
     saveUninitialized: false,
-    store: new MemSession({
-      checkPeriod: 86400000, // prune expired entries every 24h
-    }),
-    cookie: {
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
-    }
+    // Refresh the cookie expiry on every response so active users stay signed in
+    rolling: envFlag("SESSION_ROLLING", false),
+    store: options.store ?? createSessionStore(),
+    cookie: getCookieOptions(),
   };
 
   app.set("trust proxy", 1);
@@ -0,0 +1,177 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ledgerAccounts, type CashbackReward, type GreenInvestment, type LedgerEntry, type User } from "@shared/schema";
+import { storage } from "../storage";
+import type { CurrencyConverter } from "./exchangeRates";
+import {
+  CashbackFundingError,
+  fundInvestmentFromCashback,
+  ledgerBalances,
+  rebaseCashback,
+  unspentCashback
+} from "./cashbackLedger";
+
+let product: GreenInvestment;
+
+beforeAll(async () => {
+  // 1 USD = 0.8 EUR, so the product's 100 USD minimum is 80 EUR
+  await storage.upsertExchangeRates([{ date: "2024-01-01", currency: "EUR", rate: 0.8 }]);
+  await storage.upsertInvestmentPrices([{ symbol: "LEDG", date: "2024-01-01", price: 10, currency: "USD" }]);
+  product = await storage.createGreenInvestment({
+    name: "Ledger Test Fund",
+    type: "green_bond",
+    description: "",
+    minInvestment: 100,
+    projectedReturn: 4,
+    riskLevel: "low",
+    esgRating: "AA",
+    company: "Test",
+    sector: "renewables",
+    symbol: "LEDG"
+  });
+});
+
+let run = 0;
+let user: User;
+
+beforeEach(async () => {
+  run++;
+  user = await storage.createUser({ username: `ledger-${run}`, password: "hashed", baseCurrency: "EUR" });
+  await storage.createInvestmentProfile({ userId: user.id, riskLevel: "low" });
+});
+
+const reward = (month: string, amount: number, date: string) =>
+  storage.createCashbackReward({ userId: user.id, month, year: 2024, ecoScore: 70, amount, currency: "EUR", date: new Date(date) });
+
+const rejection = (amount: number) =>
+  fundInvestmentFromCashback(user, { greenInvestmentId: product.id, amount }).catch(error => error);
+
+describe("fundInvestmentFromCashback", () => {
+  it("spends the oldest rewards first", async () => {
+    // Created out of order, so it's the date that counts
+    const march = await reward("March", 50, "2024-04-01");
+    const january = await reward("January", 60, "2024-02-01");
+    const february = await reward("February", 80, "2024-03-01");
+
+    const { investment, entries } = await fundInvestmentFromCashback(user, { greenInvestmentId: product.id, amount: 100 });
+    expect(entries.map(entry => [entry.cashbackRewardId, entry.amount, entry.kind, entry.currency])).toEqual([
+      [january.id, 60, "allocation", "EUR"],
+      [february.id, 40, "allocation", "EUR"],
+    ]);
+    // 100 EUR is 125 USD, 12.5 units at 10 USD
+    expect(investment).toMatchObject({ units: 12.5, amount: 100, greenInvestmentId: product.id });
+
+    const ledger = await storage.getLedgerEntries(user.id);
+    const rewards = new Map((await storage.getCashbackRewards(user.id)).map(saved => [saved.id, saved]));
+    expect([january, february, march].map(({ id }) => unspentCashback(rewards.get(id)!, ledger))).toEqual([0, 40, 50]);
+    expect([january, february, march].map(({ id }) => rewards.get(id)!.invested)).toEqual([true, false, false]);
+    expect(await storage.getUnredeemedCashbackAmount(user.id)).toBe(90);
+  });
+
+  it("refuses less than the product's minimum in the user's currency", async () => {
+    await reward("January", 200, "2024-02-01");
+    const error = await rejection(79.99);
+    expect(error).toBeInstanceOf(CashbackFundingError);
+    expect(error).toMatchObject({ status: 422, message: "Ledger Test Fund needs at least 80 EUR" });
+    await expect(fundInvestmentFromCashback(user, { greenInvestmentId: product.id, amount: 80 })).resolves.toBeDefined();
+  });
+
+  it("refuses more than the unspent cashback", async () => {
+    await reward("January", 60, "2024-02-01");
+    await reward("February", 30, "2024-03-01");
+    expect(await rejection(90.01)).toMatchObject({ status: 422, message: "Only 90 EUR of cashback is available to invest" });
+    expect(await storage.getLedgerEntries(user.id)).toHaveLength(2);
+  });
+
+  it("refuses unknown products and users without a profile", async () => {
+    expect(await fundInvestmentFromCashback(user, { greenInvestmentId: 9999, amount: 100 }).catch(error => error))
+      .toMatchObject({ status: 404 });
+    const noProfile = await storage.createUser({ username: `ledger-${run}-no-profile`, password: "hashed" });
+    expect(await fundInvestmentFromCashback(noProfile, { greenInvestmentId: product.id, amount: 100 }).catch(error => error))
+      .toMatchObject({ status: 400, message: "Investment profile required before investing" });
+  });
+});
+
+describe("ledgerBalances", () => {
+  it("nets every account to zero, with each entry moving money from one account to another", async () => {
+    const january = await reward("January", 60, "2024-02-01");
+    await reward("February", 80, "2024-03-01");
+    await fundInvestmentFromCashback(user, { greenInvestmentId: product.id, amount: 100 });
+    await storage.redeemCashbackReward(january.id);
+    await reward("March", 25.55, "2024-04-01");
+
+    const entries = await storage.getLedgerEntries(user.id);
+    for (const entry of entries) {
+      expect(entry.amount).toBeGreaterThan(0);
+      expect(entry.debitAccount).not.toBe(entry.creditAccount);
+      // An entry's debit and credit postings cancel out on their own
+      expect(ledgerBalances([entry])[entry.debitAccount] + ledgerBalances([entry])[entry.creditAccount]).toBe(0);
+    }
+
+    const balances = ledgerBalances(entries);
+    expect(balances).toEqual({ rewards: -165.55, cashback: 65.55, payouts: 0, investments: 100, returns: 0 });
+    expect(ledgerAccounts.reduce((sum, account) => sum + balances[account], 0)).toBeCloseTo(0, 9);
+  });
+});
+
+describe("rebaseCashback", () => {
+  const day = new Date("2024-02-01T00:00:00Z");
+  const saved = (amount: number): CashbackReward => ({
+    id: 1,
+    userId: 1,
+    month: "January",
+    year: 2024,
+    ecoScore: 70,
+    amount,
+    currency: "USD",
+    redeemed: false,
+    invested: true,
+    date: day,
+    policyVersion: null,
+    calculation: null
+  });
+  const entry = (id: number, kind: LedgerEntry["kind"], amount: number, cashbackRewardId: number | null = 1): LedgerEntry => ({
+    id,
+    userId: 1,
+    kind,
+    debitAccount: kind === "credit" ? "cashback" : kind === "redemption" ? "payouts" : "investments",
+    creditAccount: kind === "credit" ? "rewards" : "cashback",
+    amount,
+    currency: "USD",
+    cashbackRewardId,
+    investmentId: kind === "allocation" ? 1 : null,
+    createdAt: day
+  });
+
+  // 1 USD = 1.1 EUR, rounded to cents like the real converter
+  const euros: CurrencyConverter = {
+    baseCurrency: "EUR",
+    convert: amount => Math.round(amount * 1.1 * 100) / 100,
+    toBase: amount => Math.round(amount * 1.1 * 100) / 100
+  };
+
+  it("lets the last entry of a spent reward absorb the rounding so the ledger still balances", () => {
+    // 10 USD spent in three parts: converted one by one they come to 3.66 + 3.66 + 3.67 = 10.99 EUR, a cent short of the 11 EUR credit
+    const entries = [entry(1, "credit", 10), entry(2, "allocation", 3.33), entry(3, "allocation", 3.33), entry(4, "redemption", 3.34)];
+    const { rewardAmounts, entryAmounts } = rebaseCashback([saved(10)], entries, euros);
+
+    expect(rewardAmounts.get(1)).toBe(11);
+    expect([...entryAmounts.values()]).toEqual([11, 3.66, 3.66, 3.68]);
+
+    const rebased = entries.map(original => ({ ...original, amount: entryAmounts.get(original.id)! }));
+    const balances = ledgerBalances(rebased);
+    expect(balances).toMatchObject({ rewards: -11, payouts: 3.68, investments: 7.32, returns: 0 });
+    expect(balances.cashback).toBeCloseTo(0, 9);
+    expect(unspentCashback({ ...saved(10), amount: 11 }, rebased)).toBe(0);
+  });
+
+  it("converts a partly spent reward's entries as they are", () => {
+    const entries = [entry(1, "credit", 10), entry(2, "allocation", 3.33)];
+    const { entryAmounts } = rebaseCashback([saved(10)], entries, euros);
+    expect([...entryAmounts.values()]).toEqual([11, 3.66]);
+  });
+
+  it("converts sales and dividends, which belong to no reward, on their own day", () => {
+    const dividend = { ...entry(5, "dividend", 2.5, null), debitAccount: "cashback" as const, creditAccount: "returns" as const };
+    expect(rebaseCashback([], [dividend], euros).entryAmounts.get(5)).toBe(2.75);
+  });
+});
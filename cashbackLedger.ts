@@ -0,0 +1,164 @@
+import {
+  ledgerAccounts,
+  type CashbackFunding,
+  type CashbackReward,
+  type Investment,
+  type LedgerAccount,
+  type LedgerEntry,
+  type User
+} from "@shared/schema";
+import { createCurrencyConverter, type CurrencyConverter } from "./exchangeRates";
+import { getProductPrice } from "./investmentPricing";
+import { storage } from "../storage";
+
+// Green investment minimums are quoted in US dollars
+const MIN_INVESTMENT_CURRENCY = "USD";
+
+export class CashbackFundingError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "CashbackFundingError";
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Balance of every account: debits less credits. Across all accounts they sum to zero.
+export function ledgerBalances(entries: LedgerEntry[]): Record<LedgerAccount, number> {
+  const balances = Object.fromEntries(ledgerAccounts.map(account => [account, 0])) as Record<LedgerAccount, number>;
+  for (const entry of entries) {
+    balances[entry.debitAccount] += entry.amount;
+    balances[entry.creditAccount] -= entry.amount;
+  }
+  for (const account of ledgerAccounts) {
+    balances[account] = round(balances[account]);
+  }
+  return balances;
+}
+
+// What is left of a reward after redemptions and allocations
+export function unspentCashback(reward: CashbackReward, entries: LedgerEntry[]): number {
+  const spent = entries
+    .filter(entry => entry.cashbackRewardId === reward.id && entry.creditAccount === "cashback")
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  return round(Math.max(0, reward.amount - spent));
+}
+
+/**
+ * Work out a user's cashback rewards and ledger entries in a new base currency,
+ * keyed by id. Everything done with a reward's money is converted at the rate
+ * of the day the reward was earned, so its credit, allocations and payout still
+ * add up, and the last entry spending a fully spent reward absorbs any rounding.
+ *
+ * @throws MissingExchangeRateError when a reward's currency can't be converted
+ */
+export function rebaseCashback(
+  rewards: CashbackReward[],
+  entries: LedgerEntry[],
+  converter: CurrencyConverter
+): { rewardAmounts: Map<number, number>; entryAmounts: Map<number, number> } {
+  const rewardAmounts = new Map<number, number>();
+  const entryAmounts = new Map<number, number>();
+  const rewardsById = new Map(rewards.map(reward => [reward.id, reward]));
+
+  for (const reward of rewards) {
+    rewardAmounts.set(reward.id, converter.toBase(reward.amount, reward.currency, new Date(reward.date)));
+  }
+  for (const entry of entries) {
+    // Sales and dividends belong to no reward and are converted on the day they happened
+    const reward = entry.cashbackRewardId !== null ? rewardsById.get(entry.cashbackRewardId) : undefined;
+    const on = new Date(reward?.date ?? entry.createdAt);
+    entryAmounts.set(entry.id, reward && entry.kind === "credit"
+      ? rewardAmounts.get(reward.id)!
+      : converter.toBase(entry.amount, entry.currency, on));
+  }
+
+  for (const reward of rewards) {
+    const spending = entries.filter(entry => entry.cashbackRewardId === reward.id && entry.creditAccount === "cashback");
+    if (spending.length === 0 || round(spending.reduce((sum, entry) => sum + entry.amount, 0)) !== round(reward.amount)) continue;
+    const last = spending[spending.length - 1];
+    const others = spending.slice(0, -1).reduce((sum, entry) => sum + entryAmounts.get(entry.id)!, 0);
+    entryAmounts.set(last.id, round(rewardAmounts.get(reward.id)! - others));
+  }
+  return { rewardAmounts, entryAmounts };
+}
+
+/**
+ * Put some of the user's unspent cashback into a green investment product,
+ * buying as many units as the amount pays for at the product's latest price.
+ * The purchase opens the holding's transaction log. The amount is taken
+ * from their oldest rewards first, each allocation is recorded in the ledger
+ * against the reward it came from, and rewards that are used up are marked
+ * invested.
+ *
+ * @throws CashbackFundingError when the product doesn't exist, the user has no
+ * investment profile, the amount is below the product's minimum or the
+ * user's cashback doesn't cover it
+ * @throws MissingPriceError when the product has no price to buy at
+ * @throws MissingExchangeRateError when the minimum or price can't be converted into the user's base currency
+ */
+export async function fundInvestmentFromCashback(
+  user: User,
+  { greenInvestmentId, amount }: CashbackFunding
+): Promise<{ investment: Investment; entries: LedgerEntry[] }> {
+  const product = await storage.getGreenInvestmentById(greenInvestmentId);
+  if (!product) {
+    throw new CashbackFundingError("Green investment not found", 404);
+  }
+
+  const profile = await storage.getInvestmentProfile(user.id);
+  if (!profile) {
+    throw new CashbackFundingError("Investment profile required before investing", 400);
+  }
+
+  const converter = await createCurrencyConverter(user.baseCurrency);
+  const minInvestment = converter.toBase(product.minInvestment, MIN_INVESTMENT_CURRENCY, new Date());
+  if (amount < minInvestment) {
+    throw new CashbackFundingError(
+      `${product.name} needs at least ${minInvestment} ${converter.baseCurrency}`,
+      422
+    );
+  }
+
+  const available = await storage.getUnredeemedCashbackAmount(user.id);
+  if (amount > available) {
+    throw new CashbackFundingError(
+      `Only ${available} ${converter.baseCurrency} of cashback is available to invest`,
+      422
+    );
+  }
+
+  const now = new Date();
+  const price = await getProductPrice(product, now);
+  const units = Math.round(converter.convert(amount, converter.baseCurrency, price.currency, now) / price.price * 1e6) / 1e6;
+  const funded = await storage.fundInvestmentFromCashback(user.id, round(amount), {
+    userId: user.id,
+    profileId: profile.id,
+    greenInvestmentId: product.id,
+    units,
+    name: product.name,
+    type: product.type,
+    amount: round(amount),
+    purchaseValue: round(amount),
+    currentValue: round(amount),
+    purchaseDate: now,
+    esgRating: product.esgRating,
+    description: product.description,
+    performanceData: null
+  }, {
+    kind: "buy",
+    units,
+    price: price.price,
+    priceCurrency: price.currency,
+    amount: round(amount),
+    date: now
+  });
+  if (!funded) {
+    // Another request spent the cashback between the check and the allocation
+    throw new CashbackFundingError("Cashback balance changed, please try again", 409);
+  }
+
+  const totalValue = await storage.getTotalInvestmentValue(user.id);
+  await storage.updateInvestmentProfile(user.id, { currentValue: totalValue });
+  return funded;
+}
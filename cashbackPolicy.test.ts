@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { InsertTransaction } from "@shared/schema";
+import type { CurrencyConverter } from "./exchangeRates";
+import { calculateCashback, loadCashbackPolicy } from "./cashbackPolicy";
+
+const policy = loadCashbackPolicy("v1");
+const ASOF = new Date("2024-04-01T00:00:00Z");
+
+const dollars: CurrencyConverter = {
+  baseCurrency: "USD",
+  convert: amount => amount,
+  toBase: amount => amount
+};
+
+// A euro account on a day when a dollar buys 0.9 euros
+const euros: CurrencyConverter = {
+  baseCurrency: "EUR",
+  convert: (amount, from, to) => from === to ? amount : from === "USD" ? amount * 0.9 : amount / 0.9,
+  toBase: (amount, currency) => currency === "EUR" ? amount : amount * 0.9
+};
+
+const purchase = (category: string, amount: number, ecoScore = 50): InsertTransaction => ({
+  userId: 1,
+  date: new Date("2024-03-15T12:00:00Z"),
+  merchant: "Shop",
+  category,
+  amount,
+  ecoScore,
+  kind: "purchase"
+});
+
+const refund = (category: string, amount: number): InsertTransaction => ({ ...purchase(category, -amount, 10), kind: "refund" });
+
+const cashback = (transactions: InsertTransaction[], converter = dollars) => calculateCashback(policy, transactions, 1, converter, ASOF);
+
+describe("calculateCashback", () => {
+  it.each([
+    [100, 0.03],
+    [80, 0.03],
+    [79, 0.02],
+    [60, 0.02],
+    [59, 0.015],
+    [40, 0.015],
+    [39, 0.01],
+    [0, 0.01],
+  ])("pays a month scoring %i the rate of its tier, %d", (ecoScore, rate) => {
+    const result = cashback([purchase("Shopping", 200, ecoScore)]);
+    expect(result.calculation.tier.rate).toBe(rate);
+    expect(result.amount).toBe(200 * rate);
+  });
+
+  it("scores the month by its purchases only", () => {
+    // The refund's score of 10 would pull 80 down into the 60 tier
+    expect(cashback([purchase("Shopping", 200, 80), refund("Shopping", 20)]).ecoScore).toBe(80);
+  });
+
+  it("nets refunds out of the spend", () => {
+    const result = cashback([purchase("Shopping", 100, 60), purchase("Dining", 30, 60), refund("Shopping", 40)]);
+    expect(result.calculation.eligibleSpend).toBe(90);
+    expect(result.amount).toBe(1.8);
+  });
+
+  it("pays category bonuses only on categories with net purchases", () => {
+    const result = cashback([
+      purchase("Supermarkets and Groceries", 100, 60),
+      refund("Groceries", 120),
+      purchase("Pharmacy", 50, 60),
+      purchase("Shopping", 200, 60),
+    ]);
+    // Groceries net to -20, so only health earns its 0.5% bonus
+    expect(result.calculation.categoryBonuses).toEqual([{ category: "health", spend: 50, rate: 0.005, bonus: 0.25 }]);
+    expect(result.calculation.eligibleSpend).toBe(230);
+    expect(result.amount).toBe(4.85);
+  });
+
+  it("makes a month below the minimum spend ineligible", () => {
+    const result = cashback([purchase("Shopping", 49.99, 90)]);
+    expect(result).toMatchObject({ eligible: false, amount: 0 });
+    expect(result.calculation.uncapped).toBe(1.5);
+
+    // Refunds count against the minimum too
+    expect(cashback([purchase("Shopping", 80, 90), refund("Shopping", 40)]).eligible).toBe(false);
+    expect(cashback([purchase("Shopping", 50, 90)]).eligible).toBe(true);
+  });
+
+  it("converts the minimum spend and the cap into the base currency", () => {
+    // 50 USD is 45 EUR
+    expect(cashback([purchase("Shopping", 46, 90)], euros)).toMatchObject({ eligible: true, amount: 1.38 });
+    expect(cashback([purchase("Shopping", 44, 90)], euros).eligible).toBe(false);
+
+    // 75 USD is 67.5 EUR
+    const result = cashback([purchase("Shopping", 10000, 90)], euros);
+    expect(result.amount).toBe(67.5);
+    expect(cashback([purchase("Shopping", 10000, 90)]).amount).toBe(75);
+  });
+
+  it("records how the amount was worked out", () => {
+    const transactions = [
+      purchase("Groceries", 1500, 85),
+      purchase("Tuition", 1000, 85),
+      purchase("Shopping", 2000, 85),
+      refund("Shopping", 500),
+    ];
+    expect(cashback(transactions, euros)).toEqual({
+      ecoScore: 85,
+      amount: 67.5,
+      eligible: true,
+      calculation: {
+        currency: "EUR",
+        transactionCount: 4,
+        eligibleSpend: 4000,
+        minimumSpend: 45,
+        tier: { minScore: 80, rate: 0.03 },
+        tierReward: 120,
+        categoryBonuses: [
+          { category: "groceries", spend: 1500, rate: 0.01, bonus: 15 },
+          { category: "education", spend: 1000, rate: 0.005, bonus: 5 },
+        ],
+        uncapped: 140,
+        cap: 67.5
+      }
+    });
+  });
+});
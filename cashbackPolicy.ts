@@ -0,0 +1,113 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { CashbackCalculation, InsertTransaction } from "@shared/schema";
+import type { CurrencyConverter } from "./exchangeRates";
+import { summarizeTransactions } from "./sustainabilityCalculator";
+import { CATEGORY_TAXONOMY } from "./categoryTaxonomy";
+
+const DEFAULT_POLICY = "v1";
+const POLICIES_DIR = path.resolve(process.cwd(), "data", "cashback-policies");
+
+const cashbackPolicySchema = z.object({
+  version: z.string(),
+  description: z.string().optional(),
+  // Currency of minimumSpend and monthlyCap
+  currency: z.string().length(3),
+  minimumSpend: z.number().nonnegative(),
+  // Share of the month's net purchases paid back, by the month's eco score
+  tiers: z.array(z.object({
+    minScore: z.number().min(0).max(100),
+    rate: z.number().nonnegative(),
+  })).min(1),
+  // Extra share paid back on a canonical category's net purchases
+  categoryBonuses: z.record(z.number().nonnegative()).default({}),
+  monthlyCap: z.number().positive(),
+}).refine(policy => policy.tiers.some(tier => tier.minScore === 0), {
+  message: "tiers must include one with minScore 0 so every score earns something",
+}).refine(policy => Object.keys(policy.categoryBonuses).every(category => CATEGORY_TAXONOMY[category]), {
+  message: "categoryBonuses must be keyed by canonical categories",
+});
+
+export type CashbackPolicy = z.infer<typeof cashbackPolicySchema>;
+
+export interface CashbackResult {
+  ecoScore: number;
+  amount: number;
+  // False when the month's purchases fall short of the policy's minimum spend
+  eligible: boolean;
+  calculation: CashbackCalculation;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Work out a month's cashback under a policy from that month's transactions.
+ * Spend is net of refunds and in the user's base currency; the policy's
+ * minimum spend and cap are converted into it on `asOf`. The reward is the
+ * tier rate for the month's eco score on all purchases, plus each category
+ * bonus on that category's purchases, capped at the policy's monthly cap.
+ *
+ * @throws MissingExchangeRateError when the policy's currency can't be converted
+ */
+export function calculateCashback(
+  policy: CashbackPolicy,
+  transactions: InsertTransaction[],
+  userId: number,
+  converter: CurrencyConverter,
+  asOf: Date
+): CashbackResult {
+  const { sustainabilityScore, categoryBreakdowns } = summarizeTransactions(transactions, userId);
+  const ecoScore = sustainabilityScore.overallScore;
+  const eligibleSpend = round(Math.max(0, categoryBreakdowns.reduce((sum, breakdown) => sum + breakdown.amount, 0)));
+  const minimumSpend = converter.toBase(policy.minimumSpend, policy.currency, asOf);
+  const cap = converter.toBase(policy.monthlyCap, policy.currency, asOf);
+
+  const tier = [...policy.tiers]
+    .sort((a, b) => b.minScore - a.minScore)
+    .find(candidate => ecoScore >= candidate.minScore)!;
+  const tierReward = round(eligibleSpend * tier.rate);
+
+  const categoryBonuses = categoryBreakdowns
+    .filter(breakdown => policy.categoryBonuses[breakdown.category] && breakdown.amount > 0)
+    .map(breakdown => {
+      const rate = policy.categoryBonuses[breakdown.category];
+      return { category: breakdown.category, spend: breakdown.amount, rate, bonus: round(breakdown.amount * rate) };
+    });
+
+  const uncapped = round(tierReward + categoryBonuses.reduce((sum, entry) => sum + entry.bonus, 0));
+  const eligible = eligibleSpend >= minimumSpend;
+
+  return {
+    ecoScore,
+    amount: eligible ? Math.min(uncapped, cap) : 0,
+    eligible,
+    calculation: {
+      currency: converter.baseCurrency,
+      transactionCount: transactions.length,
+      eligibleSpend,
+      minimumSpend,
+      tier: { minScore: tier.minScore, rate: tier.rate },
+      tierReward,
+      categoryBonuses,
+      uncapped,
+      cap
+    }
+  };
+}
+
+// Read and validate data/cashback-policies/<version>.json
+export function loadCashbackPolicy(version: string): CashbackPolicy {
+  const file = path.join(POLICIES_DIR, `${path.basename(version)}.json`);
+  return cashbackPolicySchema.parse(JSON.parse(readFileSync(file, "utf8")));
+}
+
+let defaultPolicy: CashbackPolicy | null = null;
+
+// Policy named by CASHBACK_POLICY, loaded once
+export function getCashbackPolicy(): CashbackPolicy {
+  if (!defaultPolicy) {
+    defaultPolicy = loadCashbackPolicy(process.env.CASHBACK_POLICY || DEFAULT_POLICY);
+  }
+  return defaultPolicy;
+}
@@ -0,0 +1,28 @@
+import type { CategoryBreakdown, InsertCategoryBreakdown } from "@shared/schema";
+import { summarizeTransactions } from "./sustainabilityCalculator";
+import { CATEGORY_TAXONOMY } from "./categoryTaxonomy";
+import { storage } from "../storage";
+
+export type LabeledBreakdown<T extends InsertCategoryBreakdown = InsertCategoryBreakdown> = T & { label: string };
+
+// Attach the display name of each canonical category, largest spend first
+export function labelBreakdowns<T extends InsertCategoryBreakdown>(breakdowns: T[]): LabeledBreakdown<T>[] {
+  return breakdowns
+    .map(breakdown => ({ ...breakdown, label: CATEGORY_TAXONOMY[breakdown.category]?.label ?? breakdown.category }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+// Breakdowns over the user's transactions in [from, to), computed on the fly
+export async function computeCategoryBreakdowns(userId: number, from?: Date, to?: Date): Promise<InsertCategoryBreakdown[]> {
+  const transactions = await storage.getTransactionsByDateRange(userId, from, to);
+  return summarizeTransactions(transactions, userId).categoryBreakdowns;
+}
+
+/**
+ * Rebuild the user's stored breakdowns from all of their transactions.
+ * Call after anything that adds, changes or removes transactions so the
+ * stored rows stay a faithful all-time view.
+ */
+export async function refreshCategoryBreakdowns(userId: number): Promise<CategoryBreakdown[]> {
+  return storage.replaceCategoryBreakdowns(userId, await computeCategoryBreakdowns(userId));
+}
@@ -0,0 +1,78 @@
+// Canonical spending categories and the names banks, Plaid and CSV files use for them
+export const CATEGORY_TAXONOMY: Record<string, { label: string; aliases: string[] }> = {
+  groceries: {
+    label: "Groceries",
+    aliases: ["grocery", "supermarket", "supermarkets", "supermarkets and groceries", "food market"],
+  },
+  dining: {
+    label: "Dining",
+    aliases: ["restaurant", "restaurants", "food and drink", "food & drink", "coffee", "coffee shop", "fast food", "bars"],
+  },
+  shopping: {
+    label: "Shopping",
+    aliases: ["shops", "merchandise", "general merchandise", "clothing", "apparel", "retail", "department stores"],
+  },
+  transportation: {
+    label: "Transportation",
+    aliases: ["transport", "gas", "gas stations", "fuel", "auto", "taxi", "rideshare", "ride share", "transit", "parking", "tolls"],
+  },
+  utilities: {
+    label: "Utilities",
+    aliases: ["utility", "bills", "bills & utilities", "electric", "electricity", "water", "internet", "phone", "telecommunication services"],
+  },
+  travel: {
+    label: "Travel",
+    aliases: ["airlines", "airlines and aviation services", "air travel", "hotel", "hotels", "lodging", "car rental"],
+  },
+  entertainment: {
+    label: "Entertainment",
+    aliases: ["recreation", "streaming", "movies", "music", "arts and entertainment"],
+  },
+  housing: {
+    label: "Housing",
+    aliases: ["rent", "mortgage", "home", "home improvement"],
+  },
+  health: {
+    label: "Health",
+    aliases: ["healthcare", "medical", "pharmacy", "pharmacies", "fitness", "gyms and fitness centers"],
+  },
+  education: {
+    label: "Education",
+    aliases: ["tuition", "books", "bookstores"],
+  },
+  other: {
+    label: "Other",
+    aliases: ["uncategorized", "unknown", "general", "miscellaneous", "misc", "service", "services"],
+  },
+};
+
+export const FALLBACK_CATEGORY = "other";
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Every known name, longest first so the most specific one wins
+const CATEGORY_NAMES = Object.entries(CATEGORY_TAXONOMY)
+  .flatMap(([category, { aliases }]) => [category, ...aliases].map(name => ({
+    category,
+    name,
+    pattern: new RegExp(`\\b${escapeRegExp(name)}\\b`)
+  })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+/**
+ * Map a category as it appears on a transaction to its canonical key, so
+ * "Groceries", "Supermarkets and Groceries" and "grocery" are one category.
+ * Exact names win, then the longest name found as whole words. Undefined
+ * when no name matches.
+ */
+export function matchCategory(category: string): string | undefined {
+  const normalized = category.trim().toLowerCase();
+  const exact = CATEGORY_NAMES.find(entry => entry.name === normalized);
+  if (exact) return exact.category;
+  return CATEGORY_NAMES.find(entry => entry.pattern.test(normalized))?.category;
+}
+
+// Canonical key of a category, with anything unrecognized as "other"
+export function canonicalCategory(category: string): string {
+  return matchCategory(category) ?? FALLBACK_CATEGORY;
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import { CSVParseError, CSVValidationError, detectDelimiter, detectPreset, parseCSV, tokenizeCSV } from "./csvParser";
+
+const fields = (content: string, delimiter?: string) => tokenizeCSV(content, delimiter).map(record => record.fields);
+
+describe("tokenizeCSV", () => {
+  it("keeps delimiters and line breaks inside quoted fields", () => {
+    const records = tokenizeCSV('date,merchant,amount\n2024-03-01,"Smith, Jones & Co",12.50\n2024-03-02,"Corner\nShop",4\n');
+    expect(records.map(record => record.fields)).toEqual([
+      ["date", "merchant", "amount"],
+      ["2024-03-01", "Smith, Jones & Co", "12.50"],
+      ["2024-03-02", "Corner\nShop", "4"],
+    ]);
+    expect(records.map(record => record.lineNumber)).toEqual([1, 2, 3]);
+  });
+
+  it("unescapes doubled quotes and ignores a leading byte order mark", () => {
+    expect(fields('\uFEFFmerchant,note\r\n"The ""Green"" Grocer","said ""hi"""\r\n')).toEqual([
+      ["merchant", "note"],
+      ['The "Green" Grocer', 'said "hi"'],
+    ]);
+  });
+
+  it("skips blank lines and accepts CRLF, LF and bare CR endings", () => {
+    expect(fields("a,b\r\n1,2\n\n3,4\r5,6")).toEqual([["a", "b"], ["1", "2"], ["3", "4"], ["5", "6"]]);
+  });
+
+  it("rejects a quoted field that is never closed", () => {
+    expect(() => tokenizeCSV('a,b\n1,"open\n2,3')).toThrow(new CSVParseError("Unterminated quoted field starting on line 2"));
+  });
+});
+
+describe("detectDelimiter", () => {
+  it.each([
+    [";", "date;merchant;amount\n01.03.2024;Markt;1,50"],
+    ["\t", "date\tmerchant\tamount\n2024-03-01\tMarket\t1.50"],
+    ["|", "date|merchant|amount\n2024-03-01|Market|1.50"],
+    [",", "date,merchant,amount\n2024-03-01,Market,1.50"],
+  ])("finds %j in the header line", (delimiter, content) => {
+    expect(detectDelimiter(content)).toBe(delimiter);
+  });
+
+  it("ignores delimiters inside quoted headers", () => {
+    expect(detectDelimiter('"Date; posted","Amount; USD",Merchant\n')).toBe(",");
+  });
+
+  it("splits the rows with the delimiter it found", () => {
+    const { rows } = parseCSV("date;merchant;category;amount\n2024-03-01;Markt;Groceries;1.234,50\n", {
+      normalization: { decimalSeparator: "," }
+    });
+    expect(rows).toMatchObject([{ merchant: "Markt", amount: 1234.5 }]);
+  });
+});
+
+describe("detectPreset", () => {
+  it.each([
+    ["default", ["Date", "Merchant", "Category", "Amount"]],
+    ["chase", ["Transaction Date", "Post Date", "Description", "Category", "Type", "Amount", "Memo"]],
+    ["capital_one", ["Transaction Date", "Posted Date", "Card No.", "Description", "Category", "Debit", "Credit"]],
+    ["amex", ["Date", "Description", "Card Member", "Account #", "Amount"]],
+    ["bank_of_america", ["Posted Date", "Reference Number", "Payee", "Address", "Amount"]],
+    ["citi", ["Status", "Date", "Description", "Debit", "Credit"]],
+  ])("recognizes a %s export", (preset, headers) => {
+    expect(detectPreset(headers)).toBe(preset);
+  });
+
+  it("recognizes nothing from unrelated headers", () => {
+    expect(detectPreset(["When", "Who", "How much"])).toBeUndefined();
+  });
+});
+
+describe("parseCSV", () => {
+  it("reads a Chase export, where purchases are negative", () => {
+    const { rows } = parseCSV(
+      "Transaction Date,Post Date,Description,Category,Type,Amount,Memo\n" +
+      "03/04/2024,03/05/2024,WHOLE FOODS,Groceries,Sale,-54.20,\n" +
+      "03/06/2024,03/07/2024,WHOLE FOODS REFUND,Groceries,Return,10.00,\n"
+    );
+    expect(rows.map(row => [row.date.toISOString().slice(0, 10), row.amount, row.kind])).toEqual([
+      ["2024-03-04", 54.2, "purchase"],
+      ["2024-03-06", -10, "refund"],
+    ]);
+  });
+
+  it("reads the debit and credit columns of a Capital One export", () => {
+    const { rows } = parseCSV(
+      "Transaction Date,Posted Date,Card No.,Description,Category,Debit,Credit\n" +
+      "2024-03-04,2024-03-05,1234,Shell,Gas/Automotive,40.00,\n" +
+      "2024-03-06,2024-03-07,1234,Payment,Payment/Credit,,500.00\n"
+    );
+    expect(rows.map(row => [row.merchant, row.amount, row.kind])).toEqual([["Shell", 40, "purchase"], ["Payment", -500, "credit"]]);
+  });
+
+  it("fills in a missing category", () => {
+    const { rows } = parseCSV("Posted Date,Reference Number,Payee,Address,Amount\n03/04/2024,1,Shell,Main St,-40.00\n");
+    expect(rows[0]).toMatchObject({ merchant: "Shell", category: "Other", amount: 40 });
+  });
+
+  it("uses an explicit mapping over a named or detected preset", () => {
+    const content =
+      "Transaction Date,Post Date,Description,Category,Type,Amount,Memo\n" +
+      "03/04/2024,03/05/2024,Shell,Gas,Sale,40.00,\n";
+
+    // Detected as Chase, which reads positive amounts as money in
+    expect(parseCSV(content).rows[0]).toMatchObject({ amount: -40, kind: "credit" });
+
+    const mapped = parseCSV(content, {
+      preset: "amex",
+      mapping: { date: "Post Date", merchant: "Description", category: "Type", amount: "Amount", dateFormat: "MM/DD/YYYY" }
+    }).rows[0];
+    expect(mapped).toMatchObject({ merchant: "Shell", category: "Sale", amount: 40, kind: "purchase" });
+    expect(mapped.date.toISOString().slice(0, 10)).toBe("2024-03-05");
+  });
+
+  it("rejects files it can't map", () => {
+    expect(() => parseCSV("date,merchant,category,amount\n")).toThrow("CSV file is empty or contains only headers");
+    expect(() => parseCSV("When,Who,How much\n2024-03-01,Shell,40\n")).toThrow("Could not recognize the CSV columns");
+    expect(() => parseCSV("date,merchant,amount\n2024-03-01,Shell,40\n", { preset: "monzo" })).toThrow("Unknown CSV preset: monzo");
+    expect(() => parseCSV("date,merchant,amount\n2024-03-01,Shell,40\n", { preset: "chase" }))
+      .toThrow("Missing required headers: Transaction Date, Description");
+  });
+});
+
+describe("row issues", () => {
+  // Line 3 has a merchant quoted over three physical lines, so the bad rows after it are on lines 6 and 7
+  const content =
+    "date,merchant,category,amount\n" +
+    "2024-03-01,Market,Groceries,12.00\n" +
+    '2024-03-02,"Corner\nShop\nLtd",Groceries,4.00\n' +
+    "2024-02-30,,Dining,ten\n" +
+    "2024-03-04,Cafe\n" +
+    "2024-03-05,Bakery,Dining,3.50\n";
+
+  const expectedIssues = [
+    { lineNumber: 6, column: "date", value: "2024-02-30", reason: '"2024-02-30" is not a valid calendar date' },
+    { lineNumber: 6, column: "merchant", reason: "Merchant is missing" },
+    { lineNumber: 6, column: "amount", value: "ten", reason: '"ten" is not a valid amount' },
+    { lineNumber: 7, reason: "Expected at least 4 columns but found 2" },
+  ];
+
+  it("reports every problem with its line and column, counting the lines inside quotes", () => {
+    const { issues } = parseCSV(content, { mode: "partial" });
+    expect(issues).toEqual(expectedIssues);
+  });
+
+  it("keeps the valid rows in partial mode", () => {
+    const { rows, totalRows } = parseCSV(content, { mode: "partial" });
+    expect(totalRows).toBe(5);
+    expect(rows.map(row => row.merchant)).toEqual(["Market", "Corner\nShop\nLtd", "Bakery"]);
+  });
+
+  it("rejects the whole file in strict mode, the default", () => {
+    const error = (() => { try { parseCSV(content); } catch (caught) { return caught; } })();
+    expect(error).toBeInstanceOf(CSVValidationError);
+    expect(error).toMatchObject({ message: "4 problem(s) found in 2 row(s)", issues: expectedIssues, totalRows: 5 });
+    expect(() => parseCSV(content, { mode: "strict" })).toThrow(CSVValidationError);
+  });
+
+  it("names both columns when the amount is split into debit and credit", () => {
+    const { issues } = parseCSV(
+      "Status,Date,Description,Debit,Credit\nCleared,03/04/2024,Shell,,\nCleared,03/05/2024,Payroll,,lots\n",
+      { mode: "partial" }
+    );
+    expect(issues).toEqual([
+      { lineNumber: 2, column: "Debit/Credit", reason: "Amount is missing" },
+      { lineNumber: 3, column: "Debit/Credit", value: "lots", reason: '"lots" is not a valid amount' },
+    ]);
+  });
+});
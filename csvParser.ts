@@ -1,5 +1,13 @@
-import { CSVRow, csvUploadSchema } from "@shared/schema";
-import { ZodError } from "zod";
+import { CSVColumnMapping } from "@shared/schema";
+import {
+  NormalizationError,
+  NormalizationOptions,
+  NormalizedTransaction,
+  RawTransaction,
+  normalizeAmount,
+  normalizeTransaction,
+  parseTransactionDate
+} from "./transactionNormalizer";
 
 export class CSVParseError extends Error {
   constructor(message: string, public lineNumber?: number) {
@@ -8,64 +16,328 @@ export class CSVParseError extends Error {
   }
 }
 
-export function parseCSV(csvContent: string): CSVRow[] {
-  const rows = csvContent.split(/\r?\n/);
-  
+// One problem found in a data row
+export interface CSVRowIssue {
+  lineNumber: number;
+  // Header of the offending column, absent for row-level problems
+  column?: string;
+  value?: string;
+  reason: string;
+}
+
+// Thrown in strict mode when any row fails validation
+export class CSVValidationError extends CSVParseError {
+  constructor(public issues: CSVRowIssue[], public totalRows: number) {
+    super(`${issues.length} problem(s) found in ${new Set(issues.map(i => i.lineNumber)).size} row(s)`);
+    this.name = "CSVValidationError";
+  }
+}
+
+// strict rejects the whole file on any bad row, partial keeps the valid rows
+export type CSVValidationMode = "strict" | "partial";
+
+export interface CSVParseResult {
+  rows: NormalizedTransaction[];
+  issues: CSVRowIssue[];
+  totalRows: number;
+}
+
+// Column layouts of common bank exports, matched against headers case-insensitively
+export const CSV_PRESETS: Record<string, CSVColumnMapping> = {
+  default: { date: "date", merchant: "merchant", category: "category", amount: "amount" },
+  chase: {
+    date: "Transaction Date",
+    merchant: "Description",
+    category: "Category",
+    amount: "Amount",
+    negateAmount: true,
+    dateFormat: "MM/DD/YYYY",
+  },
+  capital_one: {
+    date: "Transaction Date",
+    merchant: "Description",
+    category: "Category",
+    debit: "Debit",
+    credit: "Credit",
+    dateFormat: "YYYY-MM-DD",
+  },
+  amex: { date: "Date", merchant: "Description", category: "Category", amount: "Amount", dateFormat: "MM/DD/YYYY" },
+  bank_of_america: {
+    date: "Posted Date",
+    merchant: "Payee",
+    amount: "Amount",
+    negateAmount: true,
+    dateFormat: "MM/DD/YYYY",
+  },
+  citi: { date: "Date", merchant: "Description", debit: "Debit", credit: "Credit", dateFormat: "MM/DD/YYYY" },
+};
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+const DEFAULT_CATEGORY = "Other";
+
+export interface CSVParseOptions {
+  // Field separator; detected from the header line when omitted
+  delimiter?: string;
+  // Explicit column mapping, takes precedence over preset
+  mapping?: CSVColumnMapping;
+  // Name of an entry in CSV_PRESETS; detected from the headers when neither is given
+  preset?: string;
+  // Defaults to strict
+  mode?: CSVValidationMode;
+  // Date, decimal and currency handling; fills in around the layout's own settings
+  normalization?: NormalizationOptions;
+}
+
+export interface CSVRecord {
+  fields: string[];
+  // Physical line the record starts on, so quoted line breaks don't skew error reports
+  lineNumber: number;
+}
+
+// Pick the candidate delimiter that occurs most often outside quotes in the first line
+export function detectDelimiter(csvContent: string): string {
+  const counts = new Map<string, number>();
+  let inQuotes = false;
+
+  for (const char of csvContent) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === "\n" || char === "\r")) break;
+    else if (!inQuotes && CANDIDATE_DELIMITERS.includes(char)) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+    }
+  }
+
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const count = counts.get(delimiter) || 0;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split CSV content into records following RFC 4180: fields may be quoted,
+ * quoted fields may contain delimiters and line breaks, and `""` inside a
+ * quoted field is an escaped quote. A leading byte order mark is ignored and
+ * CRLF, LF and bare CR line endings are all accepted.
+ */
+export function tokenizeCSV(csvContent: string, delimiter = ","): CSVRecord[] {
+  const content = csvContent.charCodeAt(0) === 0xfeff ? csvContent.slice(1) : csvContent;
+  const records: CSVRecord[] = [];
+
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    // A line with nothing on it is not a record
+    if (fields.length > 1 || fields[0].trim() !== "") {
+      records.push({ fields, lineNumber: recordLine });
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === "\n" || (char === "\r" && content[i + 1] !== "\n")) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.trim() === "") {
+      // Opening quote; whitespace before it is not part of the value
+      field = "";
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CSVParseError(`Unterminated quoted field starting on line ${recordLine}`, recordLine);
+  }
+  if (field !== "" || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+// Columns a mapping needs to find in the header row
+function mappedColumns(mapping: CSVColumnMapping): string[] {
+  return [mapping.date, mapping.merchant, mapping.amount, mapping.debit, mapping.credit]
+    .filter((column): column is string => Boolean(column));
+}
+
+// Find the first preset whose columns all appear in the headers
+export function detectPreset(headers: string[]): string | undefined {
+  const normalized = headers.map(normalizeHeader);
+  return Object.keys(CSV_PRESETS).find(name =>
+    mappedColumns(CSV_PRESETS[name]).every(column => normalized.includes(normalizeHeader(column)))
+  );
+}
+
+function resolveMapping(headers: string[], options: CSVParseOptions): CSVColumnMapping {
+  if (options.mapping) return options.mapping;
+
+  if (options.preset) {
+    const preset = CSV_PRESETS[options.preset];
+    if (!preset) {
+      throw new CSVParseError(`Unknown CSV preset: ${options.preset}`);
+    }
+    return preset;
+  }
+
+  const detected = detectPreset(headers);
+  if (!detected) {
+    throw new CSVParseError(
+      "Could not recognize the CSV columns; provide a column mapping or choose a bank preset"
+    );
+  }
+  return CSV_PRESETS[detected];
+}
+
+/**
+ * Parse, validate and normalize CSV content. Problems with the file as a
+ * whole (no rows, unknown layout, missing headers) throw CSVParseError. Problems in
+ * individual rows are collected with line, column and reason; in strict mode
+ * they are thrown together as a CSVValidationError, in partial mode the
+ * invalid rows are left out of `rows` and reported in `issues`.
+ */
+export function parseCSV(csvContent: string, options: CSVParseOptions = {}): CSVParseResult {
+  const delimiter = options.delimiter || detectDelimiter(csvContent);
+  const records = tokenizeCSV(csvContent, delimiter);
+
   // Check if CSV is empty
-  if (rows.length <= 1) {
+  if (records.length <= 1) {
     throw new CSVParseError("CSV file is empty or contains only headers");
   }
-  
-  // Parse headers and validate expected format
-  const headers = rows[0].split(',').map(h => h.trim().toLowerCase());
-  
+
+  // Parse headers and resolve which column holds each field
+  const headers = records[0].fields.map(normalizeHeader);
+  const mapping = resolveMapping(headers, options);
+
   // Validate expected headers exist
-  const requiredHeaders = ['date', 'merchant', 'category', 'amount'];
-  const missingHeaders = requiredHeaders.filter(h => !headers.includes(h));
-  
+  const missingHeaders = mappedColumns(mapping).filter(h => !headers.includes(normalizeHeader(h)));
+
   if (missingHeaders.length > 0) {
     throw new CSVParseError(`Missing required headers: ${missingHeaders.join(', ')}`);
   }
-  
-  // Get column indices
-  const dateIndex = headers.indexOf('date');
-  const merchantIndex = headers.indexOf('merchant');
-  const categoryIndex = headers.indexOf('category');
-  const amountIndex = headers.indexOf('amount');
-  
-  const parsedRows: CSVRow[] = [];
-  
-  // Parse data rows
-  for (let i = 1; i < rows.length; i++) {
-    // Skip empty rows
-    if (!rows[i].trim()) continue;
-    
-    const values = rows[i].split(',').map(v => v.trim());
-    
-    // Ensure row has enough columns
-    if (values.length < requiredHeaders.length) {
-      throw new CSVParseError(`Row ${i + 1} has insufficient columns`, i + 1);
+
+  // Get column indices (-1 for columns the mapping leaves out)
+  const columnIndex = (column?: string) => column ? headers.indexOf(normalizeHeader(column)) : -1;
+  const dateIndex = columnIndex(mapping.date);
+  const merchantIndex = columnIndex(mapping.merchant);
+  const categoryIndex = columnIndex(mapping.category);
+  const amountIndex = columnIndex(mapping.amount);
+  const debitIndex = columnIndex(mapping.debit);
+  const creditIndex = columnIndex(mapping.credit);
+  const amountColumn = mapping.amount || [mapping.debit, mapping.credit].filter(Boolean).join("/");
+
+  // Explicit options win over the date format and sign convention of the layout
+  const normalization: NormalizationOptions = {
+    ...options.normalization,
+    dateFormat: options.normalization?.dateFormat ?? mapping.dateFormat,
+    signConvention: options.normalization?.signConvention
+      ?? (mapping.negateAmount ? "debit_negative" : "debit_positive"),
+  };
+
+  const parsedRows: NormalizedTransaction[] = [];
+  const issues: CSVRowIssue[] = [];
+  const dataRecords = records.slice(1);
+
+  // Validate data rows, collecting every problem instead of stopping at the first
+  for (const { fields, lineNumber } of dataRecords) {
+    const values = fields.map(v => v.trim());
+    const valueAt = (index: number) => index >= 0 ? values[index] ?? "" : "";
+    const rowIssues: CSVRowIssue[] = [];
+
+    // Ensure row reaches every mapped column
+    const lastIndex = Math.max(dateIndex, merchantIndex, amountIndex, debitIndex, creditIndex);
+    if (values.length <= lastIndex) {
+      issues.push({
+        lineNumber,
+        reason: `Expected at least ${lastIndex + 1} columns but found ${values.length}`
+      });
+      continue;
+    }
+
+    const raw: RawTransaction = {
+      date: valueAt(dateIndex),
+      merchant: valueAt(merchantIndex),
+      category: valueAt(categoryIndex) || DEFAULT_CATEGORY,
+      amount: amountIndex >= 0 ? valueAt(amountIndex) : undefined,
+      debit: valueAt(debitIndex),
+      credit: valueAt(creditIndex)
+    };
+
+    if (!raw.date) {
+      rowIssues.push({ lineNumber, column: mapping.date, reason: "Date is missing" });
+    } else {
+      try {
+        parseTransactionDate(raw.date, normalization.dateFormat);
+      } catch (error) {
+        if (!(error instanceof NormalizationError)) throw error;
+        rowIssues.push({ lineNumber, column: mapping.date, value: raw.date, reason: error.message });
+      }
+    }
+
+    if (!raw.merchant) {
+      rowIssues.push({ lineNumber, column: mapping.merchant, reason: "Merchant is missing" });
     }
-    
+
     try {
-      // Create row object with proper field mapping
-      const row = {
-        date: values[dateIndex],
-        merchant: values[merchantIndex],
-        category: values[categoryIndex],
-        amount: values[amountIndex]
-      };
-      
-      // Validate with Zod schema
-      const validatedRow = csvUploadSchema.parse(row);
-      parsedRows.push(validatedRow);
+      normalizeAmount(raw, normalization);
     } catch (error) {
-      if (error instanceof ZodError) {
-        throw new CSVParseError(`Row ${i + 1} has invalid data: ${error.message}`, i + 1);
-      }
-      throw error;
+      if (!(error instanceof NormalizationError)) throw error;
+      const value = raw.amount ?? (raw.debit || raw.credit);
+      rowIssues.push({ lineNumber, column: amountColumn, value: value || undefined, reason: error.message });
+    }
+
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues);
+      continue;
     }
+
+    parsedRows.push(normalizeTransaction(raw, normalization));
+  }
+
+  if (issues.length > 0 && (options.mode ?? "strict") === "strict") {
+    throw new CSVValidationError(issues, dataRecords.length);
   }
-  
-  return parsedRows;
+
+  return {
+    rows: parsedRows,
+    issues,
+    totalRows: dataRecords.length
+  };
 }
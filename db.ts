@@ -0,0 +1,29 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+let pool: pg.Pool | undefined;
+
+/**
+ * Shared connection pool for DATABASE_URL. Works against Neon as well as a
+ * plain local Postgres since both speak the regular wire protocol.
+ */
+export function getPool(): pg.Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set to use the Postgres storage driver");
+    }
+    pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  }
+  return pool;
+}
+
+/**
+ * Wrap any pg-compatible pool in a Drizzle instance. Tests use an in-memory
+ * pool from `createTestDatabase()` in testDatabase.ts instead of a real connection.
+ */
+export function createDatabase(client: pg.Pool = getPool()): Database {
+  return drizzle(client, { schema });
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { CurrencyConverter } from "./exchangeRates";
+import {
+  checkReferenceValues,
+  createSpendBasedEngine,
+  loadEmissionFactorTable,
+  type EmissionFactorTable
+} from "./emissionsEngine";
+
+// Expected footprints are worked out by hand from the USEEIO v2.0 sector intensities the
+// v1 table is condensed from (kg CO2e and liters of blue water per 2022 US dollar), not read
+// from the table, so a factor that is mistyped or swapped for another sector fails here.
+const USEEIO_V2_REFERENCES = [
+  // Food and beverage stores: 0.66 kg and 58 L per dollar
+  { category: "Groceries", amount: 100, co2eKg: 66, waterLiters: 5800, factorCategory: "groceries" },
+  // Restaurants: 0.43 kg and 21 L per dollar
+  { category: "Food and Drink", amount: 25.5, co2eKg: 10.97, waterLiters: 535.5, factorCategory: "dining" },
+  // Electric power, gas distribution and water: 1.47 kg and 44 L per dollar
+  { category: "Utilities", amount: 80, co2eKg: 117.6, waterLiters: 3520, factorCategory: "utilities" },
+  // Gasoline stations and ground transport: 0.92 kg and 6 L per dollar
+  { category: "Gas", amount: 40, co2eKg: 36.8, waterLiters: 240, factorCategory: "transportation" },
+  // Air transportation and accommodation: 1.08 kg and 7 L per dollar
+  { category: "Airlines", amount: 350, co2eKg: 378, waterLiters: 2450, factorCategory: "travel" },
+  // Educational services: 0.15 kg and 3 L per dollar
+  { category: "Tuition", amount: 1200, co2eKg: 180, waterLiters: 3600, factorCategory: "education" },
+  // All personal consumption expenditures: 0.31 kg and 9 L per dollar
+  { category: "Uncategorized", amount: 10, co2eKg: 3.1, waterLiters: 90, factorCategory: "other" },
+];
+
+const dollars: CurrencyConverter = {
+  baseCurrency: "USD",
+  convert: amount => amount,
+  toBase: amount => amount
+};
+
+const table = loadEmissionFactorTable("v1");
+const engine = createSpendBasedEngine(table);
+const estimate = (category: string, amount: number, converter = dollars, currency = "USD") =>
+  engine.estimate({ category, amount, currency, date: new Date("2024-06-01") }, converter);
+
+describe("spend-based emissions engine", () => {
+  it.each(USEEIO_V2_REFERENCES)("estimates $amount USD of $category", reference => {
+    const result = estimate(reference.category, reference.amount);
+    expect(result.factorCategory).toBe(reference.factorCategory);
+    expect(result.co2eKg).toBe(reference.co2eKg);
+    expect(result.waterLiters).toBe(reference.waterLiters);
+    expect(result.methodologyVersion).toBe("spend-eeio-v1");
+  });
+
+  it("nets a refund out against its purchase", () => {
+    expect(estimate("Groceries", 100).co2eKg + estimate("Groceries", -100).co2eKg).toBe(0);
+    expect(estimate("Groceries", -20)).toMatchObject({ co2eKg: -13.2, waterLiters: -1160 });
+  });
+
+  it("matches category names through the category taxonomy", () => {
+    expect(estimate("Coffee Shops", 5).factorCategory).toBe("dining");
+    expect(estimate("Supermarkets and Groceries", 5).factorCategory).toBe("groceries");
+    expect(estimate("Water", 5).factorCategory).toBe("utilities");
+    expect(estimate("Air Travel", 5).factorCategory).toBe("travel");
+    // "gas" is not matched inside another word
+    expect(estimate("Vegas show", 5).factorCategory).toBe("other");
+  });
+
+  it("converts spend into the table's currency before applying factors", () => {
+    // 1 EUR = 1.10 USD on the day
+    const euros: CurrencyConverter = {
+      baseCurrency: "EUR",
+      convert: (amount, from, to) => from === "EUR" && to === "USD" ? Math.round(amount * 1.1 * 100) / 100 : amount,
+      toBase: amount => amount
+    };
+    const result = estimate("Groceries", 50, euros, "EUR");
+    expect(result).toMatchObject({ spend: 55, spendCurrency: "USD", co2eKg: 36.3, waterLiters: 3190 });
+  });
+});
+
+describe("checkReferenceValues", () => {
+  it("passes the bundled table", () => {
+    expect(checkReferenceValues(engine, table)).toEqual([]);
+  });
+
+  it("reports a table whose factor doesn't reproduce its reference values", () => {
+    const broken: EmissionFactorTable = {
+      ...table,
+      categories: { ...table.categories, groceries: { ...table.categories.groceries, co2eKgPerUnit: 0.066 } }
+    };
+    const mismatches = checkReferenceValues(createSpendBasedEngine(broken), broken);
+    expect(mismatches).toContain("Groceries 100 USD: expected 66 kg CO2e, got 6.6");
+  });
+});
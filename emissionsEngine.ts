@@ -0,0 +1,154 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { CurrencyConverter } from "./exchangeRates";
+import { CATEGORY_TAXONOMY, canonicalCategory } from "./categoryTaxonomy";
+
+const DEFAULT_METHODOLOGY = "v1";
+const FACTORS_DIR = path.resolve(process.cwd(), "data", "emission-factors");
+
+const emissionFactorSchema = z.object({
+  sector: z.string(),
+  // Per unit of the table's currency at purchaser prices
+  co2eKgPerUnit: z.number().nonnegative(),
+  waterLitersPerUnit: z.number().nonnegative(),
+});
+
+const emissionFactorTableSchema = z.object({
+  version: z.string(),
+  description: z.string().optional(),
+  currency: z.string().length(3),
+  priceYear: z.number().int().optional(),
+  // Keyed by canonical category, see categoryTaxonomy.ts
+  categories: z.record(emissionFactorSchema),
+  fallbackCategory: z.string(),
+  // Expected results for sample purchases in the table's currency, checked when the table loads
+  referenceValues: z.array(z.object({
+    category: z.string(),
+    amount: z.number(),
+    currency: z.string().length(3),
+    co2eKg: z.number(),
+    waterLiters: z.number(),
+  })).default([]),
+}).refine(table => table.categories[table.fallbackCategory], {
+  message: "fallbackCategory must be one of the table's categories",
+}).refine(table => Object.keys(table.categories).every(category => CATEGORY_TAXONOMY[category]), {
+  message: "categories must be keys of the category taxonomy",
+});
+
+export type EmissionFactor = z.infer<typeof emissionFactorSchema>;
+export type EmissionFactorTable = z.infer<typeof emissionFactorTableSchema>;
+
+export interface EmissionInput {
+  category: string;
+  // Signed, money out positive; refunds produce negative estimates that net out their purchase
+  amount: number;
+  currency: string;
+  date: Date;
+}
+
+export interface EmissionEstimate {
+  co2eKg: number;
+  waterLiters: number;
+  // Identifies the engine and factor table that produced the estimate
+  methodologyVersion: string;
+  // Factor table category the transaction was matched to, and the factors applied
+  factorCategory: string;
+  sector: string;
+  co2eKgPerUnit: number;
+  waterLitersPerUnit: number;
+  // Spend the factors were applied to, in the table's currency
+  spend: number;
+  spendCurrency: string;
+}
+
+// Anything that can put a footprint on a transaction
+export interface EmissionsEngine {
+  methodologyVersion: string;
+  estimate(input: EmissionInput, converter: CurrencyConverter): EmissionEstimate;
+}
+
+/**
+ * Spend-based engine: footprint = spend in the table's currency × the
+ * category's factor. Category names are resolved through the category
+ * taxonomy, so "Food and Drink" and "Coffee Shop" both use the dining factor;
+ * categories the table has no factor for use its fallback category.
+ */
+export function createSpendBasedEngine(table: EmissionFactorTable): EmissionsEngine {
+  const matchCategory = (rawCategory: string): string => {
+    const category = canonicalCategory(rawCategory);
+    return table.categories[category] ? category : table.fallbackCategory;
+  };
+
+  return {
+    methodologyVersion: table.version,
+    estimate(input, converter) {
+      const factorCategory = matchCategory(input.category);
+      const factor = table.categories[factorCategory];
+      const spend = converter.convert(input.amount, input.currency, table.currency, input.date);
+
+      return {
+        co2eKg: Math.round(spend * factor.co2eKgPerUnit * 100) / 100,
+        waterLiters: Math.round(spend * factor.waterLitersPerUnit * 10) / 10,
+        methodologyVersion: table.version,
+        factorCategory,
+        sector: factor.sector,
+        co2eKgPerUnit: factor.co2eKgPerUnit,
+        waterLitersPerUnit: factor.waterLitersPerUnit,
+        spend,
+        spendCurrency: table.currency
+      };
+    }
+  };
+}
+
+// Read and validate data/emission-factors/<version>.json
+export function loadEmissionFactorTable(version: string): EmissionFactorTable {
+  const file = path.join(FACTORS_DIR, `${path.basename(version)}.json`);
+  return emissionFactorTableSchema.parse(JSON.parse(readFileSync(file, "utf8")));
+}
+
+/**
+ * Run a table's reference purchases through an engine and describe every
+ * result that differs from the expected value. An empty list means the
+ * engine reproduces the published numbers.
+ */
+export function checkReferenceValues(engine: EmissionsEngine, table: EmissionFactorTable): string[] {
+  // Reference purchases are priced in the table's own currency, so no rates are involved
+  const identity: CurrencyConverter = {
+    baseCurrency: table.currency,
+    convert: amount => amount,
+    toBase: amount => amount
+  };
+
+  return table.referenceValues.flatMap(reference => {
+    const estimate = engine.estimate({ ...reference, date: new Date() }, identity);
+    const label = `${reference.category} ${reference.amount} ${reference.currency}`;
+    const mismatches: string[] = [];
+    if (estimate.co2eKg !== reference.co2eKg) {
+      mismatches.push(`${label}: expected ${reference.co2eKg} kg CO2e, got ${estimate.co2eKg}`);
+    }
+    if (estimate.waterLiters !== reference.waterLiters) {
+      mismatches.push(`${label}: expected ${reference.waterLiters} L water, got ${estimate.waterLiters}`);
+    }
+    return mismatches;
+  });
+}
+
+let defaultEngine: EmissionsEngine | null = null;
+
+// Engine for the factor table named by EMISSIONS_METHODOLOGY, loaded and checked once
+export function getEmissionsEngine(): EmissionsEngine {
+  if (!defaultEngine) {
+    const version = process.env.EMISSIONS_METHODOLOGY || DEFAULT_METHODOLOGY;
+    const table = loadEmissionFactorTable(version);
+    const engine = createSpendBasedEngine(table);
+
+    const mismatches = checkReferenceValues(engine, table);
+    if (mismatches.length > 0) {
+      throw new Error(`Emission factors ${version} fail their reference values:\n${mismatches.join("\n")}`);
+    }
+    defaultEngine = engine;
+  }
+  return defaultEngine;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { ZodError } from "zod";
+import { MissingExchangeRateError, parseExchangeRateDocument } from "./exchangeRates";
+
+describe("parseExchangeRateDocument", () => {
+  it("reads rates quoted per dollar as they are", () => {
+    expect(parseExchangeRateDocument({ base: "USD", rates: { "2024-01-01": { EUR: 0.905, JPY: 141 } } })).toEqual([
+      { date: "2024-01-01", currency: "EUR", rate: 0.905 },
+      { date: "2024-01-01", currency: "JPY", rate: 141 },
+    ]);
+  });
+
+  it("rebases another base onto the dollar and includes the base itself", () => {
+    // 1 EUR = 1.25 USD = 0.85 GBP, so 1 USD = 0.8 EUR = 0.68 GBP
+    const rows = parseExchangeRateDocument({ base: "eur", rates: { "2024-01-01": { usd: 1.25, GBP: 0.85 } } });
+    expect(rows.map(row => row.currency)).toEqual(["GBP", "EUR"]);
+    expect(rows[0].rate).toBeCloseTo(0.68, 12);
+    expect(rows[1].rate).toBeCloseTo(0.8, 12);
+  });
+
+  it("needs a USD quote for every day of a non-dollar document", () => {
+    expect(() => parseExchangeRateDocument({ base: "EUR", rates: { "2024-01-01": { GBP: 0.85 } } }))
+      .toThrow(MissingExchangeRateError);
+  });
+
+  it.each([
+    ["no document", null],
+    ["no rates", { base: "USD" }],
+    ["rates that aren't a table", { rates: [1, 2] }],
+    ["a rate that isn't a number", { rates: { "2024-01-01": { EUR: "0.9" } } }],
+    ["a negative rate", { rates: { "2024-01-01": { EUR: -0.9 } } }],
+    ["a day that isn't a date", { rates: { yesterday: { EUR: 0.9 } } }],
+  ])("rejects %s as invalid", (_case, document) => {
+    expect(() => parseExchangeRateDocument(document)).toThrow(ZodError);
+  });
+});
@@ -0,0 +1,132 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { insertExchangeRateSchema, type ExchangeRate, type InsertExchangeRate } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+
+// Rates are stored as units of each currency per US dollar
+const PIVOT_CURRENCY = "USD";
+const DEFAULT_RATES_FILE = path.resolve(process.cwd(), "data", "exchange-rates.json");
+
+export class MissingExchangeRateError extends Error {
+  constructor(public currency: string) {
+    super(`No exchange rate available for ${currency}`);
+    this.name = "MissingExchangeRateError";
+  }
+}
+
+const exchangeRateDocumentSchema = z.object({
+  base: z.string().length(3).toUpperCase().default(PIVOT_CURRENCY),
+  // Units of each currency per unit of the base, by day
+  rates: z.record(z.record(z.number().positive())),
+});
+
+/**
+ * Flatten a rate document of the form
+ * `{ base: "USD", rates: { "2024-01-01": { "EUR": 0.905 } } }` into rows.
+ * The document may use another base as long as each day also quotes USD;
+ * its rates, and the base currency itself, are re-expressed per dollar.
+ *
+ * @throws ZodError when the document isn't in this shape
+ */
+export function parseExchangeRateDocument(document: unknown): InsertExchangeRate[] {
+  const { base, rates: days } = exchangeRateDocumentSchema.parse(document);
+  const rows: InsertExchangeRate[] = [];
+
+  for (const [date, rates] of Object.entries(days)) {
+    const quotes = new Map(Object.entries(rates).map(([currency, rate]) => [currency.toUpperCase(), rate]));
+    // The base is worth one unit of itself
+    if (!quotes.has(base)) quotes.set(base, 1);
+
+    // Dollars per unit of the base on this day, needed to rebase onto USD
+    const dollarsPerBase = quotes.get(PIVOT_CURRENCY);
+    if (!dollarsPerBase) {
+      // Without a USD quote for the day the rates can't be rebased
+      throw new MissingExchangeRateError(PIVOT_CURRENCY);
+    }
+
+    for (const [currency, rate] of Array.from(quotes.entries())) {
+      if (currency === PIVOT_CURRENCY) continue;
+      rows.push(insertExchangeRateSchema.parse({ date, currency, rate: rate / dollarsPerBase }));
+    }
+  }
+
+  return rows;
+}
+
+// Read the bundled rate file, or the one named by EXCHANGE_RATES_FILE
+export async function loadExchangeRateFile(file = process.env.EXCHANGE_RATES_FILE || DEFAULT_RATES_FILE): Promise<InsertExchangeRate[]> {
+  return parseExchangeRateDocument(JSON.parse(await readFile(file, "utf8")));
+}
+
+// Load the offline rate table on first start so conversions work out of the box
+export async function seedExchangeRates(): Promise<void> {
+  try {
+    if ((await storage.getExchangeRates()).length > 0) return;
+    const count = await storage.upsertExchangeRates(await loadExchangeRateFile());
+    log(`Seeded ${count} exchange rates`, "exchange-rates");
+  } catch (error) {
+    console.warn("Warning: could not seed exchange rates:", error);
+  }
+}
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  // Convert an amount on the given day between any two known currencies
+  convert(amount: number, from: string, to: string, date: Date): number;
+  // Convert an amount on the given day into the base currency
+  toBase(amount: number, currency: string, date: Date): number;
+}
+
+const dayKey = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * Build a converter into `baseCurrency` backed by the stored rate table.
+ * Each conversion uses the latest rate on or before the transaction date,
+ * falling back to the earliest rate after it for dates the table predates.
+ * Currencies are converted through USD.
+ *
+ * @throws MissingExchangeRateError from toBase when a currency has no rates at all
+ */
+export async function createCurrencyConverter(baseCurrency: string): Promise<CurrencyConverter> {
+  const rates = await storage.getExchangeRates();
+  const byCurrency = new Map<string, ExchangeRate[]>();
+  for (const rate of rates) {
+    const list = byCurrency.get(rate.currency) ?? [];
+    list.push(rate);
+    byCurrency.set(rate.currency, list);
+  }
+  byCurrency.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const unitsPerDollar = (currency: string, day: string): number => {
+    if (currency === PIVOT_CURRENCY) return 1;
+    const list = byCurrency.get(currency);
+    if (!list || list.length === 0) {
+      throw new MissingExchangeRateError(currency);
+    }
+
+    let match = list[0];
+    for (const rate of list) {
+      if (rate.date > day) break;
+      match = rate;
+    }
+    return match.rate;
+  };
+
+  const convert = (amount: number, fromCurrency: string, toCurrency: string, date: Date): number => {
+    const from = fromCurrency.toUpperCase();
+    const to = toCurrency.toUpperCase();
+    if (from === to) return amount;
+    const day = dayKey(date);
+    const converted = amount / unitsPerDollar(from, day) * unitsPerDollar(to, day);
+    return Math.round(converted * 100) / 100;
+  };
+
+  const base = baseCurrency.toUpperCase();
+  return {
+    baseCurrency: base,
+    convert,
+    toBase: (amount, currency, date) => convert(amount, currency, base, date)
+  };
+}
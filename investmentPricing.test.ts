@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { ZodError } from "zod";
+import { storage } from "../storage";
+import { importPrices, parsePriceDocument, seedInvestmentPrices } from "./investmentPricing";
+
+describe("parsePriceDocument", () => {
+  it("flattens prices by symbol and day into rows", () => {
+    expect(parsePriceDocument({ currency: "eur", prices: { grnb: { "2024-01-01": 22.4, "2024-01-02": 22.6 } } })).toEqual([
+      { symbol: "GRNB", date: "2024-01-01", price: 22.4, currency: "EUR" },
+      { symbol: "GRNB", date: "2024-01-02", price: 22.6, currency: "EUR" },
+    ]);
+    expect(parsePriceDocument({ prices: { ICLN: { "2024-01-01": 15 } } })[0].currency).toBe("USD");
+  });
+
+  it.each([
+    ["no document", undefined],
+    ["null prices", { prices: null }],
+    ["prices that aren't a table", { prices: "GRNB" }],
+    ["a price that isn't a number", { prices: { GRNB: { "2024-01-01": null } } }],
+    ["a day that isn't a date", { prices: { GRNB: { "Jan 1": 22.4 } } }],
+    ["a currency that isn't a code", { currency: "dollars", prices: {} }],
+  ])("rejects %s as invalid", (_case, document) => {
+    expect(() => parsePriceDocument(document)).toThrow(ZodError);
+  });
+});
+
+describe("seedInvestmentPrices", () => {
+  it("leaves a price table that already has prices alone", async () => {
+    await importPrices({ name: "admin import", fetchPrices: async () => [{ symbol: "GRNB", date: "2024-01-01", price: 99, currency: "USD" }] });
+    await seedInvestmentPrices();
+    expect(await storage.getInvestmentPrices()).toMatchObject([{ symbol: "GRNB", date: "2024-01-01", price: 99 }]);
+  });
+});
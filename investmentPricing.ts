@@ -0,0 +1,189 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import {
+  insertInvestmentPriceSchema,
+  type GreenInvestment,
+  type InsertInvestmentPrice,
+  type Investment,
+  type InvestmentPrice
+} from "@shared/schema";
+import { createCurrencyConverter, type CurrencyConverter } from "./exchangeRates";
+import { storage } from "../storage";
+import { log } from "../vite";
+
+const DEFAULT_PRICES_FILE = path.resolve(process.cwd(), "data", "investment-prices.json");
+const DEFAULT_REVALUE_INTERVAL_MINUTES = 60;
+// Holdings keep their value at this many of the latest prices as performance data
+const PERFORMANCE_POINTS = 12;
+
+export class MissingPriceError extends Error {
+  constructor(public symbol: string | null) {
+    super(symbol ? `No price available for ${symbol}` : "This investment has no price source");
+    this.name = "MissingPriceError";
+  }
+}
+
+// Anywhere daily investment prices can come from
+export interface PriceSource {
+  name: string;
+  fetchPrices(): Promise<InsertInvestmentPrice[]>;
+}
+
+const priceDocumentSchema = z.object({
+  currency: z.string().length(3).toUpperCase().default("USD"),
+  // Closing price by day for each symbol
+  prices: z.record(z.record(z.number().positive())),
+});
+
+/**
+ * Flatten a price document of the form
+ * `{ currency: "USD", prices: { "GRNB": { "2024-01-01": 22.4 } } }` into rows.
+ *
+ * @throws ZodError when the document isn't in this shape
+ */
+export function parsePriceDocument(document: unknown): InsertInvestmentPrice[] {
+  const { currency, prices: bySymbol } = priceDocumentSchema.parse(document);
+  return Object.entries(bySymbol).flatMap(([symbol, prices]) =>
+    Object.entries(prices).map(([date, price]) => insertInvestmentPriceSchema.parse({ symbol, date, price, currency }))
+  );
+}
+
+// Prices from a local file in the same shape as the bundled data/investment-prices.json
+export function createFilePriceSource(file = process.env.INVESTMENT_PRICES_FILE || DEFAULT_PRICES_FILE): PriceSource {
+  return {
+    name: `file:${path.basename(file)}`,
+    fetchPrices: async () => parsePriceDocument(JSON.parse(await readFile(file, "utf8")))
+  };
+}
+
+// Pull everything the source has into the price table
+export async function importPrices(source: PriceSource = createFilePriceSource()): Promise<number> {
+  return storage.upsertInvestmentPrices(await source.fetchPrices());
+}
+
+// Load the bundled prices on first start so products can be bought out of the box
+export async function seedInvestmentPrices(): Promise<void> {
+  try {
+    if ((await storage.getInvestmentPrices()).length > 0) return;
+    log(`Seeded ${await importPrices()} investment prices`, "investments");
+  } catch (error) {
+    console.warn("Warning: could not seed investment prices:", error);
+  }
+}
+
+const dayKey = (date: Date) => date.toISOString().split("T")[0];
+
+// Prices up to and including the day, oldest first
+function pricesUpTo(prices: InvestmentPrice[], day: string): InvestmentPrice[] {
+  return prices.filter(price => price.date <= day).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The price a product trades at on a day: its latest close on or before it.
+ *
+ * @throws MissingPriceError when the product has no symbol or no price by then
+ */
+export async function getProductPrice(product: GreenInvestment, on = new Date()): Promise<InvestmentPrice> {
+  if (!product.symbol) throw new MissingPriceError(null);
+  const latest = pricesUpTo(await storage.getInvestmentPrices([product.symbol]), dayKey(on)).pop();
+  if (!latest) throw new MissingPriceError(product.symbol);
+  return latest;
+}
+
+/**
+ * Work out a holding's value in its owner's base currency at the latest price,
+ * with its value at each of the last few prices as performance data.
+ * Undefined when the product has no price yet.
+ */
+export function valueHolding(
+  holding: Investment,
+  prices: InvestmentPrice[],
+  converter: CurrencyConverter,
+  on = new Date()
+): Pick<Investment, "currentValue" | "performanceData"> | undefined {
+  const history = pricesUpTo(prices, dayKey(on)).slice(-PERFORMANCE_POINTS);
+  if (history.length === 0 || holding.units === null) return undefined;
+
+  const values = history.map(price =>
+    converter.convert(holding.units! * price.price, price.currency, converter.baseCurrency, new Date(`${price.date}T00:00:00Z`))
+  );
+  return { currentValue: values[values.length - 1], performanceData: values };
+}
+
+/**
+ * Revalue every holding in a green investment product at its latest price and
+ * bring each owner's portfolio total up to date. Holdings whose product has
+ * no price, or whose owner's currency can't be converted, keep their last value.
+ */
+export async function revalueInvestments(on = new Date()): Promise<{ revalued: number; skipped: number }> {
+  const holdings = await storage.getPricedInvestments();
+  const products = new Map<number, GreenInvestment | undefined>();
+  const converters = new Map<string, CurrencyConverter>();
+  const owners = new Set<number>();
+  let revalued = 0;
+  let skipped = 0;
+
+  for (const holding of holdings) {
+    try {
+      if (!products.has(holding.greenInvestmentId!)) {
+        products.set(holding.greenInvestmentId!, await storage.getGreenInvestmentById(holding.greenInvestmentId!));
+      }
+      const product = products.get(holding.greenInvestmentId!);
+      const owner = holding.userId !== null ? await storage.getUser(holding.userId) : undefined;
+      if (!product?.symbol || !owner) {
+        skipped++;
+        continue;
+      }
+
+      if (!converters.has(owner.baseCurrency)) {
+        converters.set(owner.baseCurrency, await createCurrencyConverter(owner.baseCurrency));
+      }
+      const value = valueHolding(holding, await storage.getInvestmentPrices([product.symbol]), converters.get(owner.baseCurrency)!, on);
+      if (!value) {
+        skipped++;
+        continue;
+      }
+
+      await storage.updateInvestment(holding.id, value);
+      owners.add(owner.id);
+      revalued++;
+    } catch (error) {
+      console.warn(`Warning: could not revalue investment ${holding.id}:`, error);
+      skipped++;
+    }
+  }
+
+  for (const userId of Array.from(owners)) {
+    await storage.updateInvestmentProfile(userId, { currentValue: await storage.getTotalInvestmentValue(userId) });
+  }
+  return { revalued, skipped };
+}
+
+let revaluationTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Revalue holdings at the stored prices now and then every
+ * INVESTMENT_REVALUE_INTERVAL_MINUTES (default 60; 0 turns the job off).
+ * Prices are not re-imported here: the bundled file only seeds an empty
+ * table, and anything newer comes in through the admin import, which a
+ * file re-import would overwrite.
+ */
+export function scheduleRevaluation(): void {
+  const minutes = Number(process.env.INVESTMENT_REVALUE_INTERVAL_MINUTES ?? DEFAULT_REVALUE_INTERVAL_MINUTES);
+  if (revaluationTimer || !(minutes > 0)) return;
+
+  const run = async () => {
+    try {
+      const { revalued, skipped } = await revalueInvestments();
+      log(`Revalued ${revalued} investments${skipped > 0 ? `, skipped ${skipped}` : ""}`, "investments");
+    } catch (error) {
+      console.warn("Warning: investment revaluation failed:", error);
+    }
+  };
+
+  void run();
+  revaluationTimer = setInterval(run, minutes * 60 * 1000);
+  // Don't keep the process alive just for the job
+  revaluationTimer.unref();
+}
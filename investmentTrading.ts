@@ -0,0 +1,192 @@
+import type {
+  InsertInvestmentTransaction,
+  InsertLedgerEntry,
+  Investment,
+  InvestmentCashflow,
+  InvestmentTransaction,
+  User
+} from "@shared/schema";
+import { createCurrencyConverter } from "./exchangeRates";
+import { getProductPrice } from "./investmentPricing";
+import { storage } from "../storage";
+
+export class InvestmentTradeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "InvestmentTradeError";
+  }
+}
+
+// A holding as its transaction log describes it; money is in the owner's base currency
+export interface HoldingPosition {
+  // Null for holdings bought before units were tracked
+  units: number | null;
+  // What the units still held cost, at their average cost
+  costBasis: number;
+  realizedGain: number;
+  dividends: number;
+  fees: number;
+}
+
+type LoggedTransaction = Pick<InvestmentTransaction, "kind" | "units" | "amount" | "costBasis" | "realizedGain">;
+type Posting = Omit<InsertLedgerEntry, "userId" | "investmentId">;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const roundUnits = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Replay a holding's transaction log, oldest first
+export function deriveHolding(transactions: LoggedTransaction[]): HoldingPosition {
+  const position: HoldingPosition = { units: null, costBasis: 0, realizedGain: 0, dividends: 0, fees: 0 };
+  for (const transaction of transactions) {
+    switch (transaction.kind) {
+      case "buy":
+        if (transaction.units !== null) position.units = (position.units ?? 0) + transaction.units;
+        position.costBasis += transaction.amount;
+        break;
+      case "sell":
+        if (transaction.units !== null) position.units = (position.units ?? 0) - transaction.units;
+        position.costBasis -= transaction.costBasis ?? 0;
+        position.realizedGain += transaction.realizedGain ?? 0;
+        break;
+      case "dividend":
+        position.dividends += transaction.amount;
+        break;
+      case "fee":
+        position.fees += transaction.amount;
+        break;
+    }
+  }
+  return {
+    units: position.units === null ? null : roundUnits(position.units),
+    costBasis: round(position.costBasis),
+    realizedGain: round(position.realizedGain),
+    dividends: round(position.dividends),
+    fees: round(position.fees)
+  };
+}
+
+// A sale pays its proceeds out: its cost leaves the investments account, and a gain
+// comes out of returns while a loss is written off to them
+function salePostings(proceeds: number, costBasis: number, currency: string): Posting[] {
+  const gain = round(proceeds - costBasis);
+  const postings: Posting[] = [];
+  const fromInvestments = gain >= 0 ? costBasis : proceeds;
+  if (fromInvestments > 0) {
+    postings.push({ kind: "sale", debitAccount: "payouts", creditAccount: "investments", amount: fromInvestments, currency });
+  }
+  if (gain > 0) {
+    postings.push({ kind: "sale", debitAccount: "payouts", creditAccount: "returns", amount: gain, currency });
+  } else if (gain < 0) {
+    postings.push({ kind: "sale", debitAccount: "returns", creditAccount: "investments", amount: -gain, currency });
+  }
+  return postings;
+}
+
+async function refreshProfileValue(userId: number): Promise<void> {
+  await storage.updateInvestmentProfile(userId, { currentValue: await storage.getTotalInvestmentValue(userId) });
+}
+
+/**
+ * Sell units of a holding at its product's latest price, or all of them when
+ * `units` is left out. The units sold take their share of the holding's cost
+ * at average cost, and the difference from the proceeds is the realized gain
+ * or loss. The sale is appended to the holding's log, the proceeds are paid
+ * out through the cashback ledger, and the holding's units, cost and value are
+ * derived again from the log.
+ *
+ * @throws InvestmentTradeError when the holding can't be sold in that amount
+ * @throws MissingPriceError when its product has no price to sell at
+ * @throws MissingExchangeRateError when the price can't be converted into the user's base currency
+ */
+export async function sellInvestment(
+  user: User,
+  investment: Investment,
+  units?: number
+): Promise<{ transaction: InvestmentTransaction; investment: Investment }> {
+  if (investment.units === null || investment.greenInvestmentId === null) {
+    throw new InvestmentTradeError("Only holdings bought in a priced green investment can be sold", 422);
+  }
+  const held = investment.units;
+  if (held <= 0) {
+    throw new InvestmentTradeError("This investment has already been sold", 400);
+  }
+  const sold = roundUnits(units ?? held);
+  if (sold > held) {
+    throw new InvestmentTradeError(`Only ${held} units are held`, 422);
+  }
+
+  const product = await storage.getGreenInvestmentById(investment.greenInvestmentId);
+  if (!product) {
+    throw new InvestmentTradeError("Green investment not found", 404);
+  }
+  const now = new Date();
+  const price = await getProductPrice(product, now);
+  const converter = await createCurrencyConverter(user.baseCurrency);
+  const valueOf = (count: number) => round(converter.convert(count * price.price, price.currency, converter.baseCurrency, now));
+
+  const log = await storage.getInvestmentTransactions(investment.id);
+  const before = deriveHolding(log);
+  const proceeds = valueOf(sold);
+  const costBasis = sold === held ? before.costBasis : round(before.costBasis * sold / held);
+  const entry: InsertInvestmentTransaction = {
+    userId: user.id,
+    investmentId: investment.id,
+    kind: "sell",
+    units: sold,
+    price: price.price,
+    priceCurrency: price.currency,
+    amount: proceeds,
+    costBasis,
+    realizedGain: round(proceeds - costBasis),
+    date: now
+  };
+
+  const after = deriveHolding([...log, { units: null, costBasis: null, realizedGain: null, ...entry }]);
+  const remaining = Math.max(0, after.units ?? 0);
+  const recorded = await storage.recordInvestmentTransaction(entry, {
+    units: remaining,
+    amount: after.costBasis,
+    purchaseValue: after.costBasis,
+    currentValue: remaining > 0 ? valueOf(remaining) : 0
+  }, held, salePostings(proceeds, costBasis, converter.baseCurrency));
+  if (!recorded) {
+    // Another sale changed the holding after it was read
+    throw new InvestmentTradeError("Investment changed, please try again", 409);
+  }
+
+  await refreshProfileValue(user.id);
+  return recorded;
+}
+
+// Record a dividend paid or a fee charged on a holding; neither changes its units.
+// Dividends are paid out from returns through the ledger; fees are taken by the
+// product from the holding's value, so no cashback moves.
+export async function recordInvestmentCashflow(
+  investment: Investment,
+  { kind, amount, date }: InvestmentCashflow
+): Promise<InvestmentTransaction> {
+  const owner = await storage.getUser(investment.userId!);
+  const postings: Posting[] = kind === "dividend" && owner
+    ? [{ kind: "dividend", debitAccount: "payouts", creditAccount: "returns", amount: round(amount), currency: owner.baseCurrency }]
+    : [];
+  const recorded = await storage.recordInvestmentTransaction({
+    userId: investment.userId!,
+    investmentId: investment.id,
+    kind,
+    amount: round(amount),
+    date: date ?? new Date()
+  }, {}, investment.units, postings);
+  if (!recorded) {
+    throw new InvestmentTradeError("Investment changed, please try again", 409);
+  }
+  return recorded.transaction;
+}
+
+// A holding's log, oldest first, with the position it adds up to
+export async function getInvestmentHistory(
+  investment: Investment
+): Promise<{ position: HoldingPosition; transactions: InvestmentTransaction[] }> {
+  const transactions = (await storage.getInvestmentTransactions(investment.id))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.id - b.id);
+  return { position: deriveHolding(transactions), transactions };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  LlmError,
+  LlmResponseError,
+  LlmTimeoutError,
+  createLlmClient,
+  createStubProvider,
+  llmClientOptionsFromEnv,
+  type LlmProvider
+} from "./llmClient";
+
+const stub = createStubProvider({
+  "eco-search": [{ alternatives: [{ name: "Thrift Hub", ecoScore: 90 }] }],
+  "fenced": ["Here you go:\n```json\n{ \"score\": 7 }\n```\nAnything else?"],
+  "no-json": ["I can't help with that."],
+  // A first reply in the wrong shape, and the corrected one the repair prompt gets
+  "rating": [{ score: "high" }],
+  "rating-repair": [{ score: 8 }]
+});
+
+// The stub, with every call counted and the first `failures` attempts failing the given way
+function flaky(failures: number, fail: () => Promise<string> = async () => { throw new LlmError("overloaded", "stub", true); }) {
+  const provider: LlmProvider & { calls: number } = {
+    ...stub,
+    calls: 0,
+    async generate(request, model, signal) {
+      provider.calls++;
+      if (provider.calls <= failures) return fail();
+      // Repair prompts get their own canned answers
+      const task = request.prompt.includes("did not match the required format") ? `${request.task}-repair` : request.task;
+      return stub.generate({ ...request, task }, model, signal);
+    }
+  };
+  return provider;
+}
+
+const request = (task: string) => ({ task, prompt: `Prompt for ${task}` });
+
+describe("createLlmClient", () => {
+  it("answers from the stub and caches identical prompts", async () => {
+    const provider = flaky(0);
+    const client = createLlmClient(provider);
+
+    const first = await client.generate({ ...request("eco-search"), tier: "capable" });
+    expect(first).toMatchObject({ provider: "stub", model: "stub-capable", cached: false });
+    expect(JSON.parse(first.text).alternatives[0].name).toBe("Thrift Hub");
+
+    expect(await client.generate({ ...request("eco-search"), tier: "capable" })).toMatchObject({ text: first.text, cached: true });
+    // Another tier is another model, so it isn't served from the cache
+    expect((await client.generate(request("eco-search"))).cached).toBe(false);
+    expect(provider.calls).toBe(2);
+  });
+
+  it("doesn't cache when the TTL is 0", async () => {
+    const provider = flaky(0);
+    const client = createLlmClient(provider, { cacheTtlMs: 0 });
+    await client.generate(request("eco-search"));
+    expect((await client.generate(request("eco-search"))).cached).toBe(false);
+    expect(provider.calls).toBe(2);
+  });
+
+  it("retries retryable failures up to maxRetries", async () => {
+    const recovering = flaky(2);
+    const text = (await createLlmClient(recovering, { maxRetries: 2, retryDelayMs: 0 }).generate(request("eco-search"))).text;
+    expect(JSON.parse(text)).toHaveProperty("alternatives");
+    expect(recovering.calls).toBe(3);
+
+    const failing = flaky(Infinity);
+    await expect(createLlmClient(failing, { maxRetries: 2, retryDelayMs: 0 }).generate(request("eco-search")))
+      .rejects.toThrow("overloaded");
+    expect(failing.calls).toBe(3);
+  });
+
+  it("doesn't retry a failure that isn't retryable", async () => {
+    const provider = flaky(0);
+    await expect(createLlmClient(provider, { retryDelayMs: 0 }).generate(request("unknown-task")))
+      .rejects.toThrow('No stub responses for task "unknown-task"');
+    expect(provider.calls).toBe(1);
+  });
+
+  it("times out a provider that doesn't answer", async () => {
+    const hanging = flaky(Infinity, () => new Promise<string>(() => {}));
+    await expect(createLlmClient(hanging, { timeoutMs: 20, maxRetries: 1, retryDelayMs: 0 }).generate(request("eco-search")))
+      .rejects.toBeInstanceOf(LlmTimeoutError);
+    expect(hanging.calls).toBe(2);
+  });
+
+  it("pulls the JSON out of a chatty reply", async () => {
+    const client = createLlmClient(stub);
+    expect(await client.generateJson(request("fenced"))).toEqual({ score: 7 });
+    await expect(client.generateJson(request("no-json"))).rejects.toBeInstanceOf(LlmResponseError);
+  });
+
+  it("asks once more when a structured reply doesn't match the schema", async () => {
+    const schema = z.object({ score: z.number() });
+    const provider = flaky(0);
+    expect(await createLlmClient(provider).generateStructured(request("rating"), schema)).toEqual({ score: 8 });
+    expect(provider.calls).toBe(2);
+
+    const error = await createLlmClient(stub).generateStructured(request("no-json"), schema).catch(caught => caught);
+    expect(error).toBeInstanceOf(LlmResponseError);
+    expect(error.issues).toEqual(["reply: contained no JSON"]);
+  });
+});
+
+describe("llmClientOptionsFromEnv", () => {
+  it("reads the settings", () => {
+    expect(llmClientOptionsFromEnv({ LLM_TIMEOUT_MS: "5000", LLM_MAX_RETRIES: "0", LLM_CACHE_TTL_SECONDS: "0" }))
+      .toEqual({ timeoutMs: 5000, maxRetries: 0, cacheTtlMs: 0 });
+  });
+
+  it("falls back to the defaults for unset and invalid values", () => {
+    const defaults = { timeoutMs: 20000, maxRetries: 2, cacheTtlMs: 3600 * 1000 };
+    expect(llmClientOptionsFromEnv({})).toEqual(defaults);
+    expect(llmClientOptionsFromEnv({ LLM_TIMEOUT_MS: "0", LLM_MAX_RETRIES: "three", LLM_CACHE_TTL_SECONDS: "-5" })).toEqual(defaults);
+    expect(llmClientOptionsFromEnv({ LLM_MAX_RETRIES: "1.5" }).maxRetries).toBe(2);
+  });
+});
@@ -0,0 +1,356 @@
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import path from "path";
+import type { ZodError, ZodType, ZodTypeDef } from "zod";
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError
+} from "@google/generative-ai";
+
+const DEFAULT_STUB_FILE = path.resolve(process.cwd(), "data", "llm-stub.json");
+
+const GEMINI_MODELS: Record<LlmTier, string> = {
+  fast: "gemini-1.5-flash",
+  capable: "gemini-1.5-pro"
+};
+
+const DEFAULT_TIMEOUT_MS = 20 * 1000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const DEFAULT_CACHE_TTL_SECONDS = 60 * 60;
+const DEFAULT_CACHE_SIZE = 500;
+
+// Cheap, quick models for lookups; more capable ones where the answer needs reasoning
+export type LlmTier = "fast" | "capable";
+
+export interface LlmRequest {
+  // What the call is for, e.g. "eco-search"; the stub provider answers per task
+  task: string;
+  prompt: string;
+  tier?: LlmTier;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  provider: string;
+  model: string;
+  cached: boolean;
+}
+
+export interface LlmProvider {
+  name: string;
+  modelFor(tier: LlmTier): string;
+  generate(request: LlmRequest, model: string, signal: AbortSignal): Promise<string>;
+}
+
+export interface LlmClient {
+  provider: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  // The JSON value in the reply, with any code fences or surrounding prose removed
+  generateJson(request: LlmRequest): Promise<unknown>;
+  // The reply parsed with `schema`; a reply that doesn't match gets one chance to be corrected
+  generateStructured<T>(request: LlmRequest, schema: ZodType<T, ZodTypeDef, unknown>): Promise<T>;
+}
+
+export interface LlmClientOptions {
+  timeoutMs?: number;
+  // Further attempts after the first, for timeouts, rate limits and server errors
+  maxRetries?: number;
+  // Doubled after every failed attempt
+  retryDelayMs?: number;
+  // 0 disables caching
+  cacheTtlMs?: number;
+  cacheSize?: number;
+}
+
+export class LlmError extends Error {
+  constructor(message: string, public provider: string, public retryable = false) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+// No provider is usable, e.g. Gemini was chosen without an API key
+export class LlmNotConfiguredError extends LlmError {
+  constructor(message: string) {
+    super(message, "none");
+    this.name = "LlmNotConfiguredError";
+  }
+}
+
+export class LlmTimeoutError extends LlmError {
+  constructor(provider: string, timeoutMs: number) {
+    super(`${provider} did not respond within ${timeoutMs} ms`, provider, true);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+// The reply came back but didn't contain what was asked for
+export class LlmResponseError extends LlmError {
+  constructor(message: string, provider: string, public text: string, public issues: string[] = []) {
+    super(message, provider);
+    this.name = "LlmResponseError";
+  }
+}
+
+// HTTP status for a failed model call: 503 when no model is set up, 504 when it timed out, 502 otherwise
+export function llmErrorStatus(error: LlmError): number {
+  if (error instanceof LlmNotConfiguredError) return 503;
+  if (error instanceof LlmTimeoutError) return 504;
+  return 502;
+}
+
+/**
+ * Find the JSON value in a model reply. Models wrap it in ```json fences or
+ * add a sentence before or after it, so the first fenced block is preferred
+ * and otherwise everything from the first bracket to the last matching one
+ * is parsed. Undefined when nothing in the reply parses.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+
+  const start = candidate.search(/[{[]/);
+  if (start === -1) return undefined;
+  const end = candidate.lastIndexOf(candidate[start] === "{" ? "}" : "]");
+  if (end < start) return undefined;
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+export function createGeminiProvider(apiKey: string): LlmProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: "gemini",
+    modelFor: (tier) => GEMINI_MODELS[tier],
+    async generate(request, model, signal) {
+      try {
+        const generativeModel = genAI.getGenerativeModel({
+          model,
+          generationConfig: { temperature: request.temperature, maxOutputTokens: request.maxOutputTokens }
+        });
+        const result = await generativeModel.generateContent(request.prompt, { signal });
+        return result.response.text();
+      } catch (error) {
+        if (error instanceof GoogleGenerativeAIAbortError) throw error;
+        if (error instanceof GoogleGenerativeAIFetchError) {
+          // Rate limits and server errors are worth another try; bad requests and auth failures aren't
+          const retryable = error.status === undefined || error.status === 429 || error.status >= 500;
+          throw new LlmError(`Gemini request failed: ${error.message}`, "gemini", retryable);
+        }
+        // Network failures surface as plain errors from fetch
+        throw new LlmError(`Gemini request failed: ${error instanceof Error ? error.message : String(error)}`, "gemini", true);
+      }
+    }
+  };
+}
+
+/**
+ * Answers from canned responses, one list per task, without any network
+ * access. The same prompt always gets the same response, picked by its hash,
+ * so features can be developed and tested offline.
+ */
+export function createStubProvider(responses: Record<string, unknown[]>): LlmProvider {
+  return {
+    name: "stub",
+    modelFor: (tier) => `stub-${tier}`,
+    async generate(request) {
+      const candidates = responses[request.task];
+      if (!candidates || candidates.length === 0) {
+        throw new LlmError(`No stub responses for task "${request.task}"`, "stub");
+      }
+      const index = createHash("sha256").update(request.prompt).digest().readUInt32BE(0) % candidates.length;
+      const response = candidates[index];
+      return typeof response === "string" ? response : JSON.stringify(response, null, 2);
+    }
+  };
+}
+
+// Read stub responses from LLM_STUB_FILE or the bundled file
+export function loadStubResponses(file = process.env.LLM_STUB_FILE || DEFAULT_STUB_FILE): Record<string, unknown[]> {
+  return JSON.parse(readFileSync(file, "utf8")).tasks;
+}
+
+// Validation problems as "path: message" lines a model can act on
+function describeIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join(".") : "reply"}: ${issue.message}`);
+}
+
+function repairPrompt(prompt: string, reply: string, issues: string[]): string {
+  return [
+    prompt,
+    "Your previous reply was:",
+    reply,
+    `It did not match the required format:\n${issues.map(issue => `- ${issue}`).join("\n")}`,
+    "Reply again with only the corrected JSON."
+  ].join("\n\n");
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Wrap a provider with a per-attempt timeout, retries with exponential
+ * backoff for failures marked retryable, and an in-memory cache of replies
+ * keyed by provider, model, settings and prompt.
+ */
+export function createLlmClient(provider: LlmProvider, options: LlmClientOptions = {}): LlmClient {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+    cacheTtlMs = DEFAULT_CACHE_TTL_SECONDS * 1000,
+    cacheSize = DEFAULT_CACHE_SIZE
+  } = options;
+  const cache = new Map<string, { text: string; expiresAt: number }>();
+
+  async function attempt(request: LlmRequest, model: string): Promise<string> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    // Providers that ignore the signal are still cut off by the race
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new LlmTimeoutError(provider.name, timeoutMs));
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([provider.generate(request, model, controller.signal), timeout]);
+    } catch (error) {
+      throw controller.signal.aborted ? new LlmTimeoutError(provider.name, timeoutMs) : error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  const cacheKey = (request: LlmRequest, model: string) => createHash("sha256")
+    .update(JSON.stringify([provider.name, model, request.temperature, request.maxOutputTokens, request.prompt]))
+    .digest("hex");
+
+  async function generate(request: LlmRequest): Promise<LlmResponse> {
+    const model = provider.modelFor(request.tier ?? "fast");
+    const key = cacheKey(request, model);
+
+    const hit = cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) {
+      return { text: hit.text, provider: provider.name, model, cached: true };
+    }
+    cache.delete(key);
+
+    for (let retry = 0; ; retry++) {
+      try {
+        const text = await attempt(request, model);
+        if (cacheTtlMs > 0) {
+          cache.set(key, { text, expiresAt: Date.now() + cacheTtlMs });
+          // Maps iterate in insertion order, so the first key is the oldest entry
+          if (cache.size > cacheSize) cache.delete(cache.keys().next().value!);
+        }
+        return { text, provider: provider.name, model, cached: false };
+      } catch (error) {
+        const retryable = error instanceof LlmError && error.retryable;
+        if (!retryable || retry >= maxRetries) throw error;
+        console.warn(`${provider.name} ${request.task} request failed (${(error as Error).message}), retrying`);
+        await delay(retryDelayMs * 2 ** retry);
+      }
+    }
+  }
+
+  // Validate a reply, dropping it from the cache when it doesn't match so it isn't served again
+  function parse<T>(request: LlmRequest, response: LlmResponse, schema: ZodType<T, ZodTypeDef, unknown>): { data?: T; issues: string[] } {
+    const value = extractJson(response.text);
+    const result = value === undefined ? undefined : schema.safeParse(value);
+    if (result?.success) return { data: result.data, issues: [] };
+
+    cache.delete(cacheKey(request, response.model));
+    return { issues: result ? describeIssues(result.error) : ["reply: contained no JSON"] };
+  }
+
+  return {
+    provider: provider.name,
+    generate,
+    async generateJson(request) {
+      const response = await generate(request);
+      const value = extractJson(response.text);
+      if (value === undefined) {
+        throw new LlmResponseError(`${provider.name} reply to ${request.task} contained no JSON`, provider.name, response.text);
+      }
+      return value;
+    },
+    async generateStructured(request, schema) {
+      const first = await generate(request);
+      const parsed = parse(request, first, schema);
+      if (parsed.data !== undefined) return parsed.data;
+
+      // One repair pass: show the model its reply and what was wrong with it
+      const repairRequest = { ...request, prompt: repairPrompt(request.prompt, first.text, parsed.issues) };
+      const second = await generate(repairRequest);
+      const repaired = parse(repairRequest, second, schema);
+      if (repaired.data !== undefined) return repaired.data;
+
+      throw new LlmResponseError(
+        `${provider.name} reply to ${request.task} did not match the expected format`,
+        provider.name,
+        second.text,
+        repaired.issues
+      );
+    }
+  };
+}
+
+// A whole number of at least 0 from the environment, or the fallback when it is unset or isn't one
+function envCount(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name]?.trim();
+  if (!value) return fallback;
+  const count = Number(value);
+  if (Number.isInteger(count) && count >= 0) return count;
+  console.warn(`Warning: ${name} must be a whole number of 0 or more, using ${fallback} instead of "${value}"`);
+  return fallback;
+}
+
+// Timeout, retry and cache settings from LLM_TIMEOUT_MS, LLM_MAX_RETRIES and LLM_CACHE_TTL_SECONDS
+export function llmClientOptionsFromEnv(env = process.env): LlmClientOptions {
+  return {
+    // A timeout of 0 would fail every call, so it falls back like any other invalid value
+    timeoutMs: envCount(env, "LLM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    maxRetries: envCount(env, "LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES),
+    cacheTtlMs: envCount(env, "LLM_CACHE_TTL_SECONDS", DEFAULT_CACHE_TTL_SECONDS) * 1000
+  };
+}
+
+let defaultClient: LlmClient | null = null;
+
+/**
+ * Client for the provider named by LLM_PROVIDER (`gemini` or `stub`). Without
+ * it, Gemini is used when GEMINI_API_KEY is set and the stub otherwise, except
+ * in production where a missing key is an error rather than canned answers.
+ */
+export function getLlmClient(): LlmClient {
+  if (!defaultClient) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    const name = process.env.LLM_PROVIDER
+      || (apiKey || process.env.NODE_ENV === "production" ? "gemini" : "stub");
+
+    let provider: LlmProvider;
+    if (name === "stub") {
+      provider = createStubProvider(loadStubResponses());
+    } else if (name === "gemini") {
+      if (!apiKey) {
+        throw new LlmNotConfiguredError("GEMINI_API_KEY is not configured");
+      }
+      provider = createGeminiProvider(apiKey);
+    } else {
+      throw new LlmNotConfiguredError(`Unknown LLM_PROVIDER "${name}"`);
+    }
+
+    defaultClient = createLlmClient(provider, llmClientOptionsFromEnv());
+  }
+  return defaultClient;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { Merchant } from "@shared/schema";
+import { createMerchantMatcher, normalizeDescriptor } from "./merchantCatalog";
+
+describe("normalizeDescriptor", () => {
+  it.each([
+    ["SQ *LOCAL COFFEE 1234", "local coffee"],
+    ["TST* GREEN BOWL #42", "green bowl"],
+    ["POS PURCHASE WHOLE FOODS MKT", "whole foods mkt"],
+    ["DEBIT CARD PURCHASE AUTHORIZED ON 03/12 TRADER JOE'S", "trader joes"],
+    ["RECURRING PAYMENT NETFLIX.COM", "netflix"],
+    ["CHECKCARD 0312 SHELL OIL 5742", "shell oil"],
+    ["POS DEBIT SAFEWAY STORE 1450", "safeway"],
+  ])("strips the boilerplate from %s", (descriptor, expected) => {
+    expect(normalizeDescriptor(descriptor)).toBe(expected);
+  });
+
+  it.each([
+    ["PAYMENTUS CORP", "paymentus corp"],
+    ["Card Factory", "card factory"],
+    ["Recurring Records", "recurring records"],
+    ["POSTMATES ORDER", "postmates order"],
+    ["Debitoor Invoicing", "debitoor invoicing"],
+  ])("keeps merchant names that start like a keyword: %s", (descriptor, expected) => {
+    expect(normalizeDescriptor(descriptor)).toBe(expected);
+  });
+});
+
+let nextId = 1;
+const merchant = (name: string, aliases: string[], category: string): Merchant => ({
+  id: nextId++,
+  name,
+  normalizedName: normalizeDescriptor(name),
+  aliases,
+  category,
+  ecoScore: 50,
+  evidence: [],
+  hasAlternatives: false,
+  updatedAt: new Date("2024-01-01")
+});
+
+const catalog = [
+  merchant("Target", ["target", "target stores"], "Shopping"),
+  merchant("Uber", ["uber", "uber trip", "ubr"], "Transportation"),
+  merchant("Uber Eats", ["uber eats", "ubereats"], "Dining"),
+  merchant("Local Coffee", ["local coffee"], "Dining"),
+  merchant("Amazon", ["amazon", "amzn", "amzn mktp"], "Shopping"),
+  merchant("Starbucks", ["starbucks"], "Dining"),
+  merchant("Lyft", ["lyft"], "Transportation"),
+];
+const matcher = createMerchantMatcher(catalog);
+const match = (descriptor: string) => {
+  const found = matcher.match(descriptor);
+  return found && { name: found.merchant.name, method: found.method, matchedName: found.matchedName, confidence: found.confidence };
+};
+
+describe("createMerchantMatcher", () => {
+  it("matches a descriptor that normalizes to a name exactly", () => {
+    expect(match("SQ *LOCAL COFFEE 1234")).toEqual({ name: "Local Coffee", method: "exact", matchedName: "local coffee", confidence: 1 });
+    expect(match("AMZN")).toEqual({ name: "Amazon", method: "exact", matchedName: "amzn", confidence: 1 });
+  });
+
+  it("matches names and aliases found as whole words with confidence 0.9", () => {
+    expect(match("AMZN MKTP US SEATTLE WA")).toEqual({ name: "Amazon", method: "alias", matchedName: "amzn mktp", confidence: 0.9 });
+    expect(match("TARGET STORES T-1234 SEATTLE")).toEqual({ name: "Target", method: "alias", matchedName: "target stores", confidence: 0.9 });
+    expect(match("UBR* PENDING")).toMatchObject({ name: "Uber", method: "alias", matchedName: "ubr" });
+  });
+
+  it("prefers the longest name, so Uber Eats isn't a ride", () => {
+    expect(match("UBER EATS")).toMatchObject({ name: "Uber Eats", method: "exact" });
+    expect(match("UBER EATS HELP.UBER.COM")).toMatchObject({ name: "Uber Eats", method: "alias" });
+    expect(match("UBER TRIP HELP.UBER.COM")).toMatchObject({ name: "Uber", method: "alias" });
+  });
+
+  it("doesn't match a name inside a longer word", () => {
+    expect(match("Targeted Ads LLC")).toBeUndefined();
+    expect(match("SUPERUBER LTD")).toBeUndefined();
+  });
+
+  it("absorbs typos and spacing with a scaled-down confidence", () => {
+    // One edit in nine letters: 0.89 similar, times 0.85
+    expect(match("STARBUKS #1234")).toEqual({ name: "Starbucks", method: "fuzzy", matchedName: "starbucks", confidence: 0.76 });
+    expect(match("STAR BUCKS")).toEqual({ name: "Starbucks", method: "fuzzy", matchedName: "starbucks", confidence: 0.85 });
+    expect(match("STARBX")).toBeUndefined();
+  });
+
+  it("doesn't fuzzy match names shorter than five letters", () => {
+    // Spaced out the same way as "STAR BUCKS", but Lyft is too short to be guessed at
+    expect(match("LY FT")).toBeUndefined();
+    expect(match("LYFT *RIDE")).toMatchObject({ name: "Lyft", method: "alias" });
+  });
+
+  it("matches nothing in an empty descriptor", () => {
+    expect(match("SQ *1234")).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import { merchantInputSchema, type Merchant, type MerchantInput } from "@shared/schema";
+import { storage } from "../storage";
+import { log } from "../vite";
+
+const DEFAULT_CATALOG_FILE = path.resolve(process.cwd(), "data", "merchants.json");
+
+// Payment processor prefixes that come before the real merchant, e.g. "SQ *" for Square
+const PROCESSOR_PREFIX = /^(?:sq|tst|sp|pp|paypal|py|clp|lsp|fs|in|bt|ic|pos|ach)\s?\*\s*/;
+// Card network boilerplate some banks put in front of the descriptor. Each keyword must be a
+// whole word, and "card" or "recurring" only count before "purchase" or the like, so merchants
+// such as "Paymentus" or "Card Factory" keep their names
+const BOILERPLATE_PREFIX = /^(?:(?:(?:pos|debit card|checkcard|card|recurring)\s+)*(?:purchase|debit|payment|pmt)\b|(?:pos|checkcard)\b)?\s*(?:authorized on \d{1,2}\/\d{1,2}\s*)?/;
+
+// Fuzzy matches must be at least this similar (1 - edit distance / length)
+const FUZZY_THRESHOLD = 0.85;
+// Shorter names are too easy to hit by accident, so they only match exactly or as whole words
+const FUZZY_MIN_LENGTH = 5;
+
+/**
+ * Reduce a raw statement descriptor to the words that name the merchant:
+ * lower case, processor prefixes ("SQ *", "TST*") and boilerplate removed,
+ * store and reference numbers dropped, punctuation collapsed to spaces.
+ *
+ * normalizeDescriptor("SQ *LOCAL COFFEE 1234") === "local coffee"
+ */
+export function normalizeDescriptor(descriptor: string): string {
+  let text = descriptor.toLowerCase().trim();
+  text = text.replace(BOILERPLATE_PREFIX, "");
+  text = text.replace(PROCESSOR_PREFIX, "");
+
+  return text
+    .replace(/\.(?:com|net|org|co)\b/g, " ")
+    .replace(/'/g, "")
+    // Store numbers, reference codes and anything else carrying digits
+    .replace(/#\s*\S+/g, " ")
+    .replace(/\bstore\s+\d+\b/g, " ")
+    .replace(/\S*\d\S*/g, " ")
+    .replace(/[^a-z&]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 for identical strings, falling towards 0 as more edits are needed
+export function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+export type MerchantMatchMethod = "exact" | "alias" | "fuzzy";
+
+export interface MerchantMatch {
+  merchant: Merchant;
+  method: MerchantMatchMethod;
+  // Name or alias that matched, in normalized form
+  matchedName: string;
+  confidence: number;
+}
+
+export interface MerchantMatcher {
+  match(descriptor: string): MerchantMatch | undefined;
+}
+
+interface CatalogName {
+  merchant: Merchant;
+  name: string;
+  pattern: RegExp;
+}
+
+/**
+ * Match descriptors against a merchant catalog. An exact match on the
+ * normalized name or an alias wins; otherwise the longest name found as whole
+ * words, so "UBER EATS" is Uber Eats rather than Uber and "TARGETED ADS" is
+ * not Target. Failing both, the closest name within FUZZY_THRESHOLD of any
+ * run of words in the descriptor is used, which absorbs typos and spacing
+ * like "STARBUKS" or "WHOLEFOODS".
+ */
+export function createMerchantMatcher(catalog: Merchant[]): MerchantMatcher {
+  const names: CatalogName[] = catalog.flatMap(merchant =>
+    Array.from(new Set([merchant.normalizedName, ...merchant.aliases.map(normalizeDescriptor)]))
+      .filter(Boolean)
+      .map(name => ({ merchant, name, pattern: new RegExp(`(?:^|\\s)${name}(?:\\s|$)`) }))
+  );
+  // Longest first so the most specific name wins
+  names.sort((a, b) => b.name.length - a.name.length);
+
+  return {
+    match(descriptor) {
+      const normalized = normalizeDescriptor(descriptor);
+      if (!normalized) return undefined;
+
+      const exact = names.find(entry => entry.name === normalized);
+      if (exact) {
+        return { merchant: exact.merchant, method: "exact", matchedName: exact.name, confidence: 1 };
+      }
+
+      const contained = names.find(entry => entry.pattern.test(normalized));
+      if (contained) {
+        return { merchant: contained.merchant, method: "alias", matchedName: contained.name, confidence: 0.9 };
+      }
+
+      const words = normalized.split(" ");
+      let best: { entry: CatalogName; score: number } | undefined;
+      for (const entry of names) {
+        const target = entry.name.replace(/ /g, "");
+        if (target.length < FUZZY_MIN_LENGTH) continue;
+
+        // Compare against every run of words near the name's own length, spaces ignored
+        const size = entry.name.split(" ").length;
+        for (let length = Math.max(1, size - 1); length <= size + 1; length++) {
+          for (let start = 0; start + length <= words.length; start++) {
+            const score = similarity(words.slice(start, start + length).join(""), target);
+            if (score >= FUZZY_THRESHOLD && (!best || score > best.score)) {
+              best = { entry, score };
+            }
+          }
+        }
+      }
+
+      if (best) {
+        return {
+          merchant: best.entry.merchant,
+          method: "fuzzy",
+          matchedName: best.entry.name,
+          confidence: Math.round(best.score * 0.85 * 100) / 100
+        };
+      }
+      return undefined;
+    }
+  };
+}
+
+// Matcher over the stored catalog as it is right now
+export async function loadMerchantMatcher(): Promise<MerchantMatcher> {
+  return createMerchantMatcher(await storage.getMerchants());
+}
+
+// Read the bundled catalog, or the one named by MERCHANT_CATALOG_FILE
+export async function loadMerchantCatalogFile(file = process.env.MERCHANT_CATALOG_FILE || DEFAULT_CATALOG_FILE): Promise<MerchantInput[]> {
+  const document = JSON.parse(await readFile(file, "utf8"));
+  return z.array(merchantInputSchema).parse(document.merchants);
+}
+
+// Load the bundled catalog on first start; after that it is maintained through the admin API
+export async function seedMerchants(): Promise<void> {
+  try {
+    if ((await storage.getMerchants()).length > 0) return;
+    const catalog = await loadMerchantCatalogFile();
+    for (const merchant of catalog) {
+      await storage.createMerchant({ ...merchant, normalizedName: normalizeDescriptor(merchant.name) });
+    }
+    log(`Seeded ${catalog.length} merchants`, "merchants");
+  } catch (error) {
+    console.warn("Warning: could not seed merchant catalog:", error);
+  }
+}
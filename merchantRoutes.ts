@@ -0,0 +1,128 @@
+import { Request, Response, Router } from "express";
+import { ZodError } from "zod";
+import { idParamSchema, merchantInputSchema } from "@shared/schema";
+import { createMerchantMatcher, normalizeDescriptor } from "./merchantCatalog";
+import { storage } from "../storage";
+import { isAdmin } from "../auth";
+
+const merchantRouter = Router();
+
+// The catalog is shared by every user, so only admins may change it
+merchantRouter.use(isAdmin);
+
+// A malformed :id throws a ZodError, answered with a 400
+const parseId = (req: Request) => idParamSchema.parse(req.params.id);
+
+// Another merchant already using this normalized name, if any
+async function findConflict(normalizedName: string, id?: number) {
+  const existing = await storage.getMerchantByNormalizedName(normalizedName);
+  return existing && existing.id !== id ? existing : undefined;
+}
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ message: `Validation error: ${error.message}` });
+  }
+  console.error(`Failed to ${action}:`, error);
+  res.status(500).json({ message: `Failed to ${action}` });
+}
+
+// List the catalog, optionally filtered by ?q= on name and aliases
+merchantRouter.get("/", async (req: Request, res: Response) => {
+  try {
+    const query = (req.query.q as string | undefined)?.toLowerCase();
+    const catalog = await storage.getMerchants();
+    const results = query
+      ? catalog.filter(merchant =>
+          [merchant.name, ...merchant.aliases].some(name => name.toLowerCase().includes(query)))
+      : catalog;
+
+    res.status(200).json(results.sort((a, b) => a.name.localeCompare(b.name)));
+  } catch (error) {
+    handleError(res, error, "fetch merchants");
+  }
+});
+
+// Show how a raw statement descriptor would be matched, e.g. ?descriptor=SQ *LOCAL COFFEE 1234
+merchantRouter.get("/match", async (req: Request, res: Response) => {
+  try {
+    const descriptor = req.query.descriptor as string | undefined;
+    if (!descriptor) {
+      return res.status(400).json({ message: "descriptor is required" });
+    }
+
+    const match = createMerchantMatcher(await storage.getMerchants()).match(descriptor);
+    res.status(200).json({ descriptor, normalized: normalizeDescriptor(descriptor), match: match ?? null });
+  } catch (error) {
+    handleError(res, error, "match merchant");
+  }
+});
+
+merchantRouter.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const merchant = await storage.getMerchant(parseId(req));
+    if (!merchant) {
+      return res.status(404).json({ message: "Merchant not found" });
+    }
+    res.status(200).json(merchant);
+  } catch (error) {
+    handleError(res, error, "fetch merchant");
+  }
+});
+
+merchantRouter.post("/", async (req: Request, res: Response) => {
+  try {
+    const input = merchantInputSchema.parse(req.body);
+    const normalizedName = normalizeDescriptor(input.name);
+
+    const conflict = await findConflict(normalizedName);
+    if (conflict) {
+      return res.status(409).json({ message: `Merchant already exists as "${conflict.name}"`, id: conflict.id });
+    }
+
+    const merchant = await storage.createMerchant({ ...input, normalizedName });
+    res.status(201).json(merchant);
+  } catch (error) {
+    handleError(res, error, "create merchant");
+  }
+});
+
+merchantRouter.patch("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req);
+    const updates = merchantInputSchema.partial().parse(req.body);
+
+    if (!(await storage.getMerchant(id))) {
+      return res.status(404).json({ message: "Merchant not found" });
+    }
+
+    // Renaming changes the normalized name, which must stay unique
+    const normalizedName = updates.name ? normalizeDescriptor(updates.name) : undefined;
+    if (normalizedName) {
+      const conflict = await findConflict(normalizedName, id);
+      if (conflict) {
+        return res.status(409).json({ message: `Merchant already exists as "${conflict.name}"`, id: conflict.id });
+      }
+    }
+
+    const merchant = await storage.updateMerchant(id, normalizedName ? { ...updates, normalizedName } : updates);
+    res.status(200).json(merchant);
+  } catch (error) {
+    handleError(res, error, "update merchant");
+  }
+});
+
+// Transactions matched to a deleted merchant keep their score and lose the link
+merchantRouter.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    const deleted = await storage.deleteMerchant(parseId(req));
+    if (!deleted) {
+      return res.status(404).json({ message: "Merchant not found" });
+    }
+    res.status(200).json({ success: true });
+  } catch (error) {
+    handleError(res, error, "delete merchant");
+  }
+});
+
+export default merchantRouter;
@@ -0,0 +1,126 @@
+CREATE TABLE "cashback_rewards" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"month" text NOT NULL,
+	"year" integer NOT NULL,
+	"eco_score" integer NOT NULL,
+	"amount" real NOT NULL,
+	"redeemed" boolean DEFAULT false NOT NULL,
+	"invested" boolean DEFAULT false NOT NULL,
+	"date" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "category_breakdowns" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"category" text NOT NULL,
+	"amount" real NOT NULL,
+	"eco_score" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "green_investments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"description" text NOT NULL,
+	"min_investment" real NOT NULL,
+	"projected_return" real NOT NULL,
+	"risk_level" text NOT NULL,
+	"esg_rating" text NOT NULL,
+	"company" text NOT NULL,
+	"sector" text NOT NULL,
+	"logo_url" text,
+	"performance_history" json
+);
+--> statement-breakpoint
+CREATE TABLE "investment_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"risk_level" text NOT NULL,
+	"initial_investment" real DEFAULT 0 NOT NULL,
+	"current_value" real DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "investment_profiles_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "investments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"profile_id" integer,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"amount" real NOT NULL,
+	"purchase_value" real NOT NULL,
+	"current_value" real NOT NULL,
+	"purchase_date" timestamp DEFAULT now() NOT NULL,
+	"last_updated" timestamp DEFAULT now() NOT NULL,
+	"esg_rating" text NOT NULL,
+	"description" text NOT NULL,
+	"performance_data" json
+);
+--> statement-breakpoint
+CREATE TABLE "recommendations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"icon" text NOT NULL,
+	"potential_impact" text NOT NULL,
+	"category" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "risk_assessments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"age_group" text NOT NULL,
+	"investment_timeframe" text NOT NULL,
+	"risk_tolerance" integer NOT NULL,
+	"financial_goals" text NOT NULL,
+	"existing_investments" boolean NOT NULL,
+	"income_level" text NOT NULL,
+	"savings_percentage" integer NOT NULL,
+	"environmental_priority" integer NOT NULL,
+	"recommended_risk_level" text NOT NULL,
+	"date" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "risk_assessments_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "sustainability_scores" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"overall_score" integer NOT NULL,
+	"carbon_footprint" real NOT NULL,
+	"sustainable_purchases" integer NOT NULL,
+	"water_usage" real NOT NULL,
+	"date" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" timestamp NOT NULL,
+	"merchant" text NOT NULL,
+	"category" text NOT NULL,
+	"amount" real NOT NULL,
+	"eco_score" integer NOT NULL,
+	"has_alternatives" boolean DEFAULT false NOT NULL,
+	"user_id" integer
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "cashback_rewards" ADD CONSTRAINT "cashback_rewards_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "category_breakdowns" ADD CONSTRAINT "category_breakdowns_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "investment_profiles" ADD CONSTRAINT "investment_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "investments" ADD CONSTRAINT "investments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "investments" ADD CONSTRAINT "investments_profile_id_investment_profiles_id_fk" FOREIGN KEY ("profile_id") REFERENCES "public"."investment_profiles"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD CONSTRAINT "recommendations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "risk_assessments" ADD CONSTRAINT "risk_assessments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sustainability_scores" ADD CONSTRAINT "sustainability_scores_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
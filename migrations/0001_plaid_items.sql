@@ -0,0 +1,12 @@
+CREATE TABLE "plaid_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"item_id" text NOT NULL,
+	"access_token" text NOT NULL,
+	"institution_id" text,
+	"institution_name" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "plaid_items_item_id_unique" UNIQUE("item_id")
+);
+--> statement-breakpoint
+ALTER TABLE "plaid_items" ADD CONSTRAINT "plaid_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "plaid_items" ADD COLUMN "cursor" text;--> statement-breakpoint
+ALTER TABLE "plaid_items" ADD COLUMN "last_synced_at" timestamp;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "external_id" text;
\ No newline at end of file
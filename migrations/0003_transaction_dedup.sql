@@ -0,0 +1,4 @@
+ALTER TABLE "transactions" ADD COLUMN "source" text DEFAULT 'csv' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "fingerprint" text;--> statement-breakpoint
+CREATE UNIQUE INDEX "transactions_user_source_external_id_idx" ON "transactions" USING btree ("user_id","source","external_id");--> statement-breakpoint
+CREATE INDEX "transactions_user_fingerprint_idx" ON "transactions" USING btree ("user_id","fingerprint");
\ No newline at end of file
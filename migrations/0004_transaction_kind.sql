@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "kind" text DEFAULT 'purchase' NOT NULL;
\ No newline at end of file
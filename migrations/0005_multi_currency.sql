@@ -0,0 +1,13 @@
+CREATE TABLE "exchange_rates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"date" date NOT NULL,
+	"currency" text NOT NULL,
+	"rate" real NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "base_amount" real;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "base_currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "exchange_rates_date_currency_idx" ON "exchange_rates" USING btree ("date","currency");--> statement-breakpoint
+-- Existing rows predate currencies and were all recorded in US dollars
+UPDATE "transactions" SET "base_amount" = "amount";
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "transactions" ADD COLUMN "co2e_kg" real;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "water_liters" real;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "methodology_version" text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "merchants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"normalized_name" text NOT NULL,
+	"aliases" json DEFAULT '[]'::json NOT NULL,
+	"category" text NOT NULL,
+	"eco_score" integer NOT NULL,
+	"evidence" json DEFAULT '[]'::json NOT NULL,
+	"has_alternatives" boolean DEFAULT false NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "merchants_normalized_name_unique" UNIQUE("normalized_name")
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "merchant_id" integer;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_merchant_id_merchants_id_fk" FOREIGN KEY ("merchant_id") REFERENCES "public"."merchants"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
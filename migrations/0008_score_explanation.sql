@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "score_explanation" json;
\ No newline at end of file
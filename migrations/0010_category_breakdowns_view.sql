@@ -0,0 +1,5 @@
+ALTER TABLE "category_breakdowns" ADD COLUMN "transaction_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "category_breakdowns" ADD COLUMN "co2e_kg" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Breakdowns used to accumulate one row per upload; they are rebuilt from transactions on the next change or read
+DELETE FROM "category_breakdowns";--> statement-breakpoint
+CREATE UNIQUE INDEX "category_breakdowns_user_category_idx" ON "category_breakdowns" USING btree ("user_id","category");
\ No newline at end of file
@@ -0,0 +1,9 @@
+-- Nothing generated recommendations before the rules engine, so any rows were added by hand and lack a rule
+DELETE FROM "recommendations";--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "rule_id" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "dedupe_key" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "co2e_savings_kg" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "spend_savings" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "recommendations_user_dedupe_key_idx" ON "recommendations" USING btree ("user_id","dedupe_key");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "recommendations" ADD COLUMN "status" text DEFAULT 'new' NOT NULL;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "snoozed_until" timestamp;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "status_changed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "baseline" json;--> statement-breakpoint
+ALTER TABLE "recommendations" ADD COLUMN "follow_through" json;
\ No newline at end of file
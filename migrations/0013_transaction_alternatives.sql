@@ -0,0 +1 @@
+ALTER TABLE "transactions" ADD COLUMN "suggested_alternatives" json;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "cashback_rewards" ADD COLUMN "policy_version" text;--> statement-breakpoint
+ALTER TABLE "cashback_rewards" ADD COLUMN "calculation" json;
\ No newline at end of file
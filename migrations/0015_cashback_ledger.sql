@@ -0,0 +1,22 @@
+CREATE TABLE "ledger_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"debit_account" text NOT NULL,
+	"credit_account" text NOT NULL,
+	"amount" real NOT NULL,
+	"cashback_reward_id" integer NOT NULL,
+	"investment_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_cashback_reward_id_cashback_rewards_id_fk" FOREIGN KEY ("cashback_reward_id") REFERENCES "public"."cashback_rewards"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_investment_id_investments_id_fk" FOREIGN KEY ("investment_id") REFERENCES "public"."investments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ledger_entries_user_idx" ON "ledger_entries" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "ledger_entries_reward_idx" ON "ledger_entries" USING btree ("cashback_reward_id");--> statement-breakpoint
+-- Open the ledger with the rewards earned so far, and pay out the ones already redeemed
+INSERT INTO "ledger_entries" ("user_id", "kind", "debit_account", "credit_account", "amount", "cashback_reward_id", "created_at")
+SELECT "user_id", 'credit', 'cashback', 'rewards', "amount", "id", "date" FROM "cashback_rewards" WHERE "user_id" IS NOT NULL AND "amount" > 0;--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "kind", "debit_account", "credit_account", "amount", "cashback_reward_id", "created_at")
+SELECT "user_id", 'redemption', 'payouts', 'cashback', "amount", "id", "date" FROM "cashback_rewards" WHERE "user_id" IS NOT NULL AND "amount" > 0 AND "redeemed";
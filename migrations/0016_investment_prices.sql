@@ -0,0 +1,14 @@
+CREATE TABLE "investment_prices" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"symbol" text NOT NULL,
+	"date" date NOT NULL,
+	"price" real NOT NULL,
+	"currency" text DEFAULT 'USD' NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "green_investments" ADD COLUMN "symbol" text;--> statement-breakpoint
+ALTER TABLE "investments" ADD COLUMN "green_investment_id" integer;--> statement-breakpoint
+ALTER TABLE "investments" ADD COLUMN "units" real;--> statement-breakpoint
+CREATE UNIQUE INDEX "investment_prices_symbol_date_idx" ON "investment_prices" USING btree ("symbol","date");--> statement-breakpoint
+ALTER TABLE "investments" ADD CONSTRAINT "investments_green_investment_id_green_investments_id_fk" FOREIGN KEY ("green_investment_id") REFERENCES "public"."green_investments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "green_investments" ADD CONSTRAINT "green_investments_symbol_unique" UNIQUE("symbol");
\ No newline at end of file
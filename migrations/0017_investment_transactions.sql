@@ -0,0 +1,21 @@
+CREATE TABLE "investment_transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"investment_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"units" real,
+	"price" real,
+	"price_currency" text,
+	"amount" real NOT NULL,
+	"cost_basis" real,
+	"realized_gain" real,
+	"date" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "investment_transactions" ADD CONSTRAINT "investment_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "investment_transactions" ADD CONSTRAINT "investment_transactions_investment_id_investments_id_fk" FOREIGN KEY ("investment_id") REFERENCES "public"."investments"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "investment_transactions_investment_idx" ON "investment_transactions" USING btree ("investment_id");--> statement-breakpoint
+CREATE INDEX "investment_transactions_user_idx" ON "investment_transactions" USING btree ("user_id");--> statement-breakpoint
+-- Open each existing holding's log with the purchase it was created by
+INSERT INTO "investment_transactions" ("user_id", "investment_id", "kind", "units", "amount", "date")
+SELECT "user_id", "id", 'buy', "units", "purchase_value", "purchase_date" FROM "investments" WHERE "user_id" IS NOT NULL;
@@ -0,0 +1,6 @@
+ALTER TABLE "risk_assessments" DROP CONSTRAINT "risk_assessments_user_id_unique";--> statement-breakpoint
+ALTER TABLE "risk_assessments" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "risk_assessments" ADD COLUMN "model_version" text;--> statement-breakpoint
+ALTER TABLE "risk_assessments" ADD COLUMN "risk_score" real;--> statement-breakpoint
+ALTER TABLE "risk_assessments" ADD COLUMN "contributions" json;--> statement-breakpoint
+CREATE UNIQUE INDEX "risk_assessments_user_version_idx" ON "risk_assessments" USING btree ("user_id","version");
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- Drop rewards calculated twice for the same month, keeping the first. Only duplicates
+-- nothing was spent from are removed; any others must be resolved by hand first.
+DELETE FROM "ledger_entries" WHERE "kind" = 'credit' AND "cashback_reward_id" IN (
+	SELECT "id" FROM "cashback_rewards" WHERE "redeemed" = false AND "invested" = false AND "id" NOT IN (
+		SELECT "first"."id" FROM (SELECT min("id") AS "id" FROM "cashback_rewards" GROUP BY "user_id", "month", "year") AS "first"
+	)
+) AND "cashback_reward_id" NOT IN (
+	SELECT "cashback_reward_id" FROM "ledger_entries" WHERE "kind" <> 'credit'
+);--> statement-breakpoint
+DELETE FROM "cashback_rewards" WHERE "id" NOT IN (
+	SELECT "first"."id" FROM (SELECT min("id") AS "id" FROM "cashback_rewards" GROUP BY "user_id", "month", "year") AS "first"
+) AND "id" NOT IN (SELECT "cashback_reward_id" FROM "ledger_entries");--> statement-breakpoint
+CREATE UNIQUE INDEX "cashback_rewards_user_month_idx" ON "cashback_rewards" USING btree ("user_id","month","year");
@@ -0,0 +1,5 @@
+ALTER TABLE "cashback_rewards" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+-- Existing amounts were worked out in each owner's current base currency
+UPDATE "cashback_rewards" SET "currency" = "users"."base_currency" FROM "users" WHERE "users"."id" = "cashback_rewards"."user_id";--> statement-breakpoint
+UPDATE "ledger_entries" SET "currency" = "users"."base_currency" FROM "users" WHERE "users"."id" = "ledger_entries"."user_id";
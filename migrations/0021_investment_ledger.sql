@@ -0,0 +1,19 @@
+ALTER TABLE "ledger_entries" ALTER COLUMN "cashback_reward_id" DROP NOT NULL;--> statement-breakpoint
+-- Pay out the sales and dividends recorded so far. A sale's cost leaves the investments
+-- account; a gain comes out of returns and a loss is written off to them.
+INSERT INTO "ledger_entries" ("user_id", "kind", "debit_account", "credit_account", "amount", "currency", "investment_id", "created_at")
+SELECT t."user_id", 'sale', 'payouts', 'investments', LEAST(t."amount", t."cost_basis"), u."base_currency", t."investment_id", t."date"
+FROM "investment_transactions" t JOIN "users" u ON u."id" = t."user_id"
+WHERE t."kind" = 'sell' AND LEAST(t."amount", t."cost_basis") > 0;--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "kind", "debit_account", "credit_account", "amount", "currency", "investment_id", "created_at")
+SELECT t."user_id", 'sale', 'payouts', 'returns', t."realized_gain", u."base_currency", t."investment_id", t."date"
+FROM "investment_transactions" t JOIN "users" u ON u."id" = t."user_id"
+WHERE t."kind" = 'sell' AND t."realized_gain" > 0;--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "kind", "debit_account", "credit_account", "amount", "currency", "investment_id", "created_at")
+SELECT t."user_id", 'sale', 'returns', 'investments', -t."realized_gain", u."base_currency", t."investment_id", t."date"
+FROM "investment_transactions" t JOIN "users" u ON u."id" = t."user_id"
+WHERE t."kind" = 'sell' AND t."realized_gain" < 0;--> statement-breakpoint
+INSERT INTO "ledger_entries" ("user_id", "kind", "debit_account", "credit_account", "amount", "currency", "investment_id", "created_at")
+SELECT t."user_id", 'dividend', 'payouts', 'returns', t."amount", u."base_currency", t."investment_id", t."date"
+FROM "investment_transactions" t JOIN "users" u ON u."id" = t."user_id"
+WHERE t."kind" = 'dividend' AND t."amount" > 0;
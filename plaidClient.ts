@@ -1,8 +1,11 @@
 import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
+import type { PlaidItem } from '@shared/schema';
+import { decryptToken } from './tokenCipher';
 
-// Configure Plaid client based on environment
+// Configure Plaid client based on environment; PLAID_BASE_URL points it at a local mock server
 const configuration = new Configuration({
-  basePath: PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments || 'sandbox'],
+  basePath: process.env.PLAID_BASE_URL
+    || PlaidEnvironments[process.env.PLAID_ENV as keyof typeof PlaidEnvironments || 'sandbox'],
   baseOptions: {
     headers: {
       'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID,
@@ -13,14 +16,5 @@ const configuration = new Configuration({
 
 export const plaidClient = new PlaidApi(configuration);
 
-// Store the current access token and item ID
-export let accessToken: string | null = null;
-export let itemId: string | null = null;
-
-export const setAccessToken = (token: string) => {
-  accessToken = token;
-};
-
-export const setItemId = (id: string) => {
-  itemId = id;
-};
\ No newline at end of file
+// Access tokens are only ever held in memory for the duration of a request
+export const getAccessToken = (item: PlaidItem) => decryptToken(item.accessToken);
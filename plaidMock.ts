@@ -0,0 +1,169 @@
+import express, { type Request, type Response } from 'express';
+import type { AddressInfo } from 'net';
+import type { Transaction as PlaidTransaction } from 'plaid';
+
+type SyncChange =
+  | { type: 'added' | 'modified'; transaction: PlaidTransaction }
+  | { type: 'removed'; transaction_id: string };
+
+interface MockItem {
+  itemId: string;
+  accessToken: string;
+  // Every change to the item's transactions, oldest first; a sync cursor is an index into it
+  changes: SyncChange[];
+  // Error codes the next transactions/sync calls fail with, in order
+  failures: string[];
+}
+
+export interface MockPlaidServer {
+  app: express.Express;
+  // Link an item; exchanging `publicToken` returns its access token
+  addItem(publicToken: string, itemId: string, accessToken: string): void;
+  addTransactions(accessToken: string, ...transactions: PlaidTransaction[]): void;
+  modifyTransactions(accessToken: string, ...transactions: PlaidTransaction[]): void;
+  removeTransactions(accessToken: string, ...transactionIds: string[]): void;
+  // Make the item's next transactions/sync call fail with a Plaid error code
+  failNextSync(accessToken: string, errorCode: string): void;
+  listen(): Promise<{ url: string; close(): Promise<void> }>;
+}
+
+// A posted card purchase with the fields Plaid always sends
+export function mockPlaidTransaction(overrides: Partial<PlaidTransaction> & { transaction_id: string }): PlaidTransaction {
+  return {
+    account_id: 'mock-account',
+    amount: 10,
+    iso_currency_code: 'USD',
+    unofficial_currency_code: null,
+    category: ['Shops'],
+    category_id: null,
+    date: '2024-03-01',
+    name: 'Mock Merchant',
+    merchant_name: 'Mock Merchant',
+    pending: false,
+    pending_transaction_id: null,
+    account_owner: null,
+    authorized_date: null,
+    authorized_datetime: null,
+    datetime: null,
+    location: {} as PlaidTransaction['location'],
+    payment_meta: {} as PlaidTransaction['payment_meta'],
+    payment_channel: 'in store' as PlaidTransaction['payment_channel'],
+    transaction_code: null,
+    ...overrides
+  } as PlaidTransaction;
+}
+
+/**
+ * A local stand-in for the parts of the Plaid API the app uses, for tests and
+ * development without Plaid credentials. Point PLAID_BASE_URL at its URL.
+ * transactions/sync pages through each item's changes `pageSize` at a time.
+ */
+export function createMockPlaidServer(pageSize = 100): MockPlaidServer {
+  const app = express();
+  app.use(express.json());
+
+  const publicTokens = new Map<string, string>();
+  const items = new Map<string, MockItem>();
+
+  const plaidError = (res: Response, status: number, errorCode: string, message: string) =>
+    res.status(status).json({
+      error_type: status === 400 ? 'INVALID_REQUEST' : 'API_ERROR',
+      error_code: errorCode,
+      error_message: message,
+      display_message: null,
+      request_id: 'mock'
+    });
+
+  // Resolve the item an access token belongs to, or answer with Plaid's error for a bad token
+  const itemFor = (req: Request, res: Response): MockItem | undefined => {
+    const item = items.get(req.body?.access_token);
+    if (!item) plaidError(res, 400, 'INVALID_ACCESS_TOKEN', 'provided access token is in an invalid format');
+    return item;
+  };
+
+  app.post('/link/token/create', (_req, res) => {
+    res.json({ link_token: 'link-mock-token', expiration: new Date(Date.now() + 4 * 3600 * 1000).toISOString(), request_id: 'mock' });
+  });
+
+  app.post('/item/public_token/exchange', (req, res) => {
+    const accessToken = publicTokens.get(req.body?.public_token);
+    const item = accessToken ? items.get(accessToken) : undefined;
+    if (!item) return plaidError(res, 400, 'INVALID_PUBLIC_TOKEN', 'provided public token is in an invalid format');
+    res.json({ access_token: item.accessToken, item_id: item.itemId, request_id: 'mock' });
+  });
+
+  app.post('/accounts/get', (req, res) => {
+    const item = itemFor(req, res);
+    if (!item) return;
+    res.json({
+      accounts: [{ account_id: 'mock-account', name: 'Mock Checking', type: 'depository', subtype: 'checking', balances: { current: 100 } }],
+      item: { item_id: item.itemId },
+      request_id: 'mock'
+    });
+  });
+
+  app.post('/transactions/sync', (req, res) => {
+    const item = itemFor(req, res);
+    if (!item) return;
+    const failure = item.failures.shift();
+    if (failure) return plaidError(res, 400, failure, `mock ${failure}`);
+
+    const start = req.body.cursor ? Number(req.body.cursor) : 0;
+    const count = Math.min(req.body.count ?? 100, pageSize);
+    const page = item.changes.slice(start, start + count);
+    const end = start + page.length;
+    res.json({
+      added: page.flatMap(change => change.type === 'added' ? [change.transaction] : []),
+      modified: page.flatMap(change => change.type === 'modified' ? [change.transaction] : []),
+      removed: page.flatMap(change => change.type === 'removed' ? [{ transaction_id: change.transaction_id }] : []),
+      next_cursor: String(end),
+      has_more: end < item.changes.length,
+      request_id: 'mock'
+    });
+  });
+
+  app.post('/item/remove', (req, res) => {
+    const item = itemFor(req, res);
+    if (!item) return;
+    items.delete(item.accessToken);
+    res.json({ request_id: 'mock' });
+  });
+
+  const changesFor = (accessToken: string): SyncChange[] => {
+    const item = items.get(accessToken);
+    if (!item) throw new Error(`No mock item with access token ${accessToken}`);
+    return item.changes;
+  };
+
+  return {
+    app,
+    addItem(publicToken, itemId, accessToken) {
+      publicTokens.set(publicToken, accessToken);
+      items.set(accessToken, { itemId, accessToken, changes: [], failures: [] });
+    },
+    addTransactions(accessToken, ...transactions) {
+      changesFor(accessToken).push(...transactions.map(transaction => ({ type: 'added' as const, transaction })));
+    },
+    modifyTransactions(accessToken, ...transactions) {
+      changesFor(accessToken).push(...transactions.map(transaction => ({ type: 'modified' as const, transaction })));
+    },
+    removeTransactions(accessToken, ...transactionIds) {
+      changesFor(accessToken).push(...transactionIds.map(transaction_id => ({ type: 'removed' as const, transaction_id })));
+    },
+    failNextSync(accessToken, errorCode) {
+      changesFor(accessToken);
+      items.get(accessToken)!.failures.push(errorCode);
+    },
+    listen() {
+      return new Promise(resolve => {
+        const server = app.listen(0, '127.0.0.1', () => {
+          const { port } = server.address() as AddressInfo;
+          resolve({
+            url: `http://127.0.0.1:${port}`,
+            close: () => new Promise<void>((done, fail) => server.close(error => error ? fail(error) : done()))
+          });
+        });
+      });
+    }
+  };
+}
@@ -4,24 +4,38 @@ import {
   Products, 
   LinkTokenCreateRequest,
   ItemPublicTokenExchangeRequest,
-  AccountsGetRequest,
-  TransactionsGetRequest
+  AccountsGetRequest
 } from 'plaid';
-import { plaidClient, setAccessToken, setItemId, accessToken } from './plaidClient';
-import { processTransactions } from './sustainabilityCalculator';
+import type { PlaidItem } from '@shared/schema';
+import { plaidClient, getAccessToken } from './plaidClient';
+import { encryptToken } from './tokenCipher';
+import { syncPlaidItem } from './plaidSync';
+import { MissingExchangeRateError } from './exchangeRates';
 import { storage } from '../storage';
+import { isAuthenticated } from '../auth';
 
 const plaidRouter = Router();
 
+// Every Plaid route acts on the signed-in user's own linked items
+plaidRouter.use(isAuthenticated);
+
+// Resolve the items a request targets: one item via ?item_id=, otherwise all of the user's items
+async function resolveItems(req: Request): Promise<PlaidItem[]> {
+  const items = await storage.getPlaidItems(req.user!.id);
+  const requestedItemId = req.query.item_id as string | undefined;
+  
+  return requestedItemId ? items.filter(item => item.itemId === requestedItemId) : items;
+}
+
+// Strip the encrypted token before sending an item to the client
+const toPublicItem = ({ accessToken, ...item }: PlaidItem) => item;
+
 // Create a link token
 plaidRouter.post('/create_link_token', async (req: Request, res: Response) => {
   try {
-    // Get the client_user_id from authenticated user
-    const userId = req.user?.id || 'user-123'; // Fallback for testing
-    
     const request: LinkTokenCreateRequest = {
       user: {
-        client_user_id: userId.toString(),
+        client_user_id: req.user!.id.toString(),
       },
       client_name: 'EcoFinance App',
       products: [Products.Transactions],
@@ -37,103 +51,137 @@ plaidRouter.post('/create_link_token', async (req: Request, res: Response) => {
   }
 });
 
-// Exchange public token for access token
+// Exchange public token for access token and link the item to the user
 plaidRouter.post('/exchange_public_token', async (req: Request, res: Response) => {
   try {
-    const { public_token } = req.body;
+    const userId = req.user!.id;
+    // `institution` is the metadata object Plaid Link passes to onSuccess
+    const { public_token, institution } = req.body;
+    
+    if (!public_token) {
+      return res.status(400).json({ error: 'public_token is required' });
+    }
     
     const exchangeRequest: ItemPublicTokenExchangeRequest = {
       public_token,
     };
     
     const exchangeResponse = await plaidClient.itemPublicTokenExchange(exchangeRequest);
-    const accessTokenValue = exchangeResponse.data.access_token;
-    const itemIdValue = exchangeResponse.data.item_id;
+    const { access_token, item_id } = exchangeResponse.data;
     
-    // Store the access token and item ID
-    setAccessToken(accessTokenValue);
-    setItemId(itemIdValue);
+    const itemFields = {
+      accessToken: encryptToken(access_token),
+      institutionId: institution?.institution_id ?? null,
+      institutionName: institution?.name ?? null,
+    };
     
-    res.json({ success: true });
+    // Relinking an existing item (e.g. after update mode) rotates its token
+    const existingItem = await storage.getPlaidItemByItemId(item_id);
+    if (existingItem && existingItem.userId !== userId) {
+      return res.status(409).json({ error: 'Item is linked to another account' });
+    }
+    
+    const item = existingItem
+      ? await storage.updatePlaidItem(existingItem.id, itemFields)
+      : await storage.createPlaidItem({ ...itemFields, userId, itemId: item_id });
+    
+    res.json({ success: true, item: toPublicItem(item!) });
   } catch (error: any) {
     console.error('Error exchanging public token:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
+// List linked institutions
+plaidRouter.get('/items', async (req: Request, res: Response) => {
+  try {
+    const items = await storage.getPlaidItems(req.user!.id);
+    res.json({ items: items.map(toPublicItem) });
+  } catch (error: any) {
+    console.error('Error listing items:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Unlink an institution
+plaidRouter.delete('/items/:itemId', async (req: Request, res: Response) => {
+  try {
+    const item = await storage.getPlaidItemByItemId(req.params.itemId);
+    if (!item || item.userId !== req.user!.id) {
+      return res.status(404).json({ error: 'Item not found' });
+    }
+    
+    await plaidClient.itemRemove({ access_token: getAccessToken(item) });
+    await storage.deletePlaidItem(item.id);
+    
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error removing item:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get accounts
 plaidRouter.get('/accounts', async (req: Request, res: Response) => {
   try {
-    if (!accessToken) {
-      return res.status(400).json({ error: 'No access token available' });
+    const items = await resolveItems(req);
+    if (items.length === 0) {
+      return res.status(400).json({ error: 'No linked bank account' });
     }
     
-    const request: AccountsGetRequest = {
-      access_token: accessToken,
-    };
+    const accounts = [];
+    for (const item of items) {
+      const request: AccountsGetRequest = {
+        access_token: getAccessToken(item),
+      };
+      
+      const accountsResponse = await plaidClient.accountsGet(request);
+      accounts.push(...accountsResponse.data.accounts.map(account => ({
+        ...account,
+        item_id: item.itemId,
+        institution_name: item.institutionName,
+      })));
+    }
     
-    const accountsResponse = await plaidClient.accountsGet(request);
-    res.json(accountsResponse.data);
+    res.json({ accounts });
   } catch (error: any) {
     console.error('Error getting accounts:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-// Get transactions
-plaidRouter.get('/transactions', async (req: Request, res: Response) => {
+// Sync transactions incrementally for every linked item (or ?item_id=)
+plaidRouter.post('/transactions/sync', async (req: Request, res: Response) => {
   try {
-    if (!accessToken) {
-      return res.status(400).json({ error: 'No access token available' });
+    const items = await resolveItems(req);
+    if (items.length === 0) {
+      return res.status(400).json({ error: 'No linked bank account' });
     }
     
-    const now = new Date();
-    const start_date = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    const end_date = now.toISOString().split('T')[0];
-    
-    const request: TransactionsGetRequest = {
-      access_token: accessToken,
-      start_date,
-      end_date,
-      options: {
-        count: 100,
-        offset: 0,
-      },
-    };
-    
-    const transactionsResponse = await plaidClient.transactionsGet(request);
-    const transactions = transactionsResponse.data.transactions;
-    
-    // If user is authenticated, also process transactions for sustainability metrics
-    if (req.isAuthenticated() && req.user?.id) {
-      const userId = req.user.id;
-      
-      // Convert Plaid transactions to our CSV format for existing processor
-      const csvRows = transactions.map(tx => ({
-        date: tx.date,
-        merchant: tx.merchant_name || tx.name,
-        category: tx.category ? tx.category[0] : 'Unknown',
-        amount: tx.amount.toString()
-      }));
-      
-      // Process transactions using our existing sustainability calculator
-      const { 
-        transactions: processedTransactions, 
-        sustainabilityScore, 
-        categoryBreakdowns 
-      } = processTransactions(csvRows, userId);
-      
-      // Store the processed data
-      await storage.createTransactions(processedTransactions);
-      await storage.createSustainabilityScore(sustainabilityScore);
-      await storage.createCategoryBreakdowns(categoryBreakdowns);
+    const results = [];
+    for (const item of items) {
+      results.push(await syncPlaidItem(item));
     }
     
-    res.json(transactionsResponse.data);
+    res.json({ results });
+  } catch (error: any) {
+    if (error instanceof MissingExchangeRateError) {
+      return res.status(422).json({ error: error.message, currency: error.currency });
+    }
+    console.error('Error syncing transactions:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Get transactions imported from the bank; POST /transactions/sync pulls new ones
+plaidRouter.get('/transactions', async (req: Request, res: Response) => {
+  try {
+    const transactions = await storage.getTransactions(req.user!.id);
+    res.json({ transactions: transactions.filter(tx => tx.source === 'plaid') });
   } catch (error: any) {
     console.error('Error getting transactions:', error);
     res.status(500).json({ error: error.message });
   }
 });
 
-export default plaidRouter;
\ No newline at end of file
+export default plaidRouter;
@@ -0,0 +1,95 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { PlaidItem, User } from '@shared/schema';
+import { storage } from '../storage';
+import { createMockPlaidServer, mockPlaidTransaction } from './plaidMock';
+import { encryptToken } from './tokenCipher';
+
+const ACCESS_TOKEN = 'access-mock-item';
+
+// Small pages so a sync has to follow has_more across several requests
+const plaid = createMockPlaidServer(2);
+let server: { url: string; close(): Promise<void> };
+let syncPlaidItem: typeof import('./plaidSync').syncPlaidItem;
+let user: User;
+let item: PlaidItem;
+
+// Sync with the item as currently stored, the way the routes do
+const sync = async () => syncPlaidItem((await storage.getPlaidItemByItemId(item.itemId))!);
+const imported = async () =>
+  (await storage.getTransactions(user.id))
+    .filter(tx => tx.source === 'plaid')
+    .map(tx => [tx.externalId, tx.amount])
+    .sort();
+
+beforeAll(async () => {
+  server = await plaid.listen();
+  // The Plaid client reads its host when first imported
+  process.env.PLAID_BASE_URL = server.url;
+  process.env.PLAID_TOKEN_KEY = 'plaid-sync-test-key';
+  ({ syncPlaidItem } = await import('./plaidSync'));
+});
+
+afterAll(() => server.close());
+
+let run = 0;
+beforeEach(async () => {
+  run++;
+  user = await storage.createUser({ username: `plaid-${run}`, password: 'hashed' });
+  plaid.addItem(`public-${run}`, `item-${run}`, `${ACCESS_TOKEN}-${run}`);
+  item = await storage.createPlaidItem({
+    userId: user.id,
+    itemId: `item-${run}`,
+    accessToken: encryptToken(`${ACCESS_TOKEN}-${run}`)
+  });
+});
+
+describe('syncPlaidItem', () => {
+  it('imports every page and resumes from the stored cursor', async () => {
+    const token = `${ACCESS_TOKEN}-${run}`;
+    plaid.addTransactions(token, ...['a', 'b', 'c', 'd', 'e'].map(id => mockPlaidTransaction({ transaction_id: id })));
+
+    expect(await sync()).toMatchObject({ inserted: 5, updated: 0, removed: 0 });
+    expect(await imported()).toHaveLength(5);
+
+    // Nothing new, so nothing is imported twice
+    expect(await sync()).toMatchObject({ inserted: 0, updated: 0, removed: 0 });
+
+    plaid.addTransactions(token, mockPlaidTransaction({ transaction_id: 'f' }));
+    expect(await sync()).toMatchObject({ inserted: 1 });
+    expect(await imported()).toHaveLength(6);
+  });
+
+  it('applies modified and removed transactions and skips pending ones', async () => {
+    const token = `${ACCESS_TOKEN}-${run}`;
+    plaid.addTransactions(token,
+      mockPlaidTransaction({ transaction_id: 'posted', amount: 12 }),
+      mockPlaidTransaction({ transaction_id: 'pending', amount: 8, pending: true }),
+      mockPlaidTransaction({ transaction_id: 'refunded', amount: 30 })
+    );
+    expect(await sync()).toMatchObject({ inserted: 2 });
+
+    plaid.modifyTransactions(token, mockPlaidTransaction({ transaction_id: 'posted', amount: 15 }));
+    plaid.removeTransactions(token, 'refunded');
+    expect(await sync()).toMatchObject({ inserted: 0, updated: 1, removed: 1 });
+    expect(await imported()).toEqual([['posted', 15]]);
+  });
+
+  it('starts paging over when the item changes mid-sync', async () => {
+    const token = `${ACCESS_TOKEN}-${run}`;
+    plaid.addTransactions(token, ...['a', 'b', 'c'].map(id => mockPlaidTransaction({ transaction_id: id })));
+    plaid.failNextSync(token, 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION');
+
+    expect(await sync()).toMatchObject({ inserted: 3 });
+    expect((await storage.getPlaidItemByItemId(item.itemId))?.cursor).toBe('3');
+  });
+
+  it('leaves the cursor alone when Plaid fails', async () => {
+    const token = `${ACCESS_TOKEN}-${run}`;
+    plaid.addTransactions(token, mockPlaidTransaction({ transaction_id: 'a' }));
+    plaid.failNextSync(token, 'ITEM_LOGIN_REQUIRED');
+
+    await expect(sync()).rejects.toMatchObject({ response: { data: { error_code: 'ITEM_LOGIN_REQUIRED' } } });
+    expect((await storage.getPlaidItemByItemId(item.itemId))?.cursor).toBeNull();
+    expect(await imported()).toEqual([]);
+  });
+});
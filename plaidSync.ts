@@ -0,0 +1,116 @@
+import type { RemovedTransaction, Transaction as PlaidTransaction } from 'plaid';
+import type { PlaidItem } from '@shared/schema';
+import { plaidClient, getAccessToken } from './plaidClient';
+import { processTransactions } from './sustainabilityCalculator';
+import { importTransactions } from './transactionImport';
+import { createCurrencyConverter } from './exchangeRates';
+import { loadMerchantMatcher } from './merchantCatalog';
+import { recordScoreSnapshot } from './scoreHistory';
+import { refreshCategoryBreakdowns } from './categoryBreakdowns';
+import { refreshRecommendations } from './recommendationLifecycle';
+import { normalizePlaidTransaction } from './transactionNormalizer';
+import { storage } from '../storage';
+
+// Largest page transactions/sync allows
+const SYNC_PAGE_SIZE = 500;
+// How often to restart pagination when Plaid reports the item changed mid-sync
+const MAX_PAGINATION_RESTARTS = 3;
+
+export interface SyncResult {
+  itemId: string;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  removed: number;
+}
+
+interface SyncUpdates {
+  added: PlaidTransaction[];
+  modified: PlaidTransaction[];
+  removed: RemovedTransaction[];
+  nextCursor: string;
+}
+
+function isMutationDuringPagination(error: any): boolean {
+  return error?.response?.data?.error_code === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION';
+}
+
+/**
+ * Page through transactions/sync from `cursor` until has_more is false.
+ * If the item changes while paging, Plaid requires starting over from the
+ * original cursor, so the accumulated pages are discarded in that case.
+ */
+async function fetchUpdates(accessToken: string, cursor: string | null): Promise<SyncUpdates> {
+  for (let attempt = 0; ; attempt++) {
+    const updates: SyncUpdates = { added: [], modified: [], removed: [], nextCursor: cursor ?? '' };
+
+    try {
+      let hasMore = true;
+      while (hasMore) {
+        const { data } = await plaidClient.transactionsSync({
+          access_token: accessToken,
+          cursor: updates.nextCursor || undefined,
+          count: SYNC_PAGE_SIZE,
+        });
+
+        updates.added.push(...data.added);
+        updates.modified.push(...data.modified);
+        updates.removed.push(...data.removed);
+        updates.nextCursor = data.next_cursor;
+        hasMore = data.has_more;
+      }
+      return updates;
+    } catch (error) {
+      if (isMutationDuringPagination(error) && attempt < MAX_PAGINATION_RESTARTS) {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Pull every change for an item since its stored cursor and apply it to
+ * the user's transactions. Pending transactions are skipped; Plaid reports
+ * them as removed and adds a new posted transaction once they settle.
+ */
+export async function syncPlaidItem(item: PlaidItem): Promise<SyncResult> {
+  const userId = item.userId;
+  const { added, modified, removed, nextCursor } = await fetchUpdates(getAccessToken(item), item.cursor);
+
+  // Added and modified rows go through the same idempotent import keyed on transaction_id
+  const posted = [...added, ...modified].filter(tx => !tx.pending);
+  const user = await storage.getUser(userId);
+  const converter = await createCurrencyConverter(user?.baseCurrency ?? 'USD');
+  const matcher = await loadMerchantMatcher();
+  const { transactions } = processTransactions(posted.map(normalizePlaidTransaction), userId, converter, matcher);
+  const { inserted, updated, skipped } = await importTransactions(
+    userId,
+    'plaid',
+    transactions.map((transaction, i) => ({ transaction, externalId: posted[i].transaction_id }))
+  );
+
+  const removedCount = await storage.deleteTransactionsByExternalIds(
+    userId,
+    'plaid',
+    removed.map(tx => tx.transaction_id)
+  );
+
+  // Refresh the score and breakdowns over the whole history once every change is in
+  if (inserted.length > 0 || updated.length > 0 || removedCount > 0) {
+    await recordScoreSnapshot(userId);
+    await refreshCategoryBreakdowns(userId);
+    await refreshRecommendations(userId);
+  }
+
+  // Only advance the cursor once every change has been applied
+  await storage.updatePlaidItem(item.id, { cursor: nextCursor, lastSyncedAt: new Date() });
+
+  return {
+    itemId: item.itemId,
+    inserted: inserted.length,
+    updated: updated.length,
+    skipped,
+    removed: removedCount
+  };
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import type { GreenInvestment, Investment, InvestmentPrice, InvestmentTransaction } from "@shared/schema";
+import type { CurrencyConverter } from "./exchangeRates";
+import { analyzePortfolio, esgRatingScore, xirr } from "./portfolioAnalytics";
+
+const dollars: CurrencyConverter = {
+  baseCurrency: "USD",
+  convert: amount => amount,
+  toBase: amount => amount
+};
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const solar: GreenInvestment = {
+  id: 1,
+  name: "Solar Leaders ETF",
+  type: "eco_stock",
+  description: "Solar manufacturers and developers",
+  minInvestment: 100,
+  projectedReturn: 8,
+  riskLevel: "high",
+  esgRating: "AA",
+  company: "Sunfund",
+  sector: "solar",
+  logoUrl: null,
+  performanceHistory: [100, 110],
+  symbol: "SUN"
+};
+
+const holding = (overrides: Partial<Investment>): Investment => ({
+  id: 1,
+  userId: 1,
+  profileId: null,
+  name: "Solar Leaders ETF",
+  type: "eco_stock",
+  amount: 0,
+  purchaseValue: 0,
+  currentValue: 0,
+  purchaseDate: day("2023-01-01"),
+  lastUpdated: day("2024-01-01"),
+  esgRating: "AA",
+  description: "",
+  performanceData: null,
+  greenInvestmentId: 1,
+  units: null,
+  ...overrides
+});
+
+let nextId = 1;
+const trade = (date: string, kind: InvestmentTransaction["kind"], amount: number, extra: Partial<InvestmentTransaction> = {}): InvestmentTransaction => ({
+  id: nextId++,
+  userId: 1,
+  investmentId: 1,
+  kind,
+  units: null,
+  price: null,
+  priceCurrency: null,
+  amount,
+  costBasis: null,
+  realizedGain: null,
+  date: day(date),
+  ...extra
+});
+
+const price = (date: string, close: number): InvestmentPrice => ({ id: nextId++, symbol: "SUN", date, price: close, currency: "USD" });
+
+const products = new Map([[solar.id, solar]]);
+const ASOF = day("2024-01-01");
+
+describe("xirr", () => {
+  it("finds the annual rate of a one-year investment", () => {
+    expect(xirr([{ amount: -1000, date: day("2023-01-01") }, { amount: 1100, date: day("2024-01-01") }])).toBeCloseTo(0.1, 9);
+    expect(xirr([{ amount: -1000, date: day("2023-01-01") }, { amount: 500, date: day("2024-01-01") }])).toBeCloseTo(-0.5, 9);
+  });
+
+  it("matches the worked example in the spreadsheet XIRR documentation", () => {
+    const flows = [
+      { amount: -10000, date: day("2008-01-01") },
+      { amount: 2750, date: day("2008-03-01") },
+      { amount: 4250, date: day("2008-10-30") },
+      { amount: 3250, date: day("2009-02-15") },
+      { amount: 2750, date: day("2009-04-01") },
+    ];
+    expect(xirr(flows)).toBeCloseTo(0.373362535, 6);
+  });
+
+  it("has no rate without money both going in and coming out", () => {
+    expect(xirr([{ amount: -1000, date: day("2023-01-01") }])).toBeNull();
+    expect(xirr([{ amount: -1000, date: day("2023-01-01") }, { amount: -100, date: day("2024-01-01") }])).toBeNull();
+  });
+});
+
+describe("esgRatingScore", () => {
+  it("reads MSCI ratings, letter grades and numbers", () => {
+    expect(["AAA", "AA", "BBB", "CCC"].map(esgRatingScore)).toEqual([100, 83.3, 50, 0]);
+    expect(["A+", "c", "D-", "F-"].map(esgRatingScore)).toEqual([100, 50, 16.7, 0]);
+    // Ratings on both scales read as MSCI
+    expect(esgRatingScore("B")).toBe(16.7);
+    expect(esgRatingScore(" 62 ")).toBe(62);
+    expect(["", "N/A", "101"].map(esgRatingScore)).toEqual([null, null, null]);
+  });
+});
+
+describe("analyzePortfolio", () => {
+  const prices = new Map([["SUN", [price("2023-01-01", 100), price("2023-07-01", 120), price("2024-01-01", 110)]]]);
+
+  it("separates the product's return from the timing of buys", () => {
+    // 10 units at 100, 10 more at 120 after a 20% rise, then a fall to 110: the product
+    // returned 1.2 * 110/120 - 1 = 10%, but the money put in is worth exactly what it cost
+    const transactions = [
+      trade("2023-01-01", "buy", 1000, { units: 10, price: 100 }),
+      trade("2023-07-01", "buy", 1200, { units: 10, price: 120 }),
+    ];
+    const holdings = [holding({ units: 20, amount: 2200, purchaseValue: 2200, currentValue: 2200 })];
+
+    const analytics = analyzePortfolio(holdings, transactions, products, prices, dollars, ASOF);
+    expect(analytics.returns).toMatchObject({ since: "2023-01-01", timeWeighted: 0.1, timeWeightedAnnualized: 0.1 });
+    expect(analytics.returns.moneyWeighted).toBeCloseTo(0, 4);
+    expect(analytics.totals).toMatchObject({ invested: 2200, currentValue: 2200, unrealizedGain: 0 });
+  });
+
+  it("counts sales, dividends and fees", () => {
+    const transactions = [
+      trade("2023-01-01", "buy", 1000, { units: 10, price: 100 }),
+      trade("2023-07-01", "sell", 600, { units: 5, price: 120, costBasis: 500, realizedGain: 100 }),
+      trade("2023-10-01", "dividend", 20),
+      trade("2023-11-01", "fee", 5),
+    ];
+    const holdings = [holding({ units: 5, amount: 500, purchaseValue: 500, currentValue: 550 })];
+
+    const analytics = analyzePortfolio(holdings, transactions, products, prices, dollars, ASOF);
+    expect(analytics.totals).toEqual({
+      invested: 500,
+      currentValue: 550,
+      unrealizedGain: 50,
+      unrealizedGainPct: 0.1,
+      realizedGain: 100,
+      dividends: 20,
+      fees: 5
+    });
+    // 1000 grows to 1200; after the sale 600 earns a 20 dividend, then falls to 550:
+    // 1.2 * 620/600 * 550/600 - 1. The fee is already out of that value.
+    expect(analytics.returns.timeWeighted).toBe(0.1367);
+    expect(analytics.holdings[0]).toMatchObject({ realizedGain: 100, dividends: 20, fees: 5, unrealizedGainPct: 0.1 });
+  });
+
+  it("counts a fee taken on a buy once, through the holding's value", () => {
+    // 1000 paid with a 10 fee buys 9.9 units at 100, worth 1089 a year later at 110
+    const transactions = [
+      trade("2023-01-01", "buy", 1000, { units: 9.9, price: 100 }),
+      trade("2023-01-01", "fee", 10),
+    ];
+    const holdings = [holding({ units: 9.9, amount: 1000, purchaseValue: 1000, currentValue: 1089 })];
+
+    const analytics = analyzePortfolio(holdings, transactions, products, prices, dollars, ASOF);
+    expect(analytics.totals).toMatchObject({ invested: 1000, currentValue: 1089, unrealizedGain: 89, fees: 10 });
+    // Both returns are the 8.9% the value shows, not what 1010 paid in would have made
+    expect(analytics.returns.timeWeighted).toBe(0.089);
+    expect(analytics.returns.moneyWeighted).toBe(0.089);
+  });
+
+  it("weights allocation and the ESG score by value", () => {
+    const holdings = [
+      holding({ units: 20, purchaseValue: 2200, currentValue: 2200 }),
+      // Bought before products had prices: no log, no units, rated on the holding itself
+      holding({ id: 2, name: "City Green Bond", type: "green_bond", greenInvestmentId: null, esgRating: "BBB", purchaseValue: 800, currentValue: 800 }),
+    ];
+    const transactions = [trade("2023-01-01", "buy", 2200, { units: 20, price: 110 })];
+
+    const analytics = analyzePortfolio(holdings, transactions, products, prices, dollars, ASOF);
+    expect(analytics.allocation.type).toEqual([
+      { key: "eco_stock", value: 2200, weight: 0.7333 },
+      { key: "green_bond", value: 800, weight: 0.2667 },
+    ]);
+    expect(analytics.allocation.sector.map(slice => slice.key)).toEqual(["solar", "unknown"]);
+    // (83.3 * 2200 + 50 * 800) / 3000
+    expect(analytics.esg).toEqual({ score: 74.4, rating: "A", coverage: 1, weightedReturn: 0.1 });
+  });
+});
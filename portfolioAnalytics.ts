@@ -0,0 +1,339 @@
+import type { GreenInvestment, Investment, InvestmentPrice, InvestmentTransaction, User } from "@shared/schema";
+import { createCurrencyConverter, type CurrencyConverter } from "./exchangeRates";
+import { valueHolding } from "./investmentPricing";
+import { deriveHolding } from "./investmentTrading";
+import { storage } from "../storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+// Less than half a cent held between trades means nothing was invested over that period
+const MIN_VALUE = 0.005;
+
+// MSCI-style ratings, best first, spread evenly over 0-100
+const ESG_SCALE = ["AAA", "AA", "A", "BBB", "BB", "B", "CCC"];
+// Letter grades, also accepted with a + or - that moves them a third of a grade
+const ESG_GRADES: Record<string, number> = { A: 100, B: 75, C: 50, D: 25, F: 0 };
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Turn an ESG rating into a 0-100 score. Accepts the MSCI scale (AAA to CCC),
+ * letter grades with an optional + or -, and plain numbers from 0 to 100.
+ * Null for anything else, so unrated holdings don't count as bad ones.
+ */
+export function esgRatingScore(rating: string): number | null {
+  const text = rating.trim().toUpperCase();
+  const index = ESG_SCALE.indexOf(text);
+  if (index >= 0) return round(100 - (index * 100) / (ESG_SCALE.length - 1), 1);
+
+  const grade = /^([ABCDF])([+-]?)$/.exec(text);
+  if (grade && ESG_GRADES[grade[1]] !== undefined) {
+    const modifier = grade[2] === "+" ? 25 / 3 : grade[2] === "-" ? -25 / 3 : 0;
+    return round(Math.min(100, Math.max(0, ESG_GRADES[grade[1]] + modifier)), 1);
+  }
+
+  const number = Number(text);
+  return text !== "" && Number.isFinite(number) && number >= 0 && number <= 100 ? number : null;
+}
+
+// The MSCI-style rating closest to a score
+function ratingForScore(score: number): string {
+  const step = 100 / (ESG_SCALE.length - 1);
+  return ESG_SCALE[Math.min(ESG_SCALE.length - 1, Math.max(0, Math.round((100 - score) / step)))];
+}
+
+// Return over a product's performance history, read as values oldest first
+function historyReturn(history: number[] | null): number | null {
+  if (!history || history.length < 2 || history[0] <= 0) return null;
+  return history[history.length - 1] / history[0] - 1;
+}
+
+/**
+ * Annualized money-weighted return: the rate at which the flows' net present
+ * value is zero. Newton's method from 10%, falling back to bisection when it
+ * doesn't settle. Null when there is no rate that works.
+ */
+export function xirr(flows: { amount: number; date: Date }[]): number | null {
+  if (flows.length < 2 || !flows.some(flow => flow.amount < 0) || !flows.some(flow => flow.amount > 0)) return null;
+  const start = Math.min(...flows.map(flow => flow.date.getTime()));
+  const years = flows.map(flow => (flow.date.getTime() - start) / DAY_MS / DAYS_PER_YEAR);
+  const npv = (rate: number) => flows.reduce((sum, flow, i) => sum + flow.amount / (1 + rate) ** years[i], 0);
+  const slope = (rate: number) => flows.reduce((sum, flow, i) => sum - years[i] * flow.amount / (1 + rate) ** (years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < 1e-7) return rate;
+    const derivative = slope(rate);
+    if (derivative === 0) break;
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -1) break;
+    rate = next;
+  }
+
+  let low = -0.9999;
+  let high = 100;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+export interface AllocationSlice {
+  key: string;
+  value: number;
+  weight: number;
+}
+
+export interface HoldingAnalytics {
+  id: number;
+  name: string;
+  type: string;
+  symbol: string | null;
+  units: number | null;
+  purchaseDate: Date;
+  purchaseValue: number;
+  currentValue: number;
+  unrealizedGain: number;
+  unrealizedGainPct: number | null;
+  realizedGain: number;
+  dividends: number;
+  fees: number;
+  esgScore: number | null;
+}
+
+type PortfolioEvent = Pick<InvestmentTransaction, "investmentId" | "kind" | "units" | "amount" | "date">;
+
+export interface PortfolioAnalytics {
+  baseCurrency: string;
+  asOf: string;
+  totals: {
+    // Cost of the units still held
+    invested: number;
+    currentValue: number;
+    unrealizedGain: number;
+    unrealizedGainPct: number | null;
+    realizedGain: number;
+    dividends: number;
+    fees: number;
+  };
+  returns: {
+    since: string | null;
+    // Compounded over the periods between buys and sales, so their timing doesn't count
+    timeWeighted: number | null;
+    timeWeightedAnnualized: number | null;
+    // Annualized internal rate of return of the buys, sales, dividends and today's value
+    moneyWeighted: number | null;
+  };
+  allocation: { type: AllocationSlice[]; sector: AllocationSlice[]; riskLevel: AllocationSlice[] };
+  holdings: HoldingAnalytics[];
+  esg: {
+    // Value-weighted score of the rated holdings, 0-100, and the rating nearest to it
+    score: number | null;
+    rating: string | null;
+    // Share of the portfolio's value with a usable rating
+    coverage: number;
+    // Return over the products' performance history, weighted by value times ESG score
+    weightedReturn: number | null;
+  };
+}
+
+function allocate(values: { key: string; value: number }[], total: number): AllocationSlice[] {
+  const byKey = new Map<string, number>();
+  for (const { key, value } of values) byKey.set(key, (byKey.get(key) ?? 0) + value);
+  return Array.from(byKey.entries())
+    .map(([key, value]) => ({ key, value: round(value), weight: total > 0 ? round(value / total, 4) : 0 }))
+    // Holdings that have been sold off take up none of the portfolio
+    .filter(slice => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Work out returns, allocation, gains and the ESG score of a set of holdings
+ * from their transaction logs. Money is in the converter's base currency.
+ * Between trades, holdings with prices are valued at the units they held and
+ * the price on the day, and ones without at what was paid for them; today
+ * every holding counts at its current value.
+ */
+export function analyzePortfolio(
+  holdings: Investment[],
+  transactions: InvestmentTransaction[],
+  products: Map<number, GreenInvestment>,
+  prices: Map<string, InvestmentPrice[]>,
+  converter: CurrencyConverter,
+  asOf = new Date()
+): PortfolioAnalytics {
+  const productOf = (holding: Investment) => holding.greenInvestmentId !== null ? products.get(holding.greenInvestmentId) : undefined;
+
+  // Holdings from before the transaction log count as a single purchase
+  const logged = new Set(transactions.map(transaction => transaction.investmentId));
+  const events: PortfolioEvent[] = [
+    ...transactions,
+    ...holdings
+      .filter(holding => !logged.has(holding.id))
+      .map(holding => ({ investmentId: holding.id, kind: "buy" as const, units: holding.units, amount: holding.purchaseValue, date: holding.purchaseDate }))
+  ];
+  const timeOf = (event: PortfolioEvent) => new Date(event.date).getTime();
+
+  // Value of what the holding held just before `date`, at the price on that day
+  const valueOn = (holding: Investment, date: Date): number => {
+    const earlier = events.filter(event => event.investmentId === holding.id && timeOf(event) < date.getTime());
+    if (holding.units === null) {
+      return earlier.some(event => event.kind === "buy") ? holding.purchaseValue : 0;
+    }
+    const units = earlier.reduce((sum, event) =>
+      sum + (event.kind === "buy" ? event.units ?? 0 : event.kind === "sell" ? -(event.units ?? 0) : 0), 0);
+    if (units <= 0) return 0;
+    const product = productOf(holding);
+    const history = product?.symbol ? prices.get(product.symbol) ?? [] : [];
+    return valueHolding({ ...holding, units }, history, converter, date)?.currentValue ?? 0;
+  };
+
+  const invested = holdings.reduce((sum, holding) => sum + holding.purchaseValue, 0);
+  const currentValue = holdings.reduce((sum, holding) => sum + holding.currentValue, 0);
+
+  // Time-weighted return: chain the growth between days with buys or sales. Dividends paid out
+  // are part of the return of the period they fall in; buys and sales are not. Fees are taken
+  // from the holding's value, so they are already in it and move no money in or out.
+  const days = Array.from(new Set(events.map(event => new Date(event.date).toISOString().split("T")[0]))).sort();
+  let growth = 1;
+  let periods = 0;
+  let afterTrades = 0;
+  for (const day of days) {
+    const start = new Date(`${day}T00:00:00Z`);
+    const before = holdings.reduce((sum, holding) => sum + valueOn(holding, start), 0);
+    let trades = 0;
+    let cash = 0;
+    for (const event of events) {
+      if (timeOf(event) < start.getTime() || timeOf(event) >= start.getTime() + DAY_MS) continue;
+      if (event.kind === "buy") trades += event.amount;
+      else if (event.kind === "sell") trades -= event.amount;
+      else if (event.kind === "dividend") cash += event.amount;
+    }
+    if (afterTrades >= MIN_VALUE) {
+      growth *= (before + cash) / afterTrades;
+      periods++;
+    }
+    afterTrades = before + trades;
+  }
+  if (afterTrades >= MIN_VALUE) {
+    growth *= currentValue / afterTrades;
+    periods++;
+  }
+
+  const since = days.length > 0 ? days[0] : null;
+  const spanDays = since ? (asOf.getTime() - new Date(`${since}T00:00:00Z`).getTime()) / DAY_MS : 0;
+  const timeWeighted = periods > 0 ? growth - 1 : null;
+
+  // Money-weighted return: money in for buys, out for sales and dividends, and today's value.
+  // Fees, like in the time-weighted return, are already out of the value.
+  const moneyWeighted = spanDays >= 1
+    ? xirr([
+        ...events.filter(event => event.kind !== "fee").map(event => ({
+          amount: event.kind === "buy" ? -event.amount : event.amount,
+          date: new Date(event.date)
+        })),
+        { amount: currentValue, date: asOf }
+      ])
+    : null;
+
+  const positions = new Map(holdings.map(holding => [
+    holding.id,
+    deriveHolding(events.filter(event => event.investmentId === holding.id).map(event => ({ costBasis: null, realizedGain: null, ...event })))
+  ]));
+
+  const analyzed: HoldingAnalytics[] = holdings.map(holding => {
+    const product = productOf(holding);
+    const gain = holding.currentValue - holding.purchaseValue;
+    return {
+      id: holding.id,
+      name: holding.name,
+      type: holding.type,
+      symbol: product?.symbol ?? null,
+      units: holding.units,
+      purchaseDate: holding.purchaseDate,
+      purchaseValue: round(holding.purchaseValue),
+      currentValue: round(holding.currentValue),
+      unrealizedGain: round(gain),
+      unrealizedGainPct: holding.purchaseValue > 0 ? round(gain / holding.purchaseValue, 4) : null,
+      realizedGain: positions.get(holding.id)!.realizedGain,
+      dividends: positions.get(holding.id)!.dividends,
+      fees: positions.get(holding.id)!.fees,
+      esgScore: esgRatingScore(product?.esgRating ?? holding.esgRating)
+    };
+  });
+
+  let ratedValue = 0;
+  let scoreSum = 0;
+  let returnWeight = 0;
+  let returnSum = 0;
+  for (const holding of holdings) {
+    const score = esgRatingScore(productOf(holding)?.esgRating ?? holding.esgRating);
+    if (score === null) continue;
+    ratedValue += holding.currentValue;
+    scoreSum += score * holding.currentValue;
+    const trailing = historyReturn(productOf(holding)?.performanceHistory ?? null);
+    if (trailing !== null) {
+      returnWeight += score * holding.currentValue;
+      returnSum += trailing * score * holding.currentValue;
+    }
+  }
+  const esgScore = ratedValue > 0 ? round(scoreSum / ratedValue, 1) : null;
+
+  return {
+    baseCurrency: converter.baseCurrency,
+    asOf: asOf.toISOString(),
+    totals: {
+      invested: round(invested),
+      currentValue: round(currentValue),
+      unrealizedGain: round(currentValue - invested),
+      unrealizedGainPct: invested > 0 ? round((currentValue - invested) / invested, 4) : null,
+      realizedGain: round(analyzed.reduce((sum, holding) => sum + holding.realizedGain, 0)),
+      dividends: round(analyzed.reduce((sum, holding) => sum + holding.dividends, 0)),
+      fees: round(analyzed.reduce((sum, holding) => sum + holding.fees, 0))
+    },
+    returns: {
+      since,
+      timeWeighted: timeWeighted === null ? null : round(timeWeighted, 4),
+      timeWeightedAnnualized: timeWeighted !== null && spanDays >= DAYS_PER_YEAR
+        ? round((1 + timeWeighted) ** (DAYS_PER_YEAR / spanDays) - 1, 4)
+        : null,
+      moneyWeighted: moneyWeighted === null ? null : round(moneyWeighted, 4)
+    },
+    allocation: {
+      type: allocate(holdings.map(holding => ({ key: holding.type, value: holding.currentValue })), currentValue),
+      sector: allocate(holdings.map(holding => ({ key: productOf(holding)?.sector ?? "unknown", value: holding.currentValue })), currentValue),
+      riskLevel: allocate(holdings.map(holding => ({ key: productOf(holding)?.riskLevel ?? "unknown", value: holding.currentValue })), currentValue)
+    },
+    holdings: analyzed,
+    esg: {
+      score: esgScore,
+      rating: esgScore === null ? null : ratingForScore(esgScore),
+      coverage: currentValue > 0 ? round(ratedValue / currentValue, 4) : 0,
+      weightedReturn: returnWeight > 0 ? round(returnSum / returnWeight, 4) : null
+    }
+  };
+}
+
+// Load a user's holdings with their transaction logs, products and prices and analyze them
+export async function getPortfolioAnalytics(user: User, asOf = new Date()): Promise<PortfolioAnalytics> {
+  const holdings = await storage.getInvestments(user.id);
+  const products = new Map<number, GreenInvestment>();
+  for (const id of Array.from(new Set(holdings.map(holding => holding.greenInvestmentId)))) {
+    if (id === null) continue;
+    const product = await storage.getGreenInvestmentById(id);
+    if (product) products.set(id, product);
+  }
+
+  const symbols = Array.from(products.values()).flatMap(product => product.symbol ? [product.symbol] : []);
+  const prices = new Map<string, InvestmentPrice[]>();
+  for (const price of symbols.length > 0 ? await storage.getInvestmentPrices(symbols) : []) {
+    prices.set(price.symbol, [...(prices.get(price.symbol) ?? []), price]);
+  }
+
+  const transactions = await storage.getInvestmentTransactionsByUser(user.id);
+  return analyzePortfolio(holdings, transactions, products, prices, await createCurrencyConverter(user.baseCurrency), asOf);
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import type { Merchant, Transaction } from "@shared/schema";
+import {
+  evaluateRecommendationRules,
+  type CategorySpendRule,
+  type RecommendationContext
+} from "./recommendationEngine";
+
+let nextId = 1;
+const transaction = (overrides: Partial<Transaction>): Transaction => ({
+  id: nextId++,
+  date: new Date("2024-03-15"),
+  merchant: "Shop",
+  category: "Shopping",
+  amount: 10,
+  currency: "USD",
+  baseAmount: null,
+  ecoScore: 60,
+  hasAlternatives: false,
+  co2eKg: 1,
+  waterLiters: null,
+  methodologyVersion: null,
+  merchantId: null,
+  scoreExplanation: null,
+  suggestedAlternatives: null,
+  userId: 1,
+  kind: "purchase",
+  source: "csv",
+  externalId: null,
+  fingerprint: null,
+  ...overrides
+});
+
+const merchant = (id: number, name: string, category: string, ecoScore: number): Merchant => ({
+  id,
+  name,
+  normalizedName: name.toLowerCase(),
+  aliases: [],
+  category,
+  ecoScore,
+  evidence: [],
+  hasAlternatives: false,
+  updatedAt: new Date("2024-01-01")
+});
+
+// Three months of history: 2000 USD of spend, 30% of it on transportation
+const context: RecommendationContext = {
+  currency: "USD",
+  months: 3,
+  breakdowns: [
+    { userId: 1, category: "transportation", amount: 600, ecoScore: 40, transactionCount: 12, co2eKg: 300 },
+    { userId: 1, category: "groceries", amount: 900, ecoScore: 65, transactionCount: 30, co2eKg: 400 },
+    { userId: 1, category: "dining", amount: 300, ecoScore: 55, transactionCount: 10, co2eKg: 60 },
+    // 10% of spend and 67 USD a month, under both shopping thresholds
+    { userId: 1, category: "shopping", amount: 200, ecoScore: 35, transactionCount: 4, co2eKg: 80 },
+  ],
+  transactions: [
+    // A catalog merchant with a poor score: 80 USD net over three months
+    transaction({ merchant: "FASTFASHION #12", merchantId: 1, ecoScore: 20, amount: 30, co2eKg: 15 }),
+    transaction({ merchant: "FastFashion Online", merchantId: 1, ecoScore: 20, amount: 30, co2eKg: 15 }),
+    transaction({ merchant: "FASTFASHION #12", merchantId: 1, ecoScore: 20, amount: 30, co2eKg: 15 }),
+    transaction({ merchant: "FASTFASHION #12", merchantId: 1, ecoScore: 20, amount: -10, co2eKg: -5, kind: "refund" }),
+    // Spellings of an uncatalogued merchant count together: 70 USD
+    transaction({ merchant: "Corner Kiosk", category: "Groceries", ecoScore: 30, amount: 40, co2eKg: 7 }),
+    transaction({ merchant: " corner kiosk", category: "Groceries", ecoScore: 30, amount: 30, co2eKg: 7 }),
+    // Too little to bother with, and credits never count
+    transaction({ merchant: "Vending", ecoScore: 10, amount: 5, co2eKg: 1 }),
+    transaction({ merchant: "Payroll", category: "Other", ecoScore: 0, amount: -500, co2eKg: 0, kind: "credit" }),
+    // Three grocery purchases with greener alternatives, two dining ones
+    ...[1, 2, 3].map(() => transaction({ merchant: "Market", category: "Supermarkets and Groceries", hasAlternatives: true, amount: 20, co2eKg: 10 })),
+    ...[1, 2].map(() => transaction({ merchant: "Cafe", category: "Coffee Shop", hasAlternatives: true, amount: 5, co2eKg: 1 })),
+  ],
+  catalog: [
+    merchant(1, "Fast Fashion Co", "Shopping", 20),
+    merchant(2, "Thrift Hub", "Clothing", 90),
+    merchant(3, "Repair Cafe", "Shops", 75),
+    merchant(4, "Outlet Mall", "Shopping", 65),
+    merchant(5, "Eco Fuel", "Transportation", 95),
+  ]
+};
+
+describe("evaluateRecommendationRules", () => {
+  const recommendations = evaluateRecommendationRules(context);
+
+  it("fires each rule once per subject, most CO2e saved first", () => {
+    expect(recommendations.map(recommendation => [recommendation.dedupeKey, recommendation.co2eSavingsKg, recommendation.spendSavings])).toEqual([
+      // 300 kg over 3 months, 30% of it; 200 USD a month, 20% of it
+      ["transportation-mode-shift:transportation", 30, 40],
+      ["groceries-plant-based:groceries", 26.7, 15],
+      ["dining-home-cooking:dining", 5, 30],
+      // Refund netted out: 40 kg and 80 USD
+      ["low-score-merchant:merchant-1", 4, 0],
+      ["category-alternatives:groceries", 2, 1],
+      ["low-score-merchant:corner kiosk", 1.4, 0],
+    ]);
+  });
+
+  it("fills the copy from what the rule found", () => {
+    const [transportation] = recommendations;
+    expect(transportation).toMatchObject({
+      ruleId: "transportation-mode-shift",
+      category: "transportation",
+      icon: "bus",
+      description: "Transportation is 30% of your spending, about $200.00 a month. Moving 30% of car trips to transit, cycling or walking would cut its footprint accordingly.",
+      potentialImpact: "Save about 30 kg CO2e and $40.00 a month"
+    });
+
+    const fastFashion = recommendations.find(recommendation => recommendation.dedupeKey === "low-score-merchant:merchant-1");
+    expect(fastFashion).toMatchObject({
+      title: "Find a greener alternative to Fast Fashion Co",
+      description: "You spend about $26.67 a month at Fast Fashion Co, which has an eco score of 20. Higher-rated options in shopping include Thrift Hub and Repair Cafe.",
+      potentialImpact: "Save about 4 kg CO2e a month",
+      category: "shopping"
+    });
+
+    const kiosk = recommendations.find(recommendation => recommendation.dedupeKey === "low-score-merchant:corner kiosk");
+    expect(kiosk?.title).toBe("Find a greener alternative to Corner Kiosk");
+    expect(kiosk?.description).toContain("Look for a higher-rated option in groceries.");
+
+    const alternatives = recommendations.find(recommendation => recommendation.ruleId === "category-alternatives");
+    expect(alternatives?.title).toBe("Greener options for your groceries purchases");
+    expect(alternatives?.description).toMatch(/^3 of your recent groceries purchases/);
+  });
+
+  it("yields the same recommendations when run again", () => {
+    expect(evaluateRecommendationRules(context)).toEqual(recommendations);
+  });
+
+  it("fires a category rule on monthly spend alone and drops advice that saves nothing", () => {
+    const rule: CategorySpendRule = {
+      kind: "category-spend",
+      id: "shopping-budget",
+      category: "shopping",
+      minShare: 0.5,
+      minMonthlySpend: 50,
+      co2eReduction: 0.1,
+      spendReduction: 0,
+      icon: "wallet",
+      title: "Set a {category} budget",
+      description: "About {monthlySpend} a month"
+    };
+    expect(evaluateRecommendationRules(context, [rule])).toMatchObject([
+      { dedupeKey: "shopping-budget:shopping", title: "Set a shopping budget", description: "About $66.67 a month", co2eSavingsKg: 2.7 }
+    ]);
+    expect(evaluateRecommendationRules(context, [{ ...rule, co2eReduction: 0 }])).toEqual([]);
+  });
+
+  it("keeps only the eight most impactful", () => {
+    const rules = Array.from({ length: 10 }, (_, i): CategorySpendRule => ({
+      kind: "category-spend",
+      id: `rule-${i}`,
+      category: "groceries",
+      minShare: 0,
+      minMonthlySpend: 0,
+      co2eReduction: (i + 1) / 100,
+      spendReduction: 0,
+      icon: "leaf",
+      title: "",
+      description: ""
+    }));
+    const kept = evaluateRecommendationRules(context, rules);
+    expect(kept.map(recommendation => recommendation.ruleId)).toEqual(["rule-9", "rule-8", "rule-7", "rule-6", "rule-5", "rule-4", "rule-3", "rule-2"]);
+  });
+});
@@ -0,0 +1,371 @@
+import type { InsertCategoryBreakdown, InsertRecommendation, Merchant, Transaction } from "@shared/schema";
+import { summarizeTransactions } from "./sustainabilityCalculator";
+import { CATEGORY_TAXONOMY, canonicalCategory } from "./categoryTaxonomy";
+import { storage } from "../storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recommendations look at this much history, ending at the latest transaction
+export const ANALYSIS_WINDOW_DAYS = 90;
+export const DAYS_PER_MONTH = 30;
+// Only the most impactful recommendations are kept
+const MAX_RECOMMENDATIONS = 8;
+// Catalog merchants at or above this score are suggested as replacements
+const ALTERNATIVE_MIN_ECO_SCORE = 70;
+
+// What a rule shows the user; `{name}` placeholders are filled from the rule's findings
+interface RuleCopy {
+  icon: string;
+  title: string;
+  description: string;
+}
+
+// Savings assumed when the user follows the advice, as fractions of the footprint and spend involved
+interface RuleSavings {
+  co2eReduction: number;
+  spendReduction: number;
+}
+
+// A category that takes up a large part of the user's spending
+export interface CategorySpendRule extends RuleCopy, RuleSavings {
+  kind: "category-spend";
+  id: string;
+  category: string;
+  // Either threshold is enough: share of total spend, or monthly spend in the base currency
+  minShare: number;
+  minMonthlySpend: number;
+}
+
+// Regular spending at merchants with a poor eco score
+export interface LowScoreMerchantRule extends RuleCopy, RuleSavings {
+  kind: "low-score-merchant";
+  id: string;
+  maxEcoScore: number;
+  minMonthlySpend: number;
+}
+
+// Repeated purchases in a category the scorer found greener alternatives for
+export interface AlternativesRule extends RuleCopy, RuleSavings {
+  kind: "alternatives";
+  id: string;
+  minTransactions: number;
+}
+
+export type RecommendationRule = CategorySpendRule | LowScoreMerchantRule | AlternativesRule;
+
+/**
+ * The rule set. Rules are plain data interpreted by evaluateRecommendationRules,
+ * so adding advice or tuning a threshold never touches the evaluation code.
+ */
+export const RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    kind: "category-spend",
+    id: "transportation-mode-shift",
+    category: "transportation",
+    minShare: 0.1,
+    minMonthlySpend: 150,
+    co2eReduction: 0.3,
+    spendReduction: 0.2,
+    icon: "bus",
+    title: "Swap some drives for transit or cycling",
+    description: "Transportation is {share}% of your spending, about {monthlySpend} a month. Moving {reduction}% of car trips to transit, cycling or walking would cut its footprint accordingly."
+  },
+  {
+    kind: "category-spend",
+    id: "travel-rail",
+    category: "travel",
+    minShare: 0.1,
+    minMonthlySpend: 200,
+    co2eReduction: 0.4,
+    spendReduction: 0.15,
+    icon: "train",
+    title: "Take the train for shorter trips",
+    description: "Travel is {share}% of your spending, about {monthlySpend} a month. Rail emits a fraction of what short-haul flights do, and booking it for trips under 500 miles can cut your travel footprint by around {reduction}%."
+  },
+  {
+    kind: "category-spend",
+    id: "dining-home-cooking",
+    category: "dining",
+    minShare: 0.15,
+    minMonthlySpend: 300,
+    co2eReduction: 0.25,
+    spendReduction: 0.3,
+    icon: "utensils",
+    title: "Cook at home a few more nights",
+    description: "Dining out is {share}% of your spending, about {monthlySpend} a month. Replacing some takeout and restaurant meals with home cooking cuts packaging, food waste and cost."
+  },
+  {
+    kind: "category-spend",
+    id: "shopping-secondhand",
+    category: "shopping",
+    minShare: 0.2,
+    minMonthlySpend: 250,
+    co2eReduction: 0.3,
+    spendReduction: 0.25,
+    icon: "recycle",
+    title: "Buy second-hand first",
+    description: "Shopping is {share}% of your spending, about {monthlySpend} a month. Checking second-hand and refurbished options before buying new avoids most of a product's manufacturing footprint."
+  },
+  {
+    kind: "category-spend",
+    id: "utilities-efficiency",
+    category: "utilities",
+    minShare: 0.15,
+    minMonthlySpend: 120,
+    co2eReduction: 0.15,
+    spendReduction: 0.1,
+    icon: "zap",
+    title: "Trim your home energy use",
+    description: "Utilities come to about {monthlySpend} a month. A smart thermostat, LED bulbs and a green energy tariff typically cut usage by {reduction}% or more."
+  },
+  {
+    kind: "category-spend",
+    id: "groceries-plant-based",
+    category: "groceries",
+    minShare: 0.25,
+    minMonthlySpend: 400,
+    co2eReduction: 0.2,
+    spendReduction: 0.05,
+    icon: "leaf",
+    title: "Shift your groceries toward plants",
+    description: "Groceries are {share}% of your spending, about {monthlySpend} a month. Swapping some meat and dairy for plant-based staples is one of the biggest cuts to a food footprint."
+  },
+  {
+    kind: "low-score-merchant",
+    id: "low-score-merchant",
+    maxEcoScore: 40,
+    minMonthlySpend: 20,
+    co2eReduction: 0.3,
+    spendReduction: 0,
+    icon: "store",
+    title: "Find a greener alternative to {merchant}",
+    description: "You spend about {monthlySpend} a month at {merchant}, which has an eco score of {ecoScore}. {suggestion}"
+  },
+  {
+    kind: "alternatives",
+    id: "category-alternatives",
+    minTransactions: 3,
+    co2eReduction: 0.2,
+    spendReduction: 0.05,
+    icon: "shopping-bag",
+    title: "Greener options for your {category} purchases",
+    description: "{count} of your recent {category} purchases have greener alternatives. Choosing them for everyday buys adds up."
+  }
+];
+
+export interface RecommendationContext {
+  currency: string;
+  // Months of history the figures cover, so savings can be stated per month
+  months: number;
+  breakdowns: InsertCategoryBreakdown[];
+  transactions: Transaction[];
+  catalog: Merchant[];
+}
+
+export type RecommendationDraft = Omit<InsertRecommendation, "userId" | "co2eSavingsKg" | "spendSavings"> & {
+  co2eSavingsKg: number;
+  spendSavings: number;
+};
+
+// Net spend and footprint of a group of transactions, refunds included
+interface SpendTotals {
+  spend: number;
+  co2eKg: number;
+  count: number;
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+function fill(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key) => key in values ? String(values[key]) : placeholder);
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount);
+}
+
+function categoryLabel(category: string): string {
+  return CATEGORY_TAXONOMY[category]?.label.toLowerCase() ?? category;
+}
+
+function addTotals(totals: SpendTotals | undefined, transaction: Transaction): SpendTotals {
+  const current = totals ?? { spend: 0, co2eKg: 0, count: 0 };
+  return {
+    spend: current.spend + (transaction.baseAmount ?? transaction.amount),
+    co2eKg: current.co2eKg + (transaction.co2eKg ?? 0),
+    count: current.count + (transaction.kind === "purchase" ? 1 : 0)
+  };
+}
+
+// Build a recommendation from what a rule found, with its savings per month
+function draft(
+  rule: RecommendationRule,
+  context: RecommendationContext,
+  subject: string,
+  category: string,
+  totals: { spend: number; co2eKg: number },
+  values: Record<string, string | number>
+): RecommendationDraft {
+  const co2eSavingsKg = round((totals.co2eKg / context.months) * rule.co2eReduction, 1);
+  const spendSavings = round((totals.spend / context.months) * rule.spendReduction, 2);
+  const filled = {
+    ...values,
+    monthlySpend: formatMoney(totals.spend / context.months, context.currency),
+    reduction: Math.round(rule.co2eReduction * 100)
+  };
+
+  const impact = [`${co2eSavingsKg} kg CO2e`];
+  if (spendSavings > 0) impact.push(formatMoney(spendSavings, context.currency));
+
+  return {
+    ruleId: rule.id,
+    dedupeKey: `${rule.id}:${subject}`,
+    title: fill(rule.title, filled),
+    description: fill(rule.description, filled),
+    icon: rule.icon,
+    potentialImpact: `Save about ${impact.join(" and ")} a month`,
+    co2eSavingsKg,
+    spendSavings,
+    category
+  };
+}
+
+function evaluateCategorySpend(rule: CategorySpendRule, context: RecommendationContext): RecommendationDraft[] {
+  const total = context.breakdowns.reduce((sum, breakdown) => sum + Math.max(0, breakdown.amount), 0);
+  const breakdown = context.breakdowns.find(bd => bd.category === rule.category);
+  if (!breakdown || total <= 0 || breakdown.amount <= 0) return [];
+
+  const share = breakdown.amount / total;
+  if (share < rule.minShare && breakdown.amount / context.months < rule.minMonthlySpend) return [];
+
+  return [draft(rule, context, rule.category, rule.category, {
+    spend: breakdown.amount,
+    co2eKg: breakdown.co2eKg ?? 0
+  }, {
+    share: Math.round(share * 100),
+    category: categoryLabel(rule.category)
+  })];
+}
+
+/**
+ * The subject a transaction counts towards under a rule: its canonical
+ * category, or for merchant rules the catalog merchant (every spelling of it
+ * grouped together) or else the merchant name as written. Undefined when the
+ * rule doesn't look at this kind of transaction.
+ */
+export function ruleSubject(rule: RecommendationRule, transaction: Transaction): string | undefined {
+  if (transaction.kind === "credit") return undefined;
+  switch (rule.kind) {
+    case "category-spend":
+      return canonicalCategory(transaction.category);
+    case "low-score-merchant":
+      return transaction.merchantId ? `merchant-${transaction.merchantId}` : transaction.merchant.trim().toLowerCase();
+    case "alternatives":
+      return transaction.kind === "purchase" && transaction.hasAlternatives ? canonicalCategory(transaction.category) : undefined;
+  }
+}
+
+export function findRecommendationRule(ruleId: string): RecommendationRule | undefined {
+  return RECOMMENDATION_RULES.find(rule => rule.id === ruleId);
+}
+
+function evaluateLowScoreMerchants(rule: LowScoreMerchantRule, context: RecommendationContext): RecommendationDraft[] {
+  const catalogById = new Map(context.catalog.map(merchant => [merchant.id, merchant]));
+  const groups = new Map<string, { name: string; category: string; ecoScore: number; totals: SpendTotals }>();
+
+  for (const transaction of context.transactions) {
+    const key = ruleSubject(rule, transaction);
+    if (!key || transaction.ecoScore > rule.maxEcoScore) continue;
+    const merchant = transaction.merchantId ? catalogById.get(transaction.merchantId) : undefined;
+    const group = groups.get(key) ?? {
+      name: merchant?.name ?? transaction.merchant.trim(),
+      category: canonicalCategory(merchant?.category ?? transaction.category),
+      ecoScore: transaction.ecoScore,
+      totals: { spend: 0, co2eKg: 0, count: 0 }
+    };
+    group.totals = addTotals(group.totals, transaction);
+    groups.set(key, group);
+  }
+
+  const drafts: RecommendationDraft[] = [];
+  for (const [key, group] of Array.from(groups.entries())) {
+    if (group.totals.count === 0 || group.totals.spend / context.months < rule.minMonthlySpend) continue;
+
+    const alternatives = context.catalog
+      .filter(merchant => merchant.ecoScore >= ALTERNATIVE_MIN_ECO_SCORE && canonicalCategory(merchant.category) === group.category)
+      .sort((a, b) => b.ecoScore - a.ecoScore)
+      .slice(0, 2)
+      .map(merchant => merchant.name);
+    const suggestion = alternatives.length > 0
+      ? `Higher-rated options in ${categoryLabel(group.category)} include ${alternatives.join(" and ")}.`
+      : `Look for a higher-rated option in ${categoryLabel(group.category)}.`;
+
+    drafts.push(draft(rule, context, key, group.category, group.totals, {
+      merchant: group.name,
+      ecoScore: group.ecoScore,
+      suggestion
+    }));
+  }
+  return drafts;
+}
+
+function evaluateAlternatives(rule: AlternativesRule, context: RecommendationContext): RecommendationDraft[] {
+  const groups = new Map<string, SpendTotals>();
+  for (const transaction of context.transactions) {
+    const category = ruleSubject(rule, transaction);
+    if (!category) continue;
+    groups.set(category, addTotals(groups.get(category), transaction));
+  }
+
+  return Array.from(groups.entries())
+    .filter(([, totals]) => totals.count >= rule.minTransactions)
+    .map(([category, totals]) => draft(rule, context, category, category, totals, {
+      category: categoryLabel(category),
+      count: totals.count
+    }));
+}
+
+/**
+ * Run every rule over the context and return what they recommend, most CO2e
+ * saved first. A rule can fire once per subject (category or merchant), so the
+ * dedupe keys are unique and re-running over the same data yields the same keys.
+ */
+export function evaluateRecommendationRules(
+  context: RecommendationContext,
+  rules: RecommendationRule[] = RECOMMENDATION_RULES
+): RecommendationDraft[] {
+  const drafts = new Map<string, RecommendationDraft>();
+  for (const rule of rules) {
+    const found = rule.kind === "category-spend" ? evaluateCategorySpend(rule, context)
+      : rule.kind === "low-score-merchant" ? evaluateLowScoreMerchants(rule, context)
+      : evaluateAlternatives(rule, context);
+    for (const recommendation of found) {
+      if (!drafts.has(recommendation.dedupeKey)) drafts.set(recommendation.dedupeKey, recommendation);
+    }
+  }
+
+  return Array.from(drafts.values())
+    .filter(recommendation => recommendation.co2eSavingsKg > 0 || recommendation.spendSavings > 0)
+    .sort((a, b) => b.co2eSavingsKg - a.co2eSavingsKg)
+    .slice(0, MAX_RECOMMENDATIONS);
+}
+
+// The most recent of the user's transactions, their breakdowns and the merchant catalog
+export async function buildRecommendationContext(userId: number, transactions: Transaction[]): Promise<RecommendationContext> {
+  const [user, catalog] = await Promise.all([storage.getUser(userId), storage.getMerchants()]);
+
+  const times = transactions.map(transaction => new Date(transaction.date).getTime());
+  const latest = times.reduce((a, b) => Math.max(a, b), 0);
+  const cutoff = latest - ANALYSIS_WINDOW_DAYS * DAY_MS;
+  const recent = transactions.filter((_, i) => times[i] > cutoff);
+  const earliest = times.filter(time => time > cutoff).reduce((a, b) => Math.min(a, b), latest);
+
+  return {
+    currency: user?.baseCurrency ?? "USD",
+    // A short history still counts as a month so a single import isn't scaled up
+    months: Math.max(1, (latest - earliest + DAY_MS) / (DAYS_PER_MONTH * DAY_MS)),
+    breakdowns: summarizeTransactions(recent, userId).categoryBreakdowns,
+    transactions: recent,
+    catalog
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import type { Recommendation, RecommendationMetrics, Transaction } from "@shared/schema";
+import { captureBaseline, checkFollowThrough } from "./recommendationLifecycle";
+
+let nextId = 1;
+const purchase = (date: string, category: string, amount: number, co2eKg: number): Transaction => ({
+  id: nextId++,
+  date: new Date(`${date}T12:00:00Z`),
+  merchant: category === "Dining" ? "Bistro" : "Market",
+  category,
+  amount,
+  currency: "USD",
+  baseAmount: null,
+  ecoScore: 50,
+  hasAlternatives: false,
+  co2eKg,
+  waterLiters: null,
+  methodologyVersion: null,
+  merchantId: null,
+  scoreExplanation: null,
+  suggestedAlternatives: null,
+  userId: 1,
+  kind: amount < 0 ? "refund" : "purchase",
+  source: "csv",
+  externalId: null,
+  fingerprint: null
+});
+
+const recommendation = (overrides: Partial<Recommendation> = {}): Recommendation => ({
+  id: 1,
+  userId: 1,
+  ruleId: "dining-home-cooking",
+  dedupeKey: "dining-home-cooking:dining",
+  title: "Cook at home a few more nights",
+  description: "",
+  icon: "utensils",
+  potentialImpact: "",
+  co2eSavingsKg: 9,
+  spendSavings: 54,
+  category: "dining",
+  status: "accepted",
+  snoozedUntil: null,
+  statusChangedAt: new Date("2024-04-01T09:00:00Z"),
+  baseline: null,
+  followThrough: null,
+  createdAt: new Date("2024-04-01"),
+  updatedAt: new Date("2024-04-01"),
+  ...overrides
+});
+
+// Nine meals out of 60 USD every ten days from January 1 to March 21, and groceries up to March 30
+const beforeAccepting = [
+  ...["01-01", "01-11", "01-21", "01-31", "02-10", "02-20", "03-01", "03-11", "03-21"]
+    .map(day => purchase(`2024-${day}`, "Dining", 60, 12)),
+  purchase("2024-03-30", "Groceries", 80, 30),
+];
+
+// Half the spend afterwards: 30 USD every ten days
+const afterAccepting = ["04-01", "04-11", "04-21", "05-01", "05-11", "05-21"]
+  .map(day => purchase(`2024-${day}`, "Restaurants", 30, 6));
+
+const ACCEPTED_AT = new Date("2024-04-01T09:00:00Z");
+
+// January 1 to March 30 is 90 days, three months of 30
+const BASELINE: RecommendationMetrics = { from: "2024-01-01", to: "2024-03-30", spend: 180, co2eKg: 36, transactions: 3 };
+
+describe("captureBaseline", () => {
+  it("averages the subject's spending per month up to the last transaction before accepting", () => {
+    expect(captureBaseline(recommendation(), [...beforeAccepting, ...afterAccepting], ACCEPTED_AT)).toEqual(BASELINE);
+  });
+
+  it("counts refunds against spend but not as purchases", () => {
+    const refunded = [...beforeAccepting, purchase("2024-03-25", "Dining", -60, -12)];
+    expect(captureBaseline(recommendation(), refunded, ACCEPTED_AT)).toMatchObject({ spend: 160, co2eKg: 32, transactions: 3 });
+  });
+
+  it("only looks back over the analysis window", () => {
+    const older = [purchase("2023-10-01", "Dining", 600, 120), ...beforeAccepting];
+    expect(captureBaseline(recommendation(), older, ACCEPTED_AT)).toEqual(BASELINE);
+  });
+
+  it("has nothing to measure for a rule that no longer exists", () => {
+    const retired = recommendation({ ruleId: "retired-rule", dedupeKey: "retired-rule:dining" });
+    expect(captureBaseline(retired, beforeAccepting, ACCEPTED_AT)).toBeUndefined();
+  });
+});
+
+describe("checkFollowThrough", () => {
+  const accepted = recommendation({ baseline: BASELINE });
+  const transactions = [...beforeAccepting, ...afterAccepting, purchase("2024-05-29", "Groceries", 80, 30)];
+
+  it("compares the months since the baseline with it", () => {
+    // March 31 to May 29 is 60 days, two months
+    expect(checkFollowThrough(accepted, transactions)).toMatchObject({
+      outcome: "improved",
+      after: { from: "2024-03-31", to: "2024-05-29", spend: 90, co2eKg: 18, transactions: 3 },
+      changes: { spend: -0.5, co2eKg: -0.5, transactions: 0 }
+    });
+  });
+
+  it("waits for a month of follow-up before judging", () => {
+    const early = [...beforeAccepting, ...afterAccepting.slice(0, 3)];
+    expect(checkFollowThrough(accepted, early)).toMatchObject({
+      outcome: "pending",
+      after: { from: "2024-03-31", to: "2024-04-21", spend: 90, co2eKg: 18, transactions: 3 },
+      changes: null
+    });
+  });
+
+  it("calls a change under 10% unchanged and a rise worse", () => {
+    const steady = afterAccepting.map(tx => ({ ...tx, amount: 57, co2eKg: 11 }));
+    expect(checkFollowThrough(accepted, [...transactions, ...steady])?.outcome).toBe("worse");
+    expect(checkFollowThrough(accepted, [...beforeAccepting, ...steady, purchase("2024-05-29", "Groceries", 80, 30)])).toMatchObject({
+      outcome: "unchanged",
+      changes: { spend: -0.05, co2eKg: -0.08, transactions: 0 }
+    });
+  });
+
+  it("judges by spend when the baseline had no footprint, and any spend on nothing as worse", () => {
+    const noFootprint = recommendation({ baseline: { ...BASELINE, co2eKg: 0 } });
+    expect(checkFollowThrough(noFootprint, transactions)).toMatchObject({ outcome: "improved", changes: { co2eKg: null, spend: -0.5 } });
+
+    const nothing = recommendation({ baseline: { ...BASELINE, spend: 0, co2eKg: 0, transactions: 0 } });
+    expect(checkFollowThrough(nothing, transactions)?.outcome).toBe("worse");
+  });
+
+  it("returns nothing without a baseline", () => {
+    expect(checkFollowThrough(recommendation(), transactions)).toBeNull();
+  });
+});
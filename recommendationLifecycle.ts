@@ -0,0 +1,203 @@
+import type {
+  Recommendation,
+  RecommendationFollowThrough,
+  RecommendationMetrics,
+  RecommendationStatusUpdate,
+  Transaction
+} from "@shared/schema";
+import {
+  ANALYSIS_WINDOW_DAYS,
+  DAYS_PER_MONTH,
+  buildRecommendationContext,
+  evaluateRecommendationRules,
+  findRecommendationRule,
+  ruleSubject
+} from "./recommendationEngine";
+import { storage } from "../storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Behavior is only judged once transactions cover this long after accepting
+const MIN_FOLLOW_UP_DAYS = 30;
+// Changes smaller than this either way count as unchanged
+const CHANGE_THRESHOLD = 0.1;
+
+const dayKey = (date: Date) => date.toISOString().split("T")[0];
+const startOfDay = (time: number) => new Date(Math.floor(time / DAY_MS) * DAY_MS);
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Monthly averages of the spending a recommendation is about, over the whole
+ * UTC days `from` to `to`. Undefined when the rule that produced it no longer
+ * exists, since there is then nothing to say what it was about.
+ */
+function measure(recommendation: Recommendation, transactions: Transaction[], from: Date, to: Date): RecommendationMetrics | undefined {
+  const rule = findRecommendationRule(recommendation.ruleId);
+  if (!rule) return undefined;
+  const subject = recommendation.dedupeKey.slice(rule.id.length + 1);
+
+  const end = to.getTime() + DAY_MS;
+  let spend = 0;
+  let co2eKg = 0;
+  let count = 0;
+  for (const transaction of transactions) {
+    const time = new Date(transaction.date).getTime();
+    if (time < from.getTime() || time >= end || ruleSubject(rule, transaction) !== subject) continue;
+    spend += transaction.baseAmount ?? transaction.amount;
+    co2eKg += transaction.co2eKg ?? 0;
+    if (transaction.kind === "purchase") count++;
+  }
+
+  const months = Math.max(1, (end - from.getTime()) / (DAYS_PER_MONTH * DAY_MS));
+  return {
+    from: dayKey(from),
+    to: dayKey(to),
+    spend: round(spend / months, 2),
+    co2eKg: round(co2eKg / months, 1),
+    transactions: round(count / months, 1)
+  };
+}
+
+// Spending on the subject over the analysis window leading up to the latest transaction before accepting
+export function captureBaseline(
+  recommendation: Recommendation,
+  transactions: Transaction[],
+  acceptedAt = new Date()
+): RecommendationMetrics | undefined {
+  const times = transactions
+    .map(transaction => new Date(transaction.date).getTime())
+    .filter(time => time <= acceptedAt.getTime());
+  const latest = times.length > 0 ? times.reduce((a, b) => Math.max(a, b)) : acceptedAt.getTime();
+  const to = startOfDay(latest);
+  const windowStart = to.getTime() - (ANALYSIS_WINDOW_DAYS - 1) * DAY_MS;
+  const earliest = times.filter(time => time >= windowStart).reduce((a, b) => Math.min(a, b), to.getTime());
+
+  return measure(recommendation, transactions, startOfDay(earliest), to);
+}
+
+function relativeChange(after: number, before: number): number | null {
+  return before === 0 ? null : round((after - before) / before, 2);
+}
+
+/**
+ * Compare spending on an accepted recommendation's subject since its baseline
+ * with the baseline itself. The follow-up runs from the day after the baseline
+ * to the latest transaction, so imports that lag behind the calendar don't
+ * look like a change of habit. The outcome goes by CO2e, falling back to spend
+ * and then purchase count when the baseline had none of it.
+ */
+export function checkFollowThrough(recommendation: Recommendation, transactions: Transaction[]): RecommendationFollowThrough | null {
+  const { baseline } = recommendation;
+  if (!baseline) return null;
+
+  const from = new Date(new Date(`${baseline.to}T00:00:00Z`).getTime() + DAY_MS);
+  const latest = transactions.reduce((max, transaction) => Math.max(max, new Date(transaction.date).getTime()), 0);
+  const to = startOfDay(latest);
+  const checkedAt = new Date().toISOString();
+
+  const after = to >= from ? measure(recommendation, transactions, from, to) : undefined;
+  if (!after || (to.getTime() - from.getTime()) / DAY_MS + 1 < MIN_FOLLOW_UP_DAYS) {
+    return { checkedAt, outcome: "pending", after: after ?? null, changes: null };
+  }
+
+  const changes = {
+    spend: relativeChange(after.spend, baseline.spend),
+    co2eKg: relativeChange(after.co2eKg, baseline.co2eKg),
+    transactions: relativeChange(after.transactions, baseline.transactions)
+  };
+  const primary = changes.co2eKg ?? changes.spend ?? changes.transactions;
+  const outcome = primary === null
+    ? (after.spend > 0 ? "worse" : "unchanged")
+    : primary <= -CHANGE_THRESHOLD ? "improved" : primary >= CHANGE_THRESHOLD ? "worse" : "unchanged";
+
+  return { checkedAt, outcome, after, changes };
+}
+
+// Shown to the user: everything except dismissed recommendations and snoozes that haven't run out
+export function isRecommendationActive(recommendation: Recommendation, now = new Date()): boolean {
+  if (recommendation.status === "dismissed") return false;
+  if (recommendation.status === "snoozed") {
+    return recommendation.snoozedUntil !== null && new Date(recommendation.snoozedUntil) <= now;
+  }
+  return true;
+}
+
+/**
+ * Move a recommendation to a new status. Accepting records the baseline that
+ * later imports are compared against; accepting again keeps the original one.
+ * Any other status drops the baseline and follow-through.
+ */
+export async function changeRecommendationStatus(
+  recommendation: Recommendation,
+  update: RecommendationStatusUpdate
+): Promise<Recommendation | undefined> {
+  const now = new Date();
+  const changes: Partial<Recommendation> = {
+    status: update.status,
+    snoozedUntil: update.status === "snoozed" ? update.snoozedUntil ?? null : null,
+    statusChangedAt: now
+  };
+
+  if (update.status !== "accepted") {
+    changes.baseline = null;
+    changes.followThrough = null;
+  } else if (recommendation.status !== "accepted" || !recommendation.baseline) {
+    const transactions = await storage.getTransactions(recommendation.userId!);
+    const accepted = { ...recommendation, baseline: captureBaseline(recommendation, transactions, now) ?? null };
+    changes.baseline = accepted.baseline;
+    changes.followThrough = checkFollowThrough(accepted, transactions);
+  }
+
+  return storage.updateRecommendation(recommendation.id, changes);
+}
+
+export interface FollowThroughSummary {
+  accepted: number;
+  improved: number;
+  unchanged: number;
+  worse: number;
+  pending: number;
+  // Monthly CO2e the user no longer emits on subjects they cut back on
+  co2eKgAvoidedPerMonth: number;
+}
+
+// Whether the advice the user accepted actually changed their spending
+export function summarizeFollowThrough(recommendations: Recommendation[]): FollowThroughSummary {
+  const summary: FollowThroughSummary = { accepted: 0, improved: 0, unchanged: 0, worse: 0, pending: 0, co2eKgAvoidedPerMonth: 0 };
+  for (const recommendation of recommendations) {
+    if (recommendation.status !== "accepted") continue;
+    summary.accepted++;
+
+    const { baseline, followThrough } = recommendation;
+    const outcome = followThrough?.outcome ?? "pending";
+    summary[outcome]++;
+    if (outcome !== "pending" && baseline && followThrough?.after) {
+      summary.co2eKgAvoidedPerMonth += Math.max(0, baseline.co2eKg - followThrough.after.co2eKg);
+    }
+  }
+  summary.co2eKgAvoidedPerMonth = round(summary.co2eKgAvoidedPerMonth, 1);
+  return summary;
+}
+
+/**
+ * Regenerate the user's recommendations from their latest spending, then
+ * re-check every accepted one against the transactions that have arrived
+ * since it was accepted.
+ */
+export async function refreshRecommendations(userId: number): Promise<Recommendation[]> {
+  const transactions = await storage.getTransactions(userId);
+  const drafts = evaluateRecommendationRules(await buildRecommendationContext(userId, transactions));
+  await storage.syncRecommendations(userId, drafts.map(recommendation => ({ ...recommendation, userId })));
+
+  const recommendations = await storage.getRecommendations(userId);
+  const refreshed: Recommendation[] = [];
+  for (const recommendation of recommendations) {
+    if (recommendation.status === "accepted" && recommendation.baseline) {
+      const followThrough = checkFollowThrough(recommendation, transactions);
+      refreshed.push((await storage.updateRecommendation(recommendation.id, { followThrough })) ?? recommendation);
+    } else {
+      refreshed.push(recommendation);
+    }
+  }
+  return refreshed;
+}
@@ -0,0 +1,62 @@
+import { Request, Response, Router } from "express";
+import { ZodError } from "zod";
+import { idParamSchema, recommendationListQuerySchema, recommendationStatusUpdateSchema } from "@shared/schema";
+import { changeRecommendationStatus, isRecommendationActive, summarizeFollowThrough } from "./recommendationLifecycle";
+import { storage } from "../storage";
+import { isAuthenticated } from "../auth";
+
+const recommendationRouter = Router();
+
+// Users only ever see and act on their own recommendations
+recommendationRouter.use(isAuthenticated);
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof ZodError) {
+    return res.status(400).json({ message: `Validation error: ${error.message}` });
+  }
+  console.error(`Failed to ${action}:`, error);
+  res.status(500).json({ message: `Failed to ${action}` });
+}
+
+// Active recommendations, or every one with a given ?status= (or ?status=all)
+recommendationRouter.get("/", async (req: Request, res: Response) => {
+  try {
+    const { status } = recommendationListQuerySchema.parse(req.query);
+    const recommendations = await storage.getRecommendations(req.user!.id);
+    const results = !status
+      ? recommendations.filter(recommendation => isRecommendationActive(recommendation))
+      : status === "all" ? recommendations : recommendations.filter(recommendation => recommendation.status === status);
+
+    res.status(200).json(results.sort((a, b) => b.co2eSavingsKg - a.co2eSavingsKg));
+  } catch (error) {
+    handleError(res, error, "fetch recommendations");
+  }
+});
+
+// How spending changed on each accepted recommendation, with totals across them
+recommendationRouter.get("/follow-through", async (req: Request, res: Response) => {
+  try {
+    const accepted = (await storage.getRecommendations(req.user!.id))
+      .filter(recommendation => recommendation.status === "accepted");
+    res.status(200).json({ summary: summarizeFollowThrough(accepted), recommendations: accepted });
+  } catch (error) {
+    handleError(res, error, "fetch recommendation follow-through");
+  }
+});
+
+// Accept, dismiss, snooze ({ status: "snoozed", snoozedUntil }) or reset a recommendation to new
+recommendationRouter.patch("/:id/status", async (req: Request, res: Response) => {
+  try {
+    const update = recommendationStatusUpdateSchema.parse(req.body);
+    const recommendation = await storage.getRecommendation(idParamSchema.parse(req.params.id));
+    if (!recommendation || recommendation.userId !== req.user!.id) {
+      return res.status(404).json({ message: "Recommendation not found" });
+    }
+
+    res.status(200).json(await changeRecommendationStatus(recommendation, update));
+  } catch (error) {
+    handleError(res, error, "update recommendation status");
+  }
+});
+
+export default recommendationRouter;
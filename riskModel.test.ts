@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { insertRiskAssessmentSchema, type InsertRiskAssessment } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { RiskAnswerError, loadRiskModel, parseRiskModel, scoreRiskAssessment, type RiskModel } from "./riskModel";
+
+const answers: InsertRiskAssessment = {
+  ageGroup: "25-34",
+  investmentTimeframe: "long_term",
+  riskTolerance: 7,
+  financialGoals: "growth",
+  existingInvestments: false,
+  incomeLevel: "medium",
+  savingsPercentage: 10,
+  environmentalPriority: 8
+};
+
+const v1 = loadRiskModel("v1");
+
+// Everything weighs nothing except risk tolerance, read straight off a 0-100 scale
+const scoreIsTolerance: RiskModel = {
+  ...v1,
+  factors: v1.factors.map(factor => factor.answer === "riskTolerance"
+    ? { ...factor, weight: 1, scale: { min: 0, max: 100 } }
+    : { ...factor, weight: 0 })
+};
+
+describe("loadRiskModel", () => {
+  it("loads the v1 model with one factor per answer", () => {
+    expect(v1.version).toBe("risk-v1");
+    expect(v1.factors.map(factor => factor.answer)).toEqual([
+      "riskTolerance",
+      "investmentTimeframe",
+      "ageGroup",
+      "incomeLevel",
+      "savingsPercentage",
+      "existingInvestments",
+      "financialGoals",
+      "environmentalPriority",
+    ]);
+    expect(v1.levels).toEqual([
+      { level: "high", minScore: 65 },
+      { level: "medium", minScore: 40 },
+      { level: "low", minScore: 0 },
+    ]);
+  });
+
+  it("rejects weights that don't add up, missing or repeated factors, and a gap below the lowest level", () => {
+    const reject = (model: unknown, message: string) => expect(() => parseRiskModel(model)).toThrow(message);
+    const [tolerance, ...rest] = v1.factors;
+
+    reject({ ...v1, factors: [{ ...tolerance, weight: 0.4 }, ...rest] }, "factor weights must add up to 1");
+    reject({ ...v1, factors: [{ ...tolerance, weight: 0.15 }, { ...tolerance, weight: 0.15 }, ...rest] }, "each questionnaire answer can only have one factor");
+    reject({ ...v1, factors: [{ ...rest[0], weight: 0.5 }, ...rest.slice(1)] }, "every questionnaire answer must have a factor");
+    reject({ ...v1, levels: v1.levels.slice(0, 2) }, "levels must include one with minScore 0");
+    reject({ ...v1, factors: [{ ...tolerance, options: { low: 0 } }, ...rest] }, "a factor needs either a scale or options");
+  });
+});
+
+describe("scoreRiskAssessment", () => {
+  it("adds up each answer's weighted points", () => {
+    const score = scoreRiskAssessment(v1, answers);
+    expect(score.contributions.map(({ answer, points, contribution }) => [answer, points, contribution])).toEqual([
+      // (7 - 1) / 9 of 0.3
+      ["riskTolerance", 0.67, 20],
+      ["investmentTimeframe", 1, 20],
+      ["ageGroup", 0.85, 12.75],
+      ["incomeLevel", 0.5, 5],
+      // 10% of a 0-30% scale
+      ["savingsPercentage", 0.33, 3.33],
+      ["existingInvestments", 0, 0],
+      ["financialGoals", 0.9, 4.5],
+      ["environmentalPriority", 0.78, 3.89],
+    ]);
+    expect(score).toMatchObject({ modelVersion: "risk-v1", riskScore: 69.47, recommendedRiskLevel: "high" });
+  });
+
+  it("matches choices case-insensitively and caps numbers at the ends of their scale", () => {
+    const score = scoreRiskAssessment(v1, { ...answers, investmentTimeframe: " Short_Term ", savingsPercentage: 60 });
+    expect(score.contributions.find(entry => entry.answer === "investmentTimeframe")?.points).toBe(0);
+    expect(score.contributions.find(entry => entry.answer === "savingsPercentage")?.points).toBe(1);
+  });
+
+  it.each([
+    [0, "low"],
+    [39, "low"],
+    [40, "medium"],
+    [64, "medium"],
+    [65, "high"],
+    [100, "high"],
+  ])("puts a score of %i in the %s level", (riskScore, level) => {
+    expect(scoreRiskAssessment(scoreIsTolerance, { ...answers, riskTolerance: riskScore })).toMatchObject({
+      riskScore,
+      recommendedRiskLevel: level
+    });
+  });
+
+  it("rejects answers the model has no points for", () => {
+    const error = (() => {
+      try {
+        scoreRiskAssessment(v1, { ...answers, investmentTimeframe: "long term", ageGroup: "30" });
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(RiskAnswerError);
+    expect((error as RiskAnswerError).answers).toEqual([
+      { answer: "investmentTimeframe", value: "long term", expected: ["short_term", "medium_term", "long_term"] },
+      { answer: "ageGroup", value: "30", expected: ["18-24", "25-34", "35-44", "45-54", "55-64", "65+"] },
+    ]);
+    expect((error as RiskAnswerError).message).toContain('investmentTimeframe: "long term" is not one of short_term, medium_term, long_term');
+  });
+});
+
+describe("insertRiskAssessmentSchema", () => {
+  it("keeps numeric answers inside the questionnaire's ranges", () => {
+    expect(insertRiskAssessmentSchema.safeParse(answers).success).toBe(true);
+    for (const outOfRange of [
+      { riskTolerance: 0 },
+      { riskTolerance: 11 },
+      { environmentalPriority: 0 },
+      { environmentalPriority: 11 },
+      { savingsPercentage: -1 },
+      { savingsPercentage: 101 },
+      { riskTolerance: 5.5 },
+    ]) {
+      expect(insertRiskAssessmentSchema.safeParse({ ...answers, ...outOfRange }).success).toBe(false);
+    }
+  });
+});
+
+describe("createRiskAssessment", () => {
+  it("saves each retake as the user's next version", async () => {
+    const storage = new MemStorage();
+    const [ada, grace] = [await storage.createUser({ username: "ada", password: "hashed" }), await storage.createUser({ username: "grace", password: "hashed" })];
+    const take = (userId: number, retake: Partial<InsertRiskAssessment> = {}) => {
+      const assessment = { ...answers, ...retake };
+      return storage.createRiskAssessment({ ...assessment, userId, ...scoreRiskAssessment(v1, assessment) });
+    };
+
+    expect(await take(ada.id)).toMatchObject({ version: 1, recommendedRiskLevel: "high", modelVersion: "risk-v1" });
+    expect(await take(grace.id)).toMatchObject({ version: 1 });
+    expect(await take(ada.id, { riskTolerance: 1, investmentTimeframe: "short_term" })).toMatchObject({
+      version: 2,
+      riskScore: 29.47,
+      recommendedRiskLevel: "low"
+    });
+    expect((await storage.getRiskAssessmentHistory(ada.id)).map(assessment => assessment.version)).toEqual([1, 2]);
+    expect((await storage.getRiskAssessment(ada.id))?.version).toBe(2);
+  });
+});
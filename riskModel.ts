@@ -0,0 +1,177 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import type { InsertRiskAssessment, RiskAssessment, RiskFactorContribution } from "@shared/schema";
+
+const DEFAULT_MODEL = "v1";
+const MODELS_DIR = path.resolve(process.cwd(), "data", "risk-models");
+
+// Questionnaire answers a model can weigh
+const RISK_ANSWERS = [
+  "riskTolerance",
+  "investmentTimeframe",
+  "ageGroup",
+  "incomeLevel",
+  "savingsPercentage",
+  "existingInvestments",
+  "financialGoals",
+  "environmentalPriority",
+] as const;
+
+type RiskAnswer = typeof RISK_ANSWERS[number];
+
+const riskFactorSchema = z.object({
+  answer: z.enum(RISK_ANSWERS),
+  label: z.string(),
+  weight: z.number().nonnegative(),
+  // Numeric answers: points rise linearly from 0 at min to 1 at max, clamped
+  scale: z.object({ min: z.number(), max: z.number() })
+    .refine(scale => scale.max > scale.min, { message: "scale max must be above min" })
+    .optional(),
+  // Choice answers: points for each answer, matched case-insensitively
+  options: z.record(z.number().min(0).max(1)).optional(),
+}).refine(factor => Boolean(factor.scale) !== Boolean(factor.options), {
+  message: "a factor needs either a scale or options",
+});
+
+const riskModelSchema = z.object({
+  version: z.string(),
+  description: z.string().optional(),
+  factors: z.array(riskFactorSchema).min(1),
+  // Lowest score for each level
+  levels: z.array(z.object({
+    level: z.enum(["low", "medium", "high"]),
+    minScore: z.number().min(0).max(100),
+  })).min(1),
+}).refine(model => Math.abs(model.factors.reduce((sum, factor) => sum + factor.weight, 0) - 1) < 1e-9, {
+  message: "factor weights must add up to 1",
+}).refine(model => RISK_ANSWERS.every(answer => model.factors.some(factor => factor.answer === answer)), {
+  message: "every questionnaire answer must have a factor",
+}).refine(model => new Set(model.factors.map(factor => factor.answer)).size === model.factors.length, {
+  message: "each questionnaire answer can only have one factor",
+}).refine(model => model.levels.some(level => level.minScore === 0), {
+  message: "levels must include one with minScore 0 so every score has a level",
+});
+
+export type RiskModel = z.infer<typeof riskModelSchema>;
+
+// Answers the model has no points for; scoring them as anything would be a guess
+export class RiskAnswerError extends Error {
+  constructor(public answers: { answer: RiskAnswer; value: string | number | boolean; expected: string[] }[]) {
+    super(answers.map(({ answer, value, expected }) =>
+      `${answer}: "${value}" is not one of ${expected.join(", ")}`
+    ).join("; "));
+    this.name = "RiskAnswerError";
+  }
+}
+
+export interface RiskScore {
+  modelVersion: string;
+  riskScore: number;
+  recommendedRiskLevel: string;
+  contributions: RiskFactorContribution[];
+}
+
+// What changed between two versions of a user's assessment
+export interface RiskAssessmentChange {
+  fromVersion: number;
+  toVersion: number;
+  answers: { answer: RiskAnswer; from: RiskAssessment[RiskAnswer]; to: RiskAssessment[RiskAnswer] }[];
+  scoreChange: number | null;
+  levelChanged: boolean;
+  modelChanged: boolean;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+function pointsFor(factor: RiskModel["factors"][number], value: string | number | boolean): number | undefined {
+  if (factor.scale) {
+    return typeof value === "number" ? clamp((value - factor.scale.min) / (factor.scale.max - factor.scale.min)) : undefined;
+  }
+  const key = String(value).trim().toLowerCase();
+  const match = Object.entries(factor.options!).find(([option]) => option.toLowerCase() === key);
+  return match?.[1];
+}
+
+/**
+ * Score questionnaire answers under a risk model. Each answer gets points
+ * between 0 and 1 from its factor, and the score is the weighted sum on a
+ * 0-100 scale; the level is the highest one whose minimum the score reaches.
+ * Every factor's share of the score is returned so the result can be explained.
+ * Throws RiskAnswerError when an answer has no points in the model.
+ */
+export function scoreRiskAssessment(model: RiskModel, answers: InsertRiskAssessment): RiskScore {
+  const unknown: RiskAnswerError["answers"] = [];
+  const contributions = model.factors.map((factor): RiskFactorContribution => {
+    const value = answers[factor.answer];
+    const points = pointsFor(factor, value);
+    if (points === undefined) {
+      unknown.push({
+        answer: factor.answer,
+        value,
+        expected: factor.options ? Object.keys(factor.options) : [`a number from ${factor.scale!.min} to ${factor.scale!.max}`]
+      });
+    }
+    return {
+      answer: factor.answer,
+      label: factor.label,
+      value,
+      points: round(points ?? 0),
+      weight: factor.weight,
+      contribution: round(factor.weight * (points ?? 0) * 100),
+      recognized: true
+    };
+  });
+
+  if (unknown.length > 0) {
+    throw new RiskAnswerError(unknown);
+  }
+
+  const riskScore = round(contributions.reduce((sum, entry) => sum + entry.contribution, 0));
+  const level = [...model.levels]
+    .sort((a, b) => b.minScore - a.minScore)
+    .find(candidate => riskScore >= candidate.minScore)!;
+
+  return { modelVersion: model.version, riskScore, recommendedRiskLevel: level.level, contributions };
+}
+
+// Compare each assessment with the one before it, oldest first
+export function describeRiskHistory(assessments: RiskAssessment[]): RiskAssessmentChange[] {
+  return assessments.slice(1).map((current, index) => {
+    const previous = assessments[index];
+    return {
+      fromVersion: previous.version,
+      toVersion: current.version,
+      answers: RISK_ANSWERS
+        .filter(answer => previous[answer] !== current[answer])
+        .map(answer => ({ answer, from: previous[answer], to: current[answer] })),
+      scoreChange: previous.riskScore !== null && current.riskScore !== null
+        ? round(current.riskScore - previous.riskScore)
+        : null,
+      levelChanged: previous.recommendedRiskLevel !== current.recommendedRiskLevel,
+      modelChanged: previous.modelVersion !== current.modelVersion
+    };
+  });
+}
+
+// Validate a risk model document; throws a ZodError naming what is wrong
+export function parseRiskModel(document: unknown): RiskModel {
+  return riskModelSchema.parse(document);
+}
+
+// Read and validate data/risk-models/<version>.json
+export function loadRiskModel(version: string): RiskModel {
+  const file = path.join(MODELS_DIR, `${path.basename(version)}.json`);
+  return parseRiskModel(JSON.parse(readFileSync(file, "utf8")));
+}
+
+let defaultModel: RiskModel | null = null;
+
+// Model named by RISK_MODEL, loaded once
+export function getRiskModel(): RiskModel {
+  if (!defaultModel) {
+    defaultModel = loadRiskModel(process.env.RISK_MODEL || DEFAULT_MODEL);
+  }
+  return defaultModel;
+}
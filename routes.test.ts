@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+
+let server: Server;
+let baseUrl: string;
+let cookie: string;
+
+const send = (method: string) => (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+  method,
+  headers: { "Content-Type": "application/json", Cookie: cookie },
+  body: JSON.stringify(body)
+});
+const post = send("POST");
+const patch = send("PATCH");
+const get = async (path: string) => (await fetch(`${baseUrl}${path}`, { headers: { Cookie: cookie } })).json();
+
+beforeAll(async () => {
+  // No background price imports while the tests run
+  process.env.INVESTMENT_REVALUE_INTERVAL_MINUTES = "0";
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const registered = await post("/api/register", { username: "csv-uploader", password: "secret" });
+  cookie = registered.headers.get("set-cookie")!.split(";")[0];
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe("POST /api/upload-csv", () => {
+  const csvData =
+    "date,merchant,category,amount\n" +
+    "2024-03-01,Market,Groceries,12.00\n" +
+    '2024-03-02,"Corner\nShop",Groceries,4.00\n' +
+    "2024-03-03,,Dining,ten\n";
+
+  const issues = [
+    { lineNumber: 5, column: "merchant", reason: "Merchant is missing" },
+    { lineNumber: 5, column: "amount", value: "ten", reason: '"ten" is not a valid amount' },
+  ];
+
+  it("answers a strict upload with a bad row with 422 and the report, importing nothing", async () => {
+    const response = await post("/api/upload-csv", { csvData });
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      message: "CSV validation error: 2 problem(s) found in 1 row(s)",
+      report: { mode: "strict", totalRows: 3, acceptedRows: 0, rejectedRows: 3, issues }
+    });
+
+    expect(await get("/api/transactions")).toEqual([]);
+  });
+
+  it("imports the valid rows of a partial upload and reports the rest", async () => {
+    const response = await post("/api/upload-csv", { csvData, mode: "partial" });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      inserted: 2,
+      report: { mode: "partial", totalRows: 3, acceptedRows: 2, rejectedRows: 1, issues }
+    });
+  });
+
+  it("answers a partial upload without a single valid row with 422", async () => {
+    const response = await post("/api/upload-csv", { csvData: "date,merchant,category,amount\n2024-03-03,,Dining,ten\n", mode: "partial" });
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      message: "No valid rows found in CSV",
+      report: { mode: "partial", totalRows: 1, acceptedRows: 0, rejectedRows: 1, issues: issues.map(issue => ({ ...issue, lineNumber: 2 })) }
+    });
+  });
+});
+
+describe("POST /api/risk-assessment", () => {
+  const answers = {
+    ageGroup: "25-34",
+    investmentTimeframe: "long_term",
+    riskTolerance: 7,
+    financialGoals: "growth",
+    existingInvestments: false,
+    incomeLevel: "medium",
+    savingsPercentage: 10,
+    environmentalPriority: 8
+  };
+
+  it("scores and saves the answers", async () => {
+    const response = await post("/api/risk-assessment", answers);
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ version: 1, riskScore: 69.47, recommendedRiskLevel: "high" });
+  });
+
+  it("answers out-of-range numbers and unknown choices with 400", async () => {
+    expect((await post("/api/risk-assessment", { ...answers, riskTolerance: 11 })).status).toBe(400);
+    expect((await post("/api/risk-assessment", { ...answers, savingsPercentage: 150 })).status).toBe(400);
+
+    const response = await post("/api/risk-assessment", { ...answers, investmentTimeframe: "forever" });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({
+      answers: [{ answer: "investmentTimeframe", value: "forever", expected: ["short_term", "medium_term", "long_term"] }]
+    });
+  });
+});
+
+describe("PATCH /api/user/settings", () => {
+  it("moves the user and their transactions into a new base currency", async () => {
+    await post("/api/upload-csv", { csvData: "date,merchant,category,amount\n2024-04-02,Bakery,Dining,8.00\n" });
+
+    const response = await patch("/api/user/settings", { baseCurrency: "eur" });
+    expect(response.status).toBe(200);
+    const { user, rebasedTransactions } = await response.json();
+    expect(user).toMatchObject({ baseCurrency: "EUR" });
+    expect(rebasedTransactions).toBeGreaterThan(0);
+
+    const transactions: { amount: number; baseAmount: number | null }[] = await get("/api/transactions");
+    expect(transactions).toHaveLength(rebasedTransactions);
+    for (const transaction of transactions) {
+      expect(transaction.baseAmount).not.toBeNull();
+      expect(transaction.baseAmount).not.toBe(transaction.amount);
+    }
+  });
+
+  it("leaves everything as it was when the currency has no rates", async () => {
+    const before = await get("/api/transactions");
+    const response = await patch("/api/user/settings", { baseCurrency: "XTS" });
+    expect(response.status).toBe(422);
+    expect(await get("/api/user")).toMatchObject({ baseCurrency: "EUR" });
+    expect(await get("/api/transactions")).toEqual(before);
+  });
+});
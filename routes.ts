@@ -1,35 +1,101 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
   csvUploadSchema, 
+  csvUploadOptionsSchema,
   insertTransactionSchema, 
   insertSustainabilityScoreSchema,
   insertCashbackRewardSchema,
-  insertInvestmentProfileSchema,
-  insertInvestmentSchema,
+  cashbackRequestSchema,
+  cashbackMonths,
+  cashbackFundingSchema,
+  investmentSaleSchema,
+  investmentCashflowSchema,
+  investmentProfileRequestSchema,
   insertRiskAssessmentSchema,
-  insertGreenInvestmentSchema
+  insertGreenInvestmentSchema,
+  insertInvestmentPriceSchema,
+  insertExchangeRateSchema,
+  userSettingsSchema,
+  scoreHistoryQuerySchema,
+  dateRangeQuerySchema,
+  idParamSchema,
+  type DateRangeQuery,
+  type User,
+  investmentNewsQuerySchema,
+  investmentNewsSchema
 } from "@shared/schema";
-import { parseCSV, CSVParseError } from "./utils/csvParser";
+import { parseCSV, CSVParseError, CSVValidationError, CSV_PRESETS } from "./utils/csvParser";
 import { processTransactions } from "./utils/sustainabilityCalculator";
-import { ecoSearchHandler } from "./utils/ecoSearch";
+import { importTransactions } from "./utils/transactionImport";
+import { getEmissionsEngine } from "./utils/emissionsEngine";
+import { loadMerchantMatcher, seedMerchants } from "./utils/merchantCatalog";
+import { computeScoreHistory, recordScoreSnapshot, ScoreHistoryRangeError } from "./utils/scoreHistory";
+import {
+  computeCategoryBreakdowns,
+  labelBreakdowns,
+  refreshCategoryBreakdowns
+} from "./utils/categoryBreakdowns";
+import { refreshRecommendations } from "./utils/recommendationLifecycle";
+import {
+  createCurrencyConverter,
+  parseExchangeRateDocument,
+  seedExchangeRates,
+  MissingExchangeRateError
+} from "./utils/exchangeRates";
+import { calculateCashback, getCashbackPolicy } from "./utils/cashbackPolicy";
+import {
+  MissingPriceError,
+  importPrices,
+  parsePriceDocument,
+  revalueInvestments,
+  scheduleRevaluation,
+  seedInvestmentPrices
+} from "./utils/investmentPricing";
+import {
+  InvestmentTradeError,
+  getInvestmentHistory,
+  recordInvestmentCashflow,
+  sellInvestment
+} from "./utils/investmentTrading";
+import { getPortfolioAnalytics } from "./utils/portfolioAnalytics";
+import { describeRiskHistory, getRiskModel, RiskAnswerError, scoreRiskAssessment } from "./utils/riskModel";
+import { CashbackFundingError, fundInvestmentFromCashback, ledgerBalances, rebaseCashback, unspentCashback } from "./utils/cashbackLedger";
+import { ecoSearchHandler, findAlternativesForTransaction } from "./utils/ecoSearch";
+import { getLlmClient, LlmError, llmErrorStatus } from "./utils/llmClient";
 import plaidRouter from "./utils/plaidRoutes";
+import merchantRouter from "./utils/merchantRoutes";
+import recommendationRouter from "./utils/recommendationRoutes";
 import { ZodError } from "zod";
-import { setupAuth } from "./auth";
+import { setupAuth, isAuthenticated, isAdmin } from "./auth";
 
-// Authentication middleware
-const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
-  if (req.isAuthenticated()) {
-    return next();
-  }
-  return res.status(401).json({ message: "Authentication required" });
-};
+// The :id of a route; a malformed one throws a ZodError, answered with a 400
+const parseId = (req: Request) => idParamSchema.parse(req.params.id);
+
+// Turn validated YYYY-MM-DD query dates into UTC midnights
+function toDateRange({ from, to }: DateRangeQuery): { from?: Date; to?: Date } {
+  return {
+    from: from ? new Date(`${from}T00:00:00Z`) : undefined,
+    to: to ? new Date(`${to}T00:00:00Z`) : undefined
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
   
+  // Make sure currency conversion and merchant matching have data to work with
+  await seedExchangeRates();
+  await seedMerchants();
+  await seedInvestmentPrices();
+  
+  // Keep holdings valued at the latest prices
+  scheduleRevaluation();
+  
+  // Load and check the emission factors now rather than on the first upload
+  getEmissionsEngine();
+  
   // CSV Upload endpoint
   app.post("/api/upload-csv", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -37,34 +103,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "No CSV data provided" });
       }
       
-      // Parse CSV data
-      const csvRows = parseCSV(req.body.csvData);
+      // Column mapping is optional; without one the bank preset is detected from the headers
+      const options = csvUploadOptionsSchema.parse(req.body);
+      const { mode } = options;
+      
+      // Parse and normalize CSV data, collecting row-level problems for the upload report
+      const { rows: normalizedRows, issues, totalRows } = parseCSV(req.body.csvData, {
+        mapping: options.mapping,
+        preset: options.preset,
+        delimiter: options.delimiter,
+        mode,
+        normalization: {
+          dateFormat: options.dateFormat,
+          decimalSeparator: options.decimalSeparator,
+          signConvention: options.signConvention,
+          currency: options.currency
+        }
+      });
       
-      // Get user ID from authenticated session
-      const userId = req.user!.id;
+      const report = {
+        mode,
+        totalRows,
+        acceptedRows: normalizedRows.length,
+        rejectedRows: totalRows - normalizedRows.length,
+        issues
+      };
       
-      // Process CSV into transactions and calculate sustainability metrics
-      const { 
-        transactions, 
-        sustainabilityScore, 
-        categoryBreakdowns 
-      } = processTransactions(csvRows, userId);
+      if (normalizedRows.length === 0) {
+        return res.status(422).json({ message: "No valid rows found in CSV", report });
+      }
       
-      // Store transactions
-      const savedTransactions = await storage.createTransactions(transactions);
+      // Get user ID from authenticated session
+      const userId = req.user!.id;
       
-      // Store sustainability score
-      const savedScore = await storage.createSustainabilityScore(sustainabilityScore);
+      // Process CSV into transactions, matching merchants and converting amounts into the user's base currency
+      const converter = await createCurrencyConverter(req.user!.baseCurrency);
+      const matcher = await loadMerchantMatcher();
+      const { transactions } = processTransactions(normalizedRows, userId, converter, matcher);
       
-      // Store category breakdowns
-      const savedBreakdowns = await storage.createCategoryBreakdowns(categoryBreakdowns);
+      // Store transactions, skipping rows that were already imported
+      const { inserted, updated, skipped } = await importTransactions(
+        userId,
+        "csv",
+        transactions.map(transaction => ({ transaction }))
+      );
+      
+      // Score and breakdowns are recomputed over the user's whole history, so re-uploads don't double count
+      let savedScore = await storage.getLatestSustainabilityScore(userId);
+      if (inserted.length > 0 || updated.length > 0) {
+        savedScore = await recordScoreSnapshot(userId);
+        await refreshCategoryBreakdowns(userId);
+        await refreshRecommendations(userId);
+      }
       
       res.status(200).json({
         message: "CSV data processed successfully",
-        transactionsCount: savedTransactions.length,
-        sustainabilityScore: savedScore
+        transactionsCount: inserted.length,
+        inserted: inserted.length,
+        updated: updated.length,
+        skipped,
+        sustainabilityScore: savedScore,
+        report
       });
     } catch (error) {
+      if (error instanceof CSVValidationError) {
+        return res.status(422).json({
+          message: `CSV validation error: ${error.message}`,
+          report: {
+            mode: "strict",
+            totalRows: error.totalRows,
+            acceptedRows: 0,
+            rejectedRows: error.totalRows,
+            issues: error.issues
+          }
+        });
+      }
+      
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(422).json({ message: error.message, currency: error.currency });
+      }
+      
       if (error instanceof CSVParseError) {
         return res.status(400).json({ 
           message: `CSV parsing error: ${error.message}`, 
@@ -83,6 +201,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Update the signed-in user's settings; changing the base currency re-converts their transactions
+  app.patch("/api/user/settings", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const settings = userSettingsSchema.parse(req.body);
+      
+      let rebased = 0;
+      let user: User | undefined;
+      if (settings.baseCurrency && settings.baseCurrency !== req.user!.baseCurrency) {
+        const converter = await createCurrencyConverter(settings.baseCurrency);
+        // Fails fast for a currency the rate table doesn't know
+        converter.toBase(1, "USD", new Date());
+        // Convert everything before saving so a missing rate leaves the account untouched
+        const transactions = await storage.getTransactions(userId);
+        const baseAmounts = new Map(transactions.map(tx => [tx.id, converter.toBase(tx.amount, tx.currency, new Date(tx.date))]));
+        const cashback = rebaseCashback(
+          await storage.getCashbackRewards(userId),
+          await storage.getLedgerEntries(userId),
+          converter
+        );
+        // The currency and every amount kept in it are saved together, so a failure can't mix currencies
+        user = await storage.changeBaseCurrency(
+          userId,
+          { ...settings, baseCurrency: converter.baseCurrency },
+          baseAmounts,
+          cashback.rewardAmounts,
+          cashback.entryAmounts
+        );
+        rebased = transactions.length;
+      } else {
+        user = await storage.updateUser(userId, settings);
+      }
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Totals are kept in the base currency, so they follow it
+      if (rebased > 0) {
+        await recordScoreSnapshot(userId);
+        await refreshCategoryBreakdowns(userId);
+        await refreshRecommendations(userId);
+      }
+      
+      // Don't send password to client
+      const { password, ...safeUser } = user;
+      res.status(200).json({ user: safeUser, rebasedTransactions: rebased });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(422).json({ message: error.message, currency: error.currency });
+      }
+      console.error("Error updating user settings:", error);
+      res.status(500).json({ message: "Failed to update user settings" });
+    }
+  });
+  
+  // List stored exchange rates, optionally for ?currency=EUR,GBP
+  app.get("/api/exchange-rates", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const currencies = req.query.currency
+        ? (req.query.currency as string).split(",").map(code => code.trim().toUpperCase())
+        : undefined;
+      const rates = await storage.getExchangeRates(currencies);
+      res.status(200).json(rates);
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+  
+  // Import exchange rates, either as rows or as a `{ base, rates: { date: { currency: rate } } }` document
+  app.post("/api/admin/exchange-rates", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const rates = Array.isArray(req.body)
+        ? req.body.map(rate => insertExchangeRateSchema.parse(rate))
+        : parseExchangeRateDocument(req.body);
+      
+      if (rates.length === 0) {
+        return res.status(400).json({ message: "No exchange rates provided" });
+      }
+      
+      const count = await storage.upsertExchangeRates(rates);
+      res.status(200).json({ imported: count });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(422).json({ message: error.message, currency: error.currency });
+      }
+      console.error("Error importing exchange rates:", error);
+      res.status(500).json({ message: "Failed to import exchange rates" });
+    }
+  });
+  
+  // List the bank export layouts the CSV upload understands
+  app.get("/api/csv-presets", isAuthenticated, (_req: Request, res: Response) => {
+    res.status(200).json(CSV_PRESETS);
+  });
+  
   // Get sustainability score
   app.get("/api/sustainability-score", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -100,6 +321,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Sustainability score per calendar period, recomputed from all of the user's transactions
+  app.get("/api/sustainability-score/history", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const query = scoreHistoryQuerySchema.parse(req.query);
+      const { granularity } = query;
+      const range = toDateRange(query);
+      
+      const transactions = await storage.getTransactionsByDateRange(userId, range.from, range.to);
+      const periods = computeScoreHistory(transactions, userId, granularity, range);
+      
+      res.status(200).json({ granularity, baseCurrency: req.user!.baseCurrency, periods });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof ScoreHistoryRangeError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error fetching sustainability score history:", error);
+      res.status(500).json({ message: "Failed to fetch sustainability score history" });
+    }
+  });
+  
   // Get transactions
   app.get("/api/transactions", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -129,30 +374,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get category breakdowns
-  app.get("/api/category-breakdowns", isAuthenticated, async (req: Request, res: Response) => {
+  // Explain how a transaction's eco score, alternatives flag and footprint were worked out
+  app.get("/api/transactions/:id/explanation", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
-      const breakdowns = await storage.getCategoryBreakdowns(userId);
-      res.status(200).json(breakdowns);
+      const transaction = await storage.getTransactionById(parseId(req));
+      
+      if (!transaction || transaction.userId !== userId) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      // Rows imported before explanations were recorded have none to show
+      if (!transaction.scoreExplanation) {
+        return res.status(404).json({ message: "No score explanation recorded for this transaction" });
+      }
+      
+      res.status(200).json({
+        transactionId: transaction.id,
+        merchant: transaction.merchant,
+        ecoScore: transaction.ecoScore,
+        hasAlternatives: transaction.hasAlternatives,
+        co2eKg: transaction.co2eKg,
+        waterLiters: transaction.waterLiters,
+        explanation: transaction.scoreExplanation
+      });
     } catch (error) {
-      console.error("Error fetching category breakdowns:", error);
-      res.status(500).json({ message: "Failed to fetch category breakdowns" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      console.error("Error fetching score explanation:", error);
+      res.status(500).json({ message: "Failed to fetch score explanation" });
+    }
+  });
+  
+  // Search for greener swaps for what a purchase bought and keep them on the transaction
+  app.post("/api/transactions/:id/alternatives", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const transaction = await storage.getTransactionById(parseId(req));
+      
+      if (!transaction || transaction.userId !== userId) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (transaction.kind !== "purchase") {
+        return res.status(422).json({ message: "Alternatives can only be suggested for purchases" });
+      }
+      
+      const suggestedAlternatives = await findAlternativesForTransaction(transaction);
+      const updated = await storage.updateTransaction(transaction.id, { suggestedAlternatives });
+      res.status(200).json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof LlmError) {
+        console.error("Error finding transaction alternatives:", error);
+        return res.status(llmErrorStatus(error)).json({
+          message: "Failed to find alternatives",
+          reason: error.message
+        });
+      }
+      console.error("Error finding transaction alternatives:", error);
+      res.status(500).json({ message: "Failed to find alternatives" });
     }
   });
   
-  // Get recommendations
-  app.get("/api/recommendations", isAuthenticated, async (req: Request, res: Response) => {
+  // Get category breakdowns
+  app.get("/api/category-breakdowns", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
-      const recommendations = await storage.getRecommendations(userId);
-      res.status(200).json(recommendations);
+      const { from, to } = toDateRange(dateRangeQuerySchema.parse(req.query));
+      
+      // A date window is computed on the fly; the all-time view is kept up to date in storage
+      if (from || to) {
+        return res.status(200).json(labelBreakdowns(await computeCategoryBreakdowns(userId, from, to)));
+      }
+      
+      let breakdowns = await storage.getCategoryBreakdowns(userId);
+      if (breakdowns.length === 0) {
+        // Users whose breakdowns predate derived rows get them built on first read
+        breakdowns = await refreshCategoryBreakdowns(userId);
+      }
+      res.status(200).json(labelBreakdowns(breakdowns));
     } catch (error) {
-      console.error("Error fetching recommendations:", error);
-      res.status(500).json({ message: "Failed to fetch recommendations" });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      console.error("Error fetching category breakdowns:", error);
+      res.status(500).json({ message: "Failed to fetch category breakdowns" });
     }
   });
-
+  
   // Search for sustainable product alternatives
   app.get("/api/eco-search", isAuthenticated, ecoSearchHandler);
 
@@ -168,14 +480,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Calculate and store cashback reward for the month
+  // Calculate and store cashback reward for a month from that month's transactions
   app.post("/api/calculate-cashback", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
-      const { month, year } = req.body;
-
-      if (!month || !year) {
-        return res.status(400).json({ message: "Month and year are required" });
+      const { month, year } = cashbackRequestSchema.parse(req.body);
+
+      const monthIndex = cashbackMonths.indexOf(month);
+      const from = new Date(Date.UTC(year, monthIndex, 1));
+      const to = new Date(Date.UTC(year, monthIndex + 1, 1));
+      // A reward is final once stored, so only whole months are rewarded
+      if (to > new Date()) {
+        return res.status(422).json({ message: `${month} ${year} hasn't ended yet` });
       }
 
       // Check if we already calculated cashback for this month
@@ -184,46 +500,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(200).json(existingReward);
       }
 
-      // Get the latest sustainability score
-      const score = await storage.getLatestSustainabilityScore(userId);
-      if (!score) {
-        return res.status(404).json({ message: "No sustainability score found" });
+      const transactions = await storage.getTransactionsByDateRange(userId, from, to);
+      if (transactions.length === 0) {
+        return res.status(404).json({ message: `No transactions found for ${month} ${year}` });
       }
 
-      // Calculate cashback amount based on eco-score
-      // Higher score = higher cashback percentage with more tiers
-      const baseAmount = 25; // $25 base amount
-      
-      // More dynamic cashback calculation based on eco-score
-      let cashbackMultiplier = 1.0;
-      if (score.overallScore >= 80) {
-        // Excellent eco-score (80-100) - highest rewards
-        cashbackMultiplier = 3.0;
-      } else if (score.overallScore >= 60) {
-        // Good eco-score (60-79) - medium rewards
-        cashbackMultiplier = 2.0; 
-      } else if (score.overallScore >= 40) {
-        // Average eco-score (40-59) - modest rewards
-        cashbackMultiplier = 1.5;
+      const policy = getCashbackPolicy();
+      const converter = await createCurrencyConverter(req.user!.baseCurrency);
+      // Policy amounts are converted at the rate on the month's last day
+      const result = calculateCashback(policy, transactions, userId, converter, new Date(to.getTime() - 1));
+      if (!result.eligible) {
+        return res.status(422).json({
+          message: `Purchases of ${result.calculation.eligibleSpend} ${result.calculation.currency} are below the minimum spend of ${result.calculation.minimumSpend} for cashback`,
+          policyVersion: policy.version,
+          calculation: result.calculation
+        });
       }
-      
-      // Calculate final amount
-      const amount = baseAmount * cashbackMultiplier;
 
-      // Create cashback reward
       const reward = await storage.createCashbackReward({
         userId,
         month,
         year,
-        ecoScore: score.overallScore,
-        amount,
+        ecoScore: result.ecoScore,
+        amount: result.amount,
+        currency: converter.baseCurrency,
         redeemed: false,
         invested: false,
-        date: new Date()
+        date: new Date(),
+        policyVersion: policy.version,
+        calculation: result.calculation
       });
 
       res.status(201).json(reward);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(422).json({ message: error.message, currency: error.currency });
+      }
       console.error("Error calculating cashback:", error);
       res.status(500).json({ message: "Failed to calculate cashback" });
     }
@@ -233,7 +548,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/redeem-cashback/:id", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
-      const rewardId = parseInt(req.params.id);
+      const rewardId = parseId(req);
 
       // Get the reward
       // Direct map access doesn't work, we need to create a method in our storage interface
@@ -246,11 +561,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (reward.redeemed) {
         return res.status(400).json({ message: "Cashback reward already redeemed" });
       }
+      if (unspentCashback(reward, await storage.getLedgerEntries(userId)) === 0) {
+        return res.status(400).json({ message: "Cashback reward already invested" });
+      }
 
-      // Update the reward
-      const updatedReward = await storage.updateCashbackReward(rewardId, { redeemed: true });
+      // Pays out what hasn't been invested and records it in the ledger
+      const updatedReward = await storage.redeemCashbackReward(rewardId);
       res.status(200).json(updatedReward);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
       console.error("Error redeeming cashback:", error);
       res.status(500).json({ message: "Failed to redeem cashback" });
     }
@@ -268,29 +589,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cashback ledger: every credit, redemption and allocation, with account balances
+  app.get("/api/cashback-ledger", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const entries = await storage.getLedgerEntries(req.user!.id);
+      res.status(200).json({ balances: ledgerBalances(entries), entries });
+    } catch (error) {
+      console.error("Error fetching cashback ledger:", error);
+      res.status(500).json({ message: "Failed to fetch cashback ledger" });
+    }
+  });
+
   // Risk assessment survey
   app.post("/api/risk-assessment", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
       const validatedData = insertRiskAssessmentSchema.parse(req.body);
 
-      // Calculate recommended risk level based on survey answers
-      const { riskTolerance, environmentalPriority, investmentTimeframe } = validatedData;
-      let recommendedRiskLevel = "low";
-
-      // Simple algorithm to determine risk level based on risk tolerance, environmental priority and timeframe
-      const riskScore = riskTolerance * 0.5 + environmentalPriority * 0.2;
-      if (riskScore >= 7 && investmentTimeframe === "long_term") {
-        recommendedRiskLevel = "high";
-      } else if (riskScore >= 5 || investmentTimeframe === "medium_term") {
-        recommendedRiskLevel = "medium";
-      }
-
-      // Create or update risk assessment
+      // Score every answer under the current model; earlier versions are kept
       const assessment = await storage.createRiskAssessment({
         ...validatedData,
         userId,
-        recommendedRiskLevel
+        ...scoreRiskAssessment(getRiskModel(), validatedData)
       });
 
       res.status(201).json(assessment);
@@ -298,12 +618,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: `Validation error: ${error.message}` });
       }
+      if (error instanceof RiskAnswerError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}`, answers: error.answers });
+      }
       console.error("Error creating risk assessment:", error);
       res.status(500).json({ message: "Failed to create risk assessment" });
     }
   });
 
-  // Get user's risk assessment
+  // Get user's latest risk assessment
   app.get("/api/risk-assessment", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
@@ -320,11 +643,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Every version of the user's risk assessment, with what changed between them
+  app.get("/api/risk-assessment/history", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const assessments = await storage.getRiskAssessmentHistory(req.user!.id);
+      res.status(200).json({ assessments, changes: describeRiskHistory(assessments) });
+    } catch (error) {
+      console.error("Error fetching risk assessment history:", error);
+      res.status(500).json({ message: "Failed to fetch risk assessment history" });
+    }
+  });
+
   // Create investment profile
   app.post("/api/investment-profile", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = req.user!.id;
-      const validatedData = insertInvestmentProfileSchema.parse(req.body);
+      const validatedData = investmentProfileRequestSchema.parse(req.body);
       
       // Check if user already has a profile
       const existingProfile = await storage.getInvestmentProfile(userId);
@@ -374,9 +708,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "No investment profile found" });
       }
       
-      const updatedProfile = await storage.updateInvestmentProfile(userId, req.body);
+      const updates = investmentProfileRequestSchema.partial().parse(req.body);
+      const updatedProfile = await storage.updateInvestmentProfile(userId, updates);
       res.status(200).json(updatedProfile);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
       console.error("Error updating investment profile:", error);
       res.status(500).json({ message: "Failed to update investment profile" });
     }
@@ -394,8 +732,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create green investment (for admin purposes)
-  app.post("/api/green-investments", isAuthenticated, async (req: Request, res: Response) => {
+  // Create green investment; products set the price symbol and minimum that funding relies on
+  app.post("/api/green-investments", isAdmin, async (req: Request, res: Response) => {
     try {
       const validatedData = insertGreenInvestmentSchema.parse(req.body);
       const investment = await storage.createGreenInvestment(validatedData);
@@ -409,34 +747,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Make an investment
-  app.post("/api/investments", isAuthenticated, async (req: Request, res: Response) => {
+  // Prices of green investment products, optionally for ?symbol=GRNB,ICLN
+  app.get("/api/investment-prices", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const userId = req.user!.id;
-      const validatedData = insertInvestmentSchema.parse(req.body);
+      const symbols = req.query.symbol
+        ? (req.query.symbol as string).split(",").map(symbol => symbol.trim().toUpperCase())
+        : undefined;
+      const prices = await storage.getInvestmentPrices(symbols);
+      res.status(200).json(prices.sort((a, b) => a.symbol.localeCompare(b.symbol) || a.date.localeCompare(b.date)));
+    } catch (error) {
+      console.error("Error fetching investment prices:", error);
+      res.status(500).json({ message: "Failed to fetch investment prices" });
+    }
+  });
+  
+  // Import prices, either as rows or as a `{ currency, prices: { symbol: { date: price } } }` document,
+  // then revalue holdings at them
+  app.post("/api/admin/investment-prices", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const prices = Array.isArray(req.body)
+        ? req.body.map(price => insertInvestmentPriceSchema.parse(price))
+        : parsePriceDocument(req.body);
       
-      // Ensure user has a profile
-      const profile = await storage.getInvestmentProfile(userId);
-      if (!profile) {
-        return res.status(400).json({ message: "Investment profile required before investing" });
+      if (prices.length === 0) {
+        return res.status(400).json({ message: "No investment prices provided" });
       }
       
-      // Create the investment
-      const investment = await storage.createInvestment({
-        ...validatedData,
-        userId,
-        profileId: profile.id
-      });
-      
-      // Update profile's current value
-      const totalValue = await storage.getTotalInvestmentValue(userId);
-      await storage.updateInvestmentProfile(userId, { currentValue: totalValue });
-      
-      res.status(201).json(investment);
+      const imported = await importPrices({ name: "admin import", fetchPrices: async () => prices });
+      res.status(200).json({ imported, ...(await revalueInvestments()) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      console.error("Error importing investment prices:", error);
+      res.status(500).json({ message: "Failed to import investment prices" });
+    }
+  });
+  
+  // Invest unspent cashback in a green investment product
+  app.post("/api/investments", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const funding = cashbackFundingSchema.parse(req.body);
+      const { investment, entries } = await fundInvestmentFromCashback(req.user!, funding);
+      res.status(201).json({ ...investment, ledgerEntries: entries });
     } catch (error) {
       if (error instanceof ZodError) {
         return res.status(400).json({ message: `Validation error: ${error.message}` });
       }
+      if (error instanceof CashbackFundingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof MissingPriceError) {
+        return res.status(422).json({ message: error.message, symbol: error.symbol });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(422).json({ message: error.message, currency: error.currency });
+      }
       console.error("Error creating investment:", error);
       res.status(500).json({ message: "Failed to create investment" });
     }
@@ -462,22 +828,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get investment news and recommendations using Gemini API
-  app.get("/api/investment-news", isAuthenticated, async (req: Request, res: Response) => {
+  // Sell some or all of a holding at its latest price ({ units } or {} for everything)
+  app.post("/api/investments/:id/sell", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { riskLevel } = req.query;
-      
-      if (!process.env.GEMINI_API_KEY) {
-        return res.status(500).json({ message: "Gemini API key not configured" });
+      const { units } = investmentSaleSchema.parse(req.body);
+      const investment = await storage.getInvestmentById(parseId(req));
+      if (!investment || investment.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Investment not found" });
       }
-      
-      const { GoogleGenerativeAI } = await import("@google/generative-ai");
-      const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro" });
+
+      res.status(200).json(await sellInvestment(req.user!, investment, units));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof InvestmentTradeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof MissingPriceError) {
+        return res.status(422).json({ message: error.message, symbol: error.symbol });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(422).json({ message: error.message, currency: error.currency });
+      }
+      console.error("Error selling investment:", error);
+      res.status(500).json({ message: "Failed to sell investment" });
+    }
+  });
+
+  // Every buy, sale, dividend and fee on a holding, with the position they add up to
+  app.get("/api/investments/:id/history", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const investment = await storage.getInvestmentById(parseId(req));
+      if (!investment || investment.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+
+      res.status(200).json({ investment, ...(await getInvestmentHistory(investment)) });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      console.error("Error fetching investment history:", error);
+      res.status(500).json({ message: "Failed to fetch investment history" });
+    }
+  });
+
+  // Record a dividend or fee reported by a product's provider against a holding
+  app.post("/api/admin/investments/:id/transactions", isAdmin, async (req: Request, res: Response) => {
+    try {
+      const cashflow = investmentCashflowSchema.parse(req.body);
+      const investment = await storage.getInvestmentById(parseId(req));
+      if (!investment || investment.userId === null) {
+        return res.status(404).json({ message: "Investment not found" });
+      }
+
+      res.status(201).json(await recordInvestmentCashflow(investment, cashflow));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof InvestmentTradeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error recording investment transaction:", error);
+      res.status(500).json({ message: "Failed to record investment transaction" });
+    }
+  });
+
+  // Returns, allocation, unrealized gains and ESG score of the user's portfolio
+  app.get("/api/portfolio/analytics", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      res.status(200).json(await getPortfolioAnalytics(req.user!));
+    } catch (error) {
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(422).json({ message: error.message, currency: error.currency });
+      }
+      console.error("Error calculating portfolio analytics:", error);
+      res.status(500).json({ message: "Failed to calculate portfolio analytics" });
+    }
+  });
+
+  // Get investment news and recommendations from the configured language model
+  app.get("/api/investment-news", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const { riskLevel } = investmentNewsQuerySchema.parse(req.query);
       
       // Generate sustainable investment recommendations based on risk level
-      const riskLevelParam = riskLevel || "medium";
-      const prompt = `Provide 3 current investment opportunities in sustainable or environmentally-friendly companies or green bonds that match a ${riskLevelParam} risk profile. For each, include: 
+      const prompt = `Provide 3 current investment opportunities in sustainable or environmentally-friendly companies or green bonds that match a ${riskLevel} risk profile. For each, include: 
       1. Name of company/fund/bond 
       2. Environmental sector (e.g., renewable energy, conservation) 
       3. Current price range 
@@ -501,19 +939,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ]
       }`;
       
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const textResult = response.text();
-      
-      // Parse the JSON from the text response
-      const jsonMatch = textResult.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        return res.status(500).json({ message: "Failed to parse investment recommendations" });
-      }
-      
-      const investmentData = JSON.parse(jsonMatch[0]);
+      const investmentData = await getLlmClient().generateStructured({
+        task: "investment-news",
+        prompt,
+        tier: "capable"
+      }, investmentNewsSchema);
       res.status(200).json(investmentData);
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: `Validation error: ${error.message}` });
+      }
+      if (error instanceof LlmError) {
+        console.error("Error fetching investment news:", error);
+        return res.status(llmErrorStatus(error)).json({
+          message: "Failed to fetch investment recommendations",
+          reason: error.message
+        });
+      }
       console.error("Error fetching investment news:", error);
       res.status(500).json({ message: "Failed to fetch investment recommendations" });
     }
@@ -521,6 +963,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Register Plaid routes
   app.use('/api/plaid', plaidRouter);
+  
+  // Merchant catalog maintenance
+  app.use('/api/admin/merchants', merchantRouter);
+  
+  // Recommendations and what the user did with them
+  app.use('/api/recommendations', recommendationRouter);
 
   // Check for Plaid environment variables
   if (!process.env.PLAID_CLIENT_ID || !process.env.PLAID_SECRET) {
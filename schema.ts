@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, real, boolean, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, real, boolean, json, date, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,16 +8,64 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name"),
+  baseCurrency: text("base_currency").notNull().default("USD"), // ISO 4217, totals are reported in it
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   name: true,
+  baseCurrency: true,
+});
+
+export const userSettingsSchema = z.object({
+  name: z.string().optional(),
+  baseCurrency: z.string().length(3).toUpperCase().optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserSettings = z.infer<typeof userSettingsSchema>;
+
+// How the scorer arrived at a transaction's eco score, alternatives flag and footprint
+export type ScoreExplanation = {
+  ecoScore: {
+    score: number;
+    source: "merchant" | "category" | "default";
+    // Catalog entry the merchant matched, when source is "merchant"
+    merchant?: {
+      id: number;
+      name: string;
+      matchedName: string;
+      method: "exact" | "alias" | "fuzzy";
+      confidence: number;
+      evidence: MerchantEvidence[];
+    };
+    // Category rating that applied, when source is "category"
+    categoryRule?: string;
+  };
+  category: {
+    original: string;
+    applied: string;
+  };
+  alternatives: {
+    hasAlternatives: boolean;
+    reason: string;
+  };
+  // Absent for credits, which carry no footprint
+  emissions?: {
+    methodologyVersion: string;
+    factorCategory: string;
+    sector: string;
+    co2eKgPerUnit: number;
+    waterLitersPerUnit: number;
+    // Spend the factors were applied to, in the factor table's currency
+    spend: number;
+    spendCurrency: string;
+    co2eKg: number;
+    waterLiters: number;
+  };
+};
 
 // Transaction schema
 export const transactions = pgTable("transactions", {
@@ -25,19 +73,126 @@ export const transactions = pgTable("transactions", {
   date: timestamp("date").notNull(),
   merchant: text("merchant").notNull(),
   category: text("category").notNull(),
-  amount: real("amount").notNull(),
+  amount: real("amount").notNull(), // in `currency`
+  currency: text("currency").notNull().default("USD"),
+  baseAmount: real("base_amount"), // amount converted to the user's base currency on the transaction date
   ecoScore: integer("eco_score").notNull(),
   hasAlternatives: boolean("has_alternatives").notNull().default(false),
-  userId: integer("user_id").references(() => users.id)
-});
-
-export const insertTransactionSchema = createInsertSchema(transactions).omit({
+  co2eKg: real("co2e_kg"), // estimated footprint of this purchase, negative for refunds
+  waterLiters: real("water_liters"),
+  methodologyVersion: text("methodology_version"), // emission factor table the estimates came from
+  merchantId: integer("merchant_id").references(() => merchants.id, { onDelete: "set null" }), // catalog entry the merchant matched
+  scoreExplanation: json("score_explanation").$type<ScoreExplanation>(),
+  suggestedAlternatives: json("suggested_alternatives").$type<SuggestedAlternatives>(), // eco-search run for this purchase
+  userId: integer("user_id").references(() => users.id),
+  kind: text("kind").notNull().default("purchase"), // purchase, refund, credit
+  source: text("source").notNull().default("csv"), // csv, plaid
+  externalId: text("external_id"), // Plaid transaction_id, or fingerprint-based id for CSV rows
+  fingerprint: text("fingerprint"), // hash of date, merchant and amount, shared across sources
+}, (table) => [
+  uniqueIndex("transactions_user_source_external_id_idx").on(table.userId, table.source, table.externalId),
+  index("transactions_user_fingerprint_idx").on(table.userId, table.fingerprint),
+  index("transactions_user_date_idx").on(table.userId, table.date),
+]);
+
+export const insertTransactionSchema = createInsertSchema(transactions, {
+  // Written by the scorer and eco-search, never by clients
+  scoreExplanation: z.custom<ScoreExplanation>().nullable().optional(),
+  suggestedAlternatives: z.custom<SuggestedAlternatives>().nullable().optional(),
+}).omit({
   id: true,
 });
 
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 
+// Exchange rate schema - units of `currency` per US dollar on a given day
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  currency: text("currency").notNull(),
+  rate: real("rate").notNull(),
+}, (table) => [
+  uniqueIndex("exchange_rates_date_currency_idx").on(table.date, table.currency),
+]);
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date"),
+  currency: z.string().length(3).toUpperCase(),
+  rate: z.number().positive(),
+}).omit({
+  id: true,
+});
+
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+
+// Merchant catalog schema - known merchants with the evidence behind their eco score
+export type MerchantEvidence = {
+  source: string;
+  summary: string;
+  url?: string;
+};
+
+export const merchants = pgTable("merchants", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  normalizedName: text("normalized_name").notNull().unique(), // name as it looks after descriptor normalization
+  aliases: json("aliases").$type<string[]>().notNull().default([]), // other spellings seen on statements
+  category: text("category").notNull(),
+  ecoScore: integer("eco_score").notNull(),
+  evidence: json("evidence").$type<MerchantEvidence[]>().notNull().default([]),
+  hasAlternatives: boolean("has_alternatives").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+const merchantEvidenceSchema = z.object({
+  source: z.string().min(1),
+  summary: z.string().min(1),
+  url: z.string().url().optional(),
+});
+
+export const insertMerchantSchema = createInsertSchema(merchants, {
+  name: z.string().trim().min(1),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+  category: z.string().trim().min(1),
+  ecoScore: z.number().int().min(0).max(100),
+  evidence: z.array(merchantEvidenceSchema).default([]),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+// What clients send; the normalized name is derived from `name`
+export const merchantInputSchema = insertMerchantSchema.omit({
+  normalizedName: true,
+});
+
+export type InsertMerchant = z.infer<typeof insertMerchantSchema>;
+export type MerchantInput = z.infer<typeof merchantInputSchema>;
+export type Merchant = typeof merchants.$inferSelect;
+
+// Plaid item schema - one row per institution a user has linked
+export const plaidItems = pgTable("plaid_items", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  itemId: text("item_id").notNull().unique(),
+  accessToken: text("access_token").notNull(), // encrypted at rest, see server/utils/tokenCipher.ts
+  institutionId: text("institution_id"),
+  institutionName: text("institution_name"),
+  cursor: text("cursor"), // transactions/sync position, null until the first sync
+  lastSyncedAt: timestamp("last_synced_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertPlaidItemSchema = createInsertSchema(plaidItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPlaidItem = z.infer<typeof insertPlaidItemSchema>;
+export type PlaidItem = typeof plaidItems.$inferSelect;
+
 // Sustainability score schema
 export const sustainabilityScores = pgTable("sustainability_scores", {
   id: serial("id").primaryKey(),
@@ -56,14 +211,18 @@ export const insertSustainabilityScoreSchema = createInsertSchema(sustainability
 export type InsertSustainabilityScore = z.infer<typeof insertSustainabilityScoreSchema>;
 export type SustainabilityScore = typeof sustainabilityScores.$inferSelect;
 
-// Category breakdown schema
+// Category breakdown schema - per-category totals derived from the user's transactions
 export const categoryBreakdowns = pgTable("category_breakdowns", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
-  category: text("category").notNull(),
-  amount: real("amount").notNull(),
+  category: text("category").notNull(), // canonical taxonomy key
+  amount: real("amount").notNull(), // net spend in the user's base currency
   ecoScore: integer("eco_score").notNull(),
-});
+  transactionCount: integer("transaction_count").notNull().default(0),
+  co2eKg: real("co2e_kg").notNull().default(0),
+}, (table) => [
+  uniqueIndex("category_breakdowns_user_category_idx").on(table.userId, table.category),
+]);
 
 export const insertCategoryBreakdownSchema = createInsertSchema(categoryBreakdowns).omit({
   id: true,
@@ -72,24 +231,83 @@ export const insertCategoryBreakdownSchema = createInsertSchema(categoryBreakdow
 export type InsertCategoryBreakdown = z.infer<typeof insertCategoryBreakdownSchema>;
 export type CategoryBreakdown = typeof categoryBreakdowns.$inferSelect;
 
-// Recommendation schema
+// Recommendation schema - generated by the recommendation rules from the user's spending
+export const recommendationStatuses = ["new", "accepted", "dismissed", "snoozed"] as const;
+export type RecommendationStatus = typeof recommendationStatuses[number];
+
+// Monthly averages of the spending a recommendation is about, over [from, to]
+export type RecommendationMetrics = {
+  from: string; // YYYY-MM-DD
+  to: string;
+  spend: number;
+  co2eKg: number;
+  transactions: number;
+};
+
+// How spending on the subject changed since the recommendation was accepted
+export type RecommendationFollowThrough = {
+  checkedAt: string;
+  // Pending until enough time has passed since accepting to judge
+  outcome: "improved" | "unchanged" | "worse" | "pending";
+  after: RecommendationMetrics | null;
+  // Relative change from the baseline, e.g. -0.25 for a quarter less; null when the baseline was zero
+  changes: { spend: number | null; co2eKg: number | null; transactions: number | null } | null;
+};
+
 export const recommendations = pgTable("recommendations", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
+  ruleId: text("rule_id").notNull(), // rule that produced it
+  dedupeKey: text("dedupe_key").notNull(), // rule and subject, e.g. "low-score-merchant:fast fashion co"
   title: text("title").notNull(),
   description: text("description").notNull(),
   icon: text("icon").notNull(),
   potentialImpact: text("potential_impact").notNull(),
+  co2eSavingsKg: real("co2e_savings_kg").notNull().default(0), // per month
+  spendSavings: real("spend_savings").notNull().default(0), // per month, in the user's base currency
   category: text("category").notNull(),
-});
+  status: text("status").$type<RecommendationStatus>().notNull().default("new"),
+  snoozedUntil: timestamp("snoozed_until"), // hidden until then while snoozed
+  statusChangedAt: timestamp("status_changed_at"),
+  baseline: json("baseline").$type<RecommendationMetrics>(), // spending on the subject when accepted
+  followThrough: json("follow_through").$type<RecommendationFollowThrough>(), // refreshed after each import
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("recommendations_user_dedupe_key_idx").on(table.userId, table.dedupeKey),
+]);
 
+// Status and follow-through change through the lifecycle routes, not through generation
 export const insertRecommendationSchema = createInsertSchema(recommendations).omit({
   id: true,
+  status: true,
+  snoozedUntil: true,
+  statusChangedAt: true,
+  baseline: true,
+  followThrough: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export type InsertRecommendation = z.infer<typeof insertRecommendationSchema>;
 export type Recommendation = typeof recommendations.$inferSelect;
 
+// What a user can do with a recommendation; snoozing needs a date in the future
+export const recommendationStatusUpdateSchema = z.object({
+  status: z.enum(recommendationStatuses),
+  snoozedUntil: z.coerce.date().optional(),
+}).refine(
+  (update) => update.status !== "snoozed" || (update.snoozedUntil !== undefined && update.snoozedUntil > new Date()),
+  { message: "`snoozedUntil` must be a future date when snoozing", path: ["snoozedUntil"] }
+);
+
+export type RecommendationStatusUpdate = z.infer<typeof recommendationStatusUpdateSchema>;
+
+export const recommendationListQuerySchema = z.object({
+  // Without a status, dismissed and still-snoozed recommendations are left out
+  status: z.enum([...recommendationStatuses, "all"]).optional(),
+});
+
 // CSV upload schema
 export const csvUploadSchema = z.object({
   date: z.string(),
@@ -100,21 +318,136 @@ export const csvUploadSchema = z.object({
 
 export type CSVRow = z.infer<typeof csvUploadSchema>;
 
+// Date layouts statement dates can be read with; "auto" handles ISO and unambiguous dates
+export const csvDateFormats = ["auto", "YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY"] as const;
+
+// Maps our fields to the header names of a bank's CSV export
+export const csvColumnMappingSchema = z.object({
+  date: z.string().min(1),
+  merchant: z.string().min(1),
+  category: z.string().min(1).optional(),
+  amount: z.string().min(1).optional(),
+  // Some banks split money out and money in across two columns
+  debit: z.string().min(1).optional(),
+  credit: z.string().min(1).optional(),
+  // Set when the export shows purchases as negative amounts
+  negateAmount: z.boolean().optional(),
+  dateFormat: z.enum(csvDateFormats).optional(),
+}).refine(
+  (mapping) => mapping.amount || mapping.debit || mapping.credit,
+  { message: "Mapping needs an amount column or debit/credit columns" }
+);
+
+export type CSVColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+
+// Options accepted alongside csvData by the CSV upload endpoint
+export const csvUploadOptionsSchema = z.object({
+  mapping: csvColumnMappingSchema.optional(),
+  preset: z.string().optional(),
+  delimiter: z.string().length(1).optional(),
+  mode: z.enum(["strict", "partial"]).default("strict"),
+  // Overrides the date format of the mapping or preset
+  dateFormat: z.enum(csvDateFormats).optional(),
+  decimalSeparator: z.enum(["auto", ".", ","]).optional(),
+  signConvention: z.enum(["debit_positive", "debit_negative"]).optional(),
+  // ISO 4217 code for amounts without a currency symbol
+  currency: z.string().length(3).optional(),
+});
+
+export type CSVUploadOptions = z.infer<typeof csvUploadOptionsSchema>;
+
+// Numeric id in a route path, e.g. /api/transactions/:id; serial ids are positive 32-bit integers
+export const idParamSchema = z.string()
+  .regex(/^\d+$/, "Expected a numeric id")
+  .transform(Number)
+  .pipe(z.number().int().positive().max(2147483647));
+
+// Optional date window for reports; YYYY-MM-DD, `from` inclusive and `to` exclusive
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+  // Reject days the month doesn't have, e.g. 2024-02-30, which Date would roll over into March
+  .refine(value => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Not a calendar date");
+const dateRangeFields = { from: isoDate.optional(), to: isoDate.optional() };
+const isOrderedRange = (range: { from?: string; to?: string }) => !range.from || !range.to || range.from < range.to;
+
+export const dateRangeQuerySchema = z.object(dateRangeFields)
+  .refine(isOrderedRange, { message: "`from` must be before `to`" });
+
+// Query for the sustainability score time series
+export const scoreGranularities = ["week", "month", "year"] as const;
+
+export const scoreHistoryQuerySchema = z.object({
+  ...dateRangeFields,
+  granularity: z.enum(scoreGranularities).default("month"),
+}).refine(isOrderedRange, { message: "`from` must be before `to`" });
+
+export type DateRangeQuery = z.infer<typeof dateRangeQuerySchema>;
+export type ScoreGranularity = typeof scoreGranularities[number];
+export type ScoreHistoryQuery = z.infer<typeof scoreHistoryQuerySchema>;
+
 // Cashback rewards schema
+// How a cashback policy arrived at a reward; money is in `currency`, the user's base currency
+export type CashbackCalculation = {
+  currency: string;
+  transactionCount: number;
+  // Net purchases in the month, refunds deducted
+  eligibleSpend: number;
+  minimumSpend: number;
+  tier: { minScore: number; rate: number };
+  tierReward: number;
+  categoryBonuses: { category: string; spend: number; rate: number; bonus: number }[];
+  uncapped: number;
+  cap: number;
+};
+
 export const cashbackRewards = pgTable("cashback_rewards", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
-  month: text("month").notNull(),
+  month: text("month").notNull(), // full month name, e.g. "March"
   year: integer("year").notNull(),
-  ecoScore: integer("eco_score").notNull(),
+  ecoScore: integer("eco_score").notNull(), // score of the month's purchases
   amount: real("amount").notNull(),
+  currency: text("currency").notNull().default("USD"), // owner's base currency, rebased along with it
   redeemed: boolean("redeemed").notNull().default(false),
   invested: boolean("invested").notNull().default(false),
   date: timestamp("date").notNull().defaultNow(),
+  policyVersion: text("policy_version"), // cashback policy that produced the amount; null for rewards from before policies
+  calculation: json("calculation").$type<CashbackCalculation>(),
+}, (table) => [
+  // One reward per user and month, so concurrent calculations can't both be credited
+  uniqueIndex("cashback_rewards_user_month_idx").on(table.userId, table.month, table.year),
+]);
+
+export const insertCashbackRewardSchema = createInsertSchema(cashbackRewards, {
+  calculation: z.custom<CashbackCalculation>().nullable().optional(),
+}).omit({
+  id: true,
 });
 
-export const insertCashbackRewardSchema = createInsertSchema(cashbackRewards).omit({
-  id: true,
+export const cashbackMonths = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+] as const;
+
+// Month as a number (1-12) or an English name or abbreviation, normalized to the full name
+const cashbackMonthSchema = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const text = String(value).trim().toLowerCase();
+  const month = /^\d+$/.test(text)
+    ? cashbackMonths[Number(text) - 1]
+    : cashbackMonths.find((name) => text.length >= 3 && name.toLowerCase().startsWith(text));
+  if (!month) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Expected a month name or a number from 1 to 12" });
+    return z.NEVER;
+  }
+  return month;
+});
+
+export const cashbackRequestSchema = z.object({
+  month: cashbackMonthSchema,
+  year: z.coerce.number().int().min(2000).max(2100),
 });
 
 export type InsertCashbackReward = z.infer<typeof insertCashbackRewardSchema>;
@@ -137,6 +470,12 @@ export const insertInvestmentProfileSchema = createInsertSchema(investmentProfil
   updatedAt: true,
 });
 
+// What a user may set on their own profile; its value is kept up to date by the server
+export const investmentProfileRequestSchema = insertInvestmentProfileSchema.pick({
+  riskLevel: true,
+  initialInvestment: true,
+});
+
 export type InsertInvestmentProfile = z.infer<typeof insertInvestmentProfileSchema>;
 export type InvestmentProfile = typeof investmentProfiles.$inferSelect;
 
@@ -154,7 +493,11 @@ export const investments = pgTable("investments", {
   lastUpdated: timestamp("last_updated").notNull().defaultNow(),
   esgRating: text("esg_rating").notNull(),
   description: text("description").notNull(),
-  performanceData: json("performance_data").$type<number[]>(),
+  performanceData: json("performance_data").$type<number[]>(), // value at each of the latest prices, oldest first
+  // Holdings bought through a green investment product are valued from its prices;
+  // earlier investments have neither and keep the values they were created with
+  greenInvestmentId: integer("green_investment_id").references(() => greenInvestments.id),
+  units: real("units"),
 });
 
 export const insertInvestmentSchema = createInsertSchema(investments).omit({
@@ -165,6 +508,53 @@ export const insertInvestmentSchema = createInsertSchema(investments).omit({
 export type InsertInvestment = z.infer<typeof insertInvestmentSchema>;
 export type Investment = typeof investments.$inferSelect;
 
+// Immutable log of everything that happened to a holding; its units and cost are derived from it.
+// Amounts are cash in the user's base currency and always positive.
+export const investmentTransactionKinds = ["buy", "sell", "dividend", "fee"] as const;
+
+export type InvestmentTransactionKind = typeof investmentTransactionKinds[number];
+
+export const investmentTransactions = pgTable("investment_transactions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  investmentId: integer("investment_id").notNull().references(() => investments.id),
+  kind: text("kind").$type<InvestmentTransactionKind>().notNull(),
+  units: real("units"), // buys and sells of priced holdings
+  price: real("price"), // per unit, in priceCurrency
+  priceCurrency: text("price_currency"),
+  amount: real("amount").notNull(),
+  costBasis: real("cost_basis"), // sells: what the units sold had cost
+  realizedGain: real("realized_gain"), // sells: amount less costBasis
+  date: timestamp("date").notNull().defaultNow(),
+}, (table) => [
+  index("investment_transactions_investment_idx").on(table.investmentId),
+  index("investment_transactions_user_idx").on(table.userId),
+]);
+
+export const insertInvestmentTransactionSchema = createInsertSchema(investmentTransactions, {
+  kind: z.enum(investmentTransactionKinds),
+  amount: z.number().nonnegative(),
+}).omit({
+  id: true,
+});
+
+export type InsertInvestmentTransaction = z.infer<typeof insertInvestmentTransactionSchema>;
+export type InvestmentTransaction = typeof investmentTransactions.$inferSelect;
+
+// Sell some units of a holding, or all of them when units is left out
+export const investmentSaleSchema = z.object({
+  units: z.coerce.number().positive().optional(),
+});
+
+// Dividends paid and fees charged on a holding, as reported by the product's provider
+export const investmentCashflowSchema = z.object({
+  kind: z.enum(["dividend", "fee"]),
+  amount: z.coerce.number().positive(),
+  date: z.coerce.date().optional(),
+});
+
+export type InvestmentCashflow = z.infer<typeof investmentCashflowSchema>;
+
 // Green investment recommendations schema
 export const greenInvestments = pgTable("green_investments", {
   id: serial("id").primaryKey(),
@@ -179,19 +569,110 @@ export const greenInvestments = pgTable("green_investments", {
   sector: text("sector").notNull(),
   logoUrl: text("logo_url"),
   performanceHistory: json("performance_history").$type<number[]>(),
+  symbol: text("symbol").unique(), // ticker its prices are imported under; unpriced products can't be bought
 });
 
-export const insertGreenInvestmentSchema = createInsertSchema(greenInvestments).omit({
+export const insertGreenInvestmentSchema = createInsertSchema(greenInvestments, {
+  symbol: z.string().min(1).toUpperCase().nullable().optional(),
+}).omit({
   id: true,
 });
 
 export type InsertGreenInvestment = z.infer<typeof insertGreenInvestmentSchema>;
 export type GreenInvestment = typeof greenInvestments.$inferSelect;
 
-// Risk assessment survey schema
+// Closing price of one unit of a green investment product on a given day
+export const investmentPrices = pgTable("investment_prices", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  price: real("price").notNull(),
+  currency: text("currency").notNull().default("USD"),
+}, (table) => [
+  uniqueIndex("investment_prices_symbol_date_idx").on(table.symbol, table.date),
+]);
+
+export const insertInvestmentPriceSchema = createInsertSchema(investmentPrices, {
+  symbol: z.string().min(1).toUpperCase(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date"),
+  price: z.number().positive(),
+  currency: z.string().length(3).toUpperCase().optional(),
+}).omit({
+  id: true,
+});
+
+export type InsertInvestmentPrice = z.infer<typeof insertInvestmentPriceSchema>;
+export type InvestmentPrice = typeof investmentPrices.$inferSelect;
+
+// Double-entry ledger of cashback. Every entry moves `amount` (in the user's base
+// currency, which it records) from one account to another, so each account's balance is the sum of
+// its debits less its credits:
+//   rewards     - the cashback programme, credited when a reward is earned
+//   cashback    - the user's unspent cashback
+//   payouts     - cashback, sale proceeds and dividends paid out to the user
+//   investments - cashback put into investments, at cost until it is sold
+//   returns     - gains, losses and dividends from investments
+export const ledgerAccounts = ["rewards", "cashback", "payouts", "investments", "returns"] as const;
+export const ledgerEntryKinds = ["credit", "redemption", "allocation", "sale", "dividend"] as const;
+
+export type LedgerAccount = typeof ledgerAccounts[number];
+export type LedgerEntryKind = typeof ledgerEntryKinds[number];
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  kind: text("kind").$type<LedgerEntryKind>().notNull(),
+  debitAccount: text("debit_account").$type<LedgerAccount>().notNull(),
+  creditAccount: text("credit_account").$type<LedgerAccount>().notNull(),
+  amount: real("amount").notNull(), // always positive
+  currency: text("currency").notNull().default("USD"), // owner's base currency, rebased along with it
+  cashbackRewardId: integer("cashback_reward_id").references(() => cashbackRewards.id), // null for sales and dividends
+  investmentId: integer("investment_id").references(() => investments.id), // allocations, sales and dividends
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("ledger_entries_user_idx").on(table.userId),
+  index("ledger_entries_reward_idx").on(table.cashbackRewardId),
+]);
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries, {
+  kind: z.enum(ledgerEntryKinds),
+  debitAccount: z.enum(ledgerAccounts),
+  creditAccount: z.enum(ledgerAccounts),
+  amount: z.number().positive(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+// Put unspent cashback into a green investment product; amount is in the user's base currency
+export const cashbackFundingSchema = z.object({
+  greenInvestmentId: z.coerce.number().int().positive(),
+  amount: z.coerce.number().positive(),
+});
+
+export type CashbackFunding = z.infer<typeof cashbackFundingSchema>;
+
+// How one answer moved a risk score; points run from 0 (cautious) to 1 (risk-seeking)
+export type RiskFactorContribution = {
+  answer: string;
+  label: string;
+  value: string | number | boolean;
+  points: number;
+  weight: number;
+  // weight * points on the 0-100 score
+  contribution: number;
+  // False only on assessments saved before unknown answers were rejected, which scored them as a neutral 0.5
+  recognized: boolean;
+};
+
+// Risk assessment survey schema - every retake is kept as the user's next version
 export const riskAssessments = pgTable("risk_assessments", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").references(() => users.id).unique(),
+  userId: integer("user_id").references(() => users.id),
+  version: integer("version").notNull().default(1), // 1 for a user's first assessment, then counting up
   ageGroup: text("age_group").notNull(),
   investmentTimeframe: text("investment_timeframe").notNull(),
   riskTolerance: integer("risk_tolerance").notNull(), // 1-10 scale
@@ -201,14 +682,75 @@ export const riskAssessments = pgTable("risk_assessments", {
   savingsPercentage: integer("savings_percentage").notNull(),
   environmentalPriority: integer("environmental_priority").notNull(), // 1-10 scale
   recommendedRiskLevel: text("recommended_risk_level").notNull(),
+  modelVersion: text("model_version"), // scoring model used; null for assessments scored before models
+  riskScore: real("risk_score"), // 0-100
+  contributions: json("contributions").$type<RiskFactorContribution[]>(),
   date: timestamp("date").notNull().defaultNow(),
-});
-
-export const insertRiskAssessmentSchema = createInsertSchema(riskAssessments).omit({
+}, (table) => [
+  uniqueIndex("risk_assessments_user_version_idx").on(table.userId, table.version),
+]);
+
+export const insertRiskAssessmentSchema = createInsertSchema(riskAssessments, {
+  riskTolerance: z.number().int().min(1).max(10),
+  savingsPercentage: z.number().int().min(0).max(100),
+  environmentalPriority: z.number().int().min(1).max(10),
+}).omit({
   id: true,
+  version: true,
   recommendedRiskLevel: true,
+  modelVersion: true,
+  riskScore: true,
+  contributions: true,
   date: true,
 });
 
 export type InsertRiskAssessment = z.infer<typeof insertRiskAssessmentSchema>;
 export type RiskAssessment = typeof riskAssessments.$inferSelect;
+export type ScoredRiskAssessment = InsertRiskAssessment &
+  Pick<RiskAssessment, "recommendedRiskLevel" | "modelVersion" | "riskScore" | "contributions">;
+
+// Language model replies - validated before they reach clients
+const riskLevelSchema = z.string().trim().toLowerCase().pipe(z.enum(["low", "medium", "high"]));
+
+// One sustainable alternative found by eco-search
+export const ecoAlternativeSchema = z.object({
+  product_name: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  price_range: z.string().trim().min(1),
+  purchase_url: z.string().url().refine((url) => /^https?:\/\//i.test(url), "Expected an http(s) URL"),
+  eco_rating: z.coerce.number().min(1).max(10), // 1-10
+});
+
+export const ecoSearchReplySchema = z.object({
+  alternatives: z.array(ecoAlternativeSchema).min(1).max(5),
+});
+
+export type EcoAlternative = z.infer<typeof ecoAlternativeSchema>;
+export type EcoSearchResult = {
+  query: string;
+  // Best eco rating first
+  alternatives: (EcoAlternative & { rank: number })[];
+};
+
+// Eco-search results kept on the transaction they were searched for
+export type SuggestedAlternatives = EcoSearchResult & {
+  searchedAt: string;
+};
+
+export const investmentNewsQuerySchema = z.object({
+  riskLevel: riskLevelSchema.default("medium"),
+});
+
+export const investmentNewsSchema = z.object({
+  investments: z.array(z.object({
+    name: z.string().trim().min(1),
+    sector: z.string().trim().min(1),
+    priceRange: z.string().trim().min(1),
+    riskLevel: riskLevelSchema,
+    returnPercentage: z.union([z.string().trim().min(1), z.number().transform((value) => `${value}%`)]),
+    environmentalImpact: z.string().trim().min(1),
+    recentNews: z.string().trim().min(1),
+  })).min(1),
+});
+
+export type InvestmentNews = z.infer<typeof investmentNewsSchema>;
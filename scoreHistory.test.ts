@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { scoreHistoryQuerySchema, type Transaction } from "@shared/schema";
+import { MAX_SCORE_PERIODS, ScoreHistoryRangeError, computeScoreHistory } from "./scoreHistory";
+
+const purchase = (date: string, amount: number): Transaction => ({
+  id: 1,
+  date: new Date(`${date}T12:00:00Z`),
+  merchant: "Market",
+  category: "groceries",
+  amount,
+  currency: "USD",
+  baseAmount: null,
+  ecoScore: 70,
+  hasAlternatives: false,
+  co2eKg: null,
+  waterLiters: null,
+  methodologyVersion: null,
+  merchantId: null,
+  scoreExplanation: null,
+  suggestedAlternatives: null,
+  userId: 1,
+  kind: "purchase",
+  source: "csv",
+  externalId: null,
+  fingerprint: null
+});
+
+const range = (from: string, to: string) => ({ from: new Date(`${from}T00:00:00Z`), to: new Date(`${to}T00:00:00Z`) });
+
+describe("computeScoreHistory", () => {
+  it("fills the range with calendar periods, empty ones included", () => {
+    const periods = computeScoreHistory([purchase("2024-01-10", 20), purchase("2024-03-05", 30)], 1, "month", range("2024-01-01", "2024-04-01"));
+    expect(periods.map(period => [period.period, period.start, period.end, period.transactionCount, period.comparedTo])).toEqual([
+      ["2024-01", "2024-01-01", "2024-02-01", 1, null],
+      ["2024-02", "2024-02-01", "2024-03-01", 0, null],
+      ["2024-03", "2024-03-01", "2024-04-01", 1, "2024-01"],
+    ]);
+    expect(periods[2].deltas?.spend).toBe(10);
+  });
+
+  it("labels weeks by ISO week", () => {
+    // Monday 2024-12-30 starts week 1 of 2025
+    expect(computeScoreHistory([purchase("2025-01-01", 5)], 1, "week").map(period => [period.period, period.start])).toEqual([
+      ["2025-W01", "2024-12-30"],
+    ]);
+  });
+
+  it("refuses ranges with more periods than it will compute", () => {
+    // 44 years of months fit
+    expect(computeScoreHistory([], 1, "month", range("1980-01-01", "2024-01-01"))).toHaveLength(MAX_SCORE_PERIODS - 2);
+    expect(() => computeScoreHistory([], 1, "week", range("2000-01-01", "2024-01-01"))).toThrow(ScoreHistoryRangeError);
+    expect(() => computeScoreHistory([], 1, "month", range("0001-01-01", "9999-01-01"))).toThrow(ScoreHistoryRangeError);
+    // Without a range the transactions set the span
+    expect(() => computeScoreHistory([purchase("1970-01-01", 5), purchase("2024-01-01", 5)], 1, "week")).toThrow(ScoreHistoryRangeError);
+  });
+});
+
+describe("scoreHistoryQuerySchema", () => {
+  it("accepts real days, leap days included", () => {
+    expect(scoreHistoryQuerySchema.parse({ from: "2024-02-29", to: "2024-03-31" })).toEqual({ from: "2024-02-29", to: "2024-03-31", granularity: "month" });
+  });
+
+  it.each(["2024-02-30", "2023-02-29", "2024-04-31", "2024-13-01", "2024-00-10"])("rejects %s", date => {
+    expect(scoreHistoryQuerySchema.safeParse({ from: date }).success).toBe(false);
+  });
+});
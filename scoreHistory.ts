@@ -0,0 +1,171 @@
+import type { ScoreGranularity, SustainabilityScore, Transaction } from "@shared/schema";
+import { summarizeTransactions } from "./sustainabilityCalculator";
+import { storage } from "../storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest series computed in one request, a little over ten years of weeks
+export const MAX_SCORE_PERIODS = 530;
+
+// The requested range splits into more periods than MAX_SCORE_PERIODS
+export class ScoreHistoryRangeError extends Error {
+  constructor(granularity: ScoreGranularity) {
+    super(`The range covers more than ${MAX_SCORE_PERIODS} ${granularity}s; narrow it or use a longer granularity`);
+    this.name = "ScoreHistoryRangeError";
+  }
+}
+
+export interface ScoreMetrics {
+  overallScore: number;
+  carbonFootprint: number;
+  sustainablePurchases: number;
+  waterUsage: number;
+  // Net spend in the user's base currency; refunds count against it
+  spend: number;
+}
+
+export interface ScorePeriod {
+  // "2024-W05", "2024-05" or "2024"
+  period: string;
+  // First day of the period and first day after it, as YYYY-MM-DD
+  start: string;
+  end: string;
+  transactionCount: number;
+  // Absent for periods without transactions
+  metrics: ScoreMetrics | null;
+  // Change from the latest earlier period with transactions; absent when there is none or this period is empty
+  deltas: ScoreMetrics | null;
+  // Label of the period the deltas compare against
+  comparedTo: string | null;
+}
+
+const dayKey = (date: Date) => date.toISOString().split("T")[0];
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Start of the UTC calendar period containing `date`; weeks start on Monday
+function periodStart(date: Date, granularity: ScoreGranularity): Date {
+  const year = date.getUTCFullYear();
+  switch (granularity) {
+    case "year":
+      return new Date(Date.UTC(year, 0, 1));
+    case "month":
+      return new Date(Date.UTC(year, date.getUTCMonth(), 1));
+    case "week": {
+      const day = new Date(Date.UTC(year, date.getUTCMonth(), date.getUTCDate()));
+      const sinceMonday = (day.getUTCDay() + 6) % 7;
+      return new Date(day.getTime() - sinceMonday * DAY_MS);
+    }
+  }
+}
+
+function nextPeriodStart(start: Date, granularity: ScoreGranularity): Date {
+  switch (granularity) {
+    case "year":
+      return new Date(Date.UTC(start.getUTCFullYear() + 1, 0, 1));
+    case "month":
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+    case "week":
+      return new Date(start.getTime() + 7 * DAY_MS);
+  }
+}
+
+// ISO 8601 label; a week belongs to the year its Thursday falls in
+function periodLabel(start: Date, granularity: ScoreGranularity): string {
+  switch (granularity) {
+    case "year":
+      return String(start.getUTCFullYear());
+    case "month":
+      return `${start.getUTCFullYear()}-${pad(start.getUTCMonth() + 1)}`;
+    case "week": {
+      const thursday = new Date(start.getTime() + 3 * DAY_MS);
+      const weekYear = thursday.getUTCFullYear();
+      const week = Math.floor((thursday.getTime() - Date.UTC(weekYear, 0, 1)) / (7 * DAY_MS)) + 1;
+      return `${weekYear}-W${pad(week)}`;
+    }
+  }
+}
+
+function summarizePeriod(transactions: Transaction[], userId: number): ScoreMetrics {
+  const { sustainabilityScore, categoryBreakdowns } = summarizeTransactions(transactions, userId);
+  const spend = categoryBreakdowns.reduce((total, breakdown) => total + breakdown.amount, 0);
+
+  return {
+    overallScore: sustainabilityScore.overallScore,
+    carbonFootprint: sustainabilityScore.carbonFootprint,
+    sustainablePurchases: sustainabilityScore.sustainablePurchases,
+    waterUsage: sustainabilityScore.waterUsage,
+    spend: Math.round(spend * 100) / 100
+  };
+}
+
+function difference(current: ScoreMetrics, previous: ScoreMetrics): ScoreMetrics {
+  const delta = (key: keyof ScoreMetrics) => Math.round((current[key] - previous[key]) * 100) / 100;
+  return {
+    overallScore: delta("overallScore"),
+    carbonFootprint: delta("carbonFootprint"),
+    sustainablePurchases: delta("sustainablePurchases"),
+    waterUsage: delta("waterUsage"),
+    spend: delta("spend")
+  };
+}
+
+/**
+ * Recompute the sustainability score for each calendar period from the
+ * user's stored transactions. Periods are contiguous from the first
+ * transaction to the last (or across `from`..`to` when given), so a gap in
+ * spending shows up as an empty period rather than disappearing. Deltas skip
+ * over empty periods to the last one with transactions.
+ *
+ * @throws ScoreHistoryRangeError when there would be more than MAX_SCORE_PERIODS periods
+ */
+export function computeScoreHistory(
+  transactions: Transaction[],
+  userId: number,
+  granularity: ScoreGranularity,
+  range: { from?: Date; to?: Date } = {}
+): ScorePeriod[] {
+  const buckets = new Map<string, Transaction[]>();
+  for (const transaction of transactions) {
+    const key = dayKey(periodStart(new Date(transaction.date), granularity));
+    const bucket = buckets.get(key) ?? [];
+    bucket.push(transaction);
+    buckets.set(key, bucket);
+  }
+
+  const times = transactions.map(transaction => new Date(transaction.date).getTime());
+  if (times.length === 0 && !(range.from && range.to)) return [];
+
+  const first = range.from ?? new Date(times.reduce((a, b) => Math.min(a, b)));
+  // `to` is exclusive, so the last period is the one containing the day before it
+  const last = range.to
+    ? new Date(range.to.getTime() - DAY_MS)
+    : new Date(times.reduce((a, b) => Math.max(a, b)));
+
+  const periods: ScorePeriod[] = [];
+  let previous: { period: string; metrics: ScoreMetrics } | null = null;
+  for (let start = periodStart(first, granularity); start <= last; start = nextPeriodStart(start, granularity)) {
+    if (periods.length === MAX_SCORE_PERIODS) throw new ScoreHistoryRangeError(granularity);
+    const bucket = buckets.get(dayKey(start)) ?? [];
+    const metrics = bucket.length > 0 ? summarizePeriod(bucket, userId) : null;
+    const period = periodLabel(start, granularity);
+    const compared = metrics ? previous : null;
+
+    periods.push({
+      period,
+      start: dayKey(start),
+      end: dayKey(nextPeriodStart(start, granularity)),
+      transactionCount: bucket.length,
+      metrics,
+      deltas: metrics && compared ? difference(metrics, compared.metrics) : null,
+      comparedTo: compared?.period ?? null
+    });
+    if (metrics) previous = { period, metrics };
+  }
+
+  return periods;
+}
+
+// Store the score over all of the user's transactions as their latest snapshot
+export async function recordScoreSnapshot(userId: number): Promise<SustainabilityScore> {
+  const { sustainabilityScore } = summarizeTransactions(await storage.getTransactions(userId), userId);
+  return storage.createSustainabilityScore(sustainabilityScore);
+}
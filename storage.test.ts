@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InsertInvestment, InsertRiskAssessment, User } from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import { createTestDatabase } from "./testDatabase";
+
+// Both backends must behave the same; the database one runs against the real migrations
+const backends: [string, () => IStorage][] = [
+  ["MemStorage", () => new MemStorage()],
+  ["DatabaseStorage", () => new DatabaseStorage(createTestDatabase())],
+];
+
+const holding = (userId: number, overrides: Partial<InsertInvestment> = {}): InsertInvestment => ({
+  userId,
+  name: "Green Bond Fund",
+  type: "green_bond",
+  amount: 50,
+  purchaseValue: 50,
+  currentValue: 50,
+  esgRating: "AA",
+  description: "Bonds financing renewable energy",
+  ...overrides
+});
+
+const answers: InsertRiskAssessment = {
+  ageGroup: "25-34",
+  investmentTimeframe: "long_term",
+  riskTolerance: 7,
+  financialGoals: "growth",
+  existingInvestments: false,
+  incomeLevel: "medium",
+  savingsPercentage: 10,
+  environmentalPriority: 8
+};
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+  let user: User;
+
+  beforeEach(async () => {
+    storage = createStorage();
+    user = await storage.createUser({ username: "ada", password: "hashed" });
+  });
+
+  it("creates, finds and updates users", async () => {
+    expect(user.baseCurrency).toBe("USD");
+    expect((await storage.getUserByUsername("ada"))?.id).toBe(user.id);
+    const updated = await storage.updateUser(user.id, { baseCurrency: "EUR" });
+    expect(updated?.baseCurrency).toBe("EUR");
+  });
+
+  it("returns transactions in a date range", async () => {
+    await storage.createTransactions([
+      { userId: user.id, date: new Date("2024-02-29T12:00:00Z"), merchant: "Market", category: "groceries", amount: 20, ecoScore: 70 },
+      { userId: user.id, date: new Date("2024-03-01T12:00:00Z"), merchant: "Market", category: "groceries", amount: 30, ecoScore: 70 },
+      { userId: user.id, date: new Date("2024-04-01T00:00:00Z"), merchant: "Cafe", category: "dining", amount: 5, ecoScore: 50 },
+    ]);
+    const march = await storage.getTransactionsByDateRange(user.id, new Date("2024-03-01T00:00:00Z"), new Date("2024-04-01T00:00:00Z"));
+    expect(march.map(tx => tx.amount)).toEqual([30]);
+  });
+
+  describe("cashback ledger", () => {
+    const reward = (userId: number, month: string, amount: number) =>
+      storage.createCashbackReward({ userId, month, year: 2024, ecoScore: 70, amount });
+
+    it("credits each month's reward once", async () => {
+      const first = await reward(user.id, "March", 5);
+      const repeat = await reward(user.id, "March", 7);
+      expect(repeat.id).toBe(first.id);
+      expect(repeat.amount).toBe(5);
+      expect(await storage.getLedgerEntries(user.id)).toHaveLength(1);
+      expect(await storage.getUnredeemedCashbackAmount(user.id)).toBe(5);
+    });
+
+    it("funds investments from the oldest rewards first and refuses what isn't there", async () => {
+      const march = await reward(user.id, "March", 5);
+      const april = await reward(user.id, "April", 10);
+      const funded = await storage.fundInvestmentFromCashback(user.id, 8, holding(user.id, { amount: 8 }), {
+        kind: "buy",
+        amount: 8,
+        date: new Date()
+      });
+      expect(funded?.entries.map(entry => [entry.cashbackRewardId, entry.amount])).toEqual([[march.id, 5], [april.id, 3]]);
+      expect(await storage.getUnredeemedCashbackAmount(user.id)).toBe(7);
+      expect(await storage.getInvestmentTransactions(funded!.investment.id)).toHaveLength(1);
+
+      expect(await storage.fundInvestmentFromCashback(user.id, 8, holding(user.id), { kind: "buy", amount: 8, date: new Date() })).toBeUndefined();
+
+      // Redeeming pays out only what is left of the reward
+      await storage.redeemCashbackReward(april.id);
+      const payout = (await storage.getLedgerEntries(user.id)).find(entry => entry.kind === "redemption");
+      expect(payout?.amount).toBe(7);
+      expect(await storage.getUnredeemedCashbackAmount(user.id)).toBe(0);
+    });
+
+    it("moves the user, their transactions, rewards and entries into a new currency together", async () => {
+      const [groceries] = await storage.createTransactions([
+        { userId: user.id, date: new Date("2024-03-01T12:00:00Z"), merchant: "Market", category: "groceries", amount: 20, ecoScore: 70 },
+      ]);
+      const march = await reward(user.id, "March", 10);
+      const [credit] = await storage.getLedgerEntries(user.id);
+      const moved = await storage.changeBaseCurrency(
+        user.id,
+        { baseCurrency: "EUR", name: "Ada" },
+        new Map([[groceries.id, 18.4]]),
+        new Map([[march.id, 9.2]]),
+        new Map([[credit.id, 9.2]])
+      );
+      expect(moved).toMatchObject({ id: user.id, baseCurrency: "EUR", name: "Ada" });
+      expect(await storage.getTransactions(user.id)).toMatchObject([{ amount: 20, baseAmount: 18.4 }]);
+      const [rebased] = await storage.getCashbackRewards(user.id);
+      expect(rebased).toMatchObject({ amount: 9.2, currency: "EUR" });
+      expect(await storage.getLedgerEntries(user.id)).toMatchObject([{ amount: 9.2, currency: "EUR" }]);
+
+      expect(await storage.changeBaseCurrency(9999, { baseCurrency: "GBP" }, new Map(), new Map(), new Map())).toBeUndefined();
+    });
+  });
+
+  describe("investment transactions", () => {
+    it("appends a transaction and its ledger entries only while the holding is unchanged", async () => {
+      const investment = await storage.createInvestment(holding(user.id, { units: 5 }));
+      const sale = {
+        userId: user.id,
+        investmentId: investment.id,
+        kind: "sell" as const,
+        units: 2,
+        amount: 24,
+        costBasis: 20,
+        realizedGain: 4,
+        date: new Date()
+      };
+
+      expect(await storage.recordInvestmentTransaction(sale, { units: 3 }, 4)).toBeUndefined();
+      const recorded = await storage.recordInvestmentTransaction(sale, { units: 3 }, 5, [
+        { kind: "sale", debitAccount: "payouts", creditAccount: "investments", amount: 20 },
+        { kind: "sale", debitAccount: "payouts", creditAccount: "returns", amount: 4 },
+      ]);
+      expect(recorded?.investment.units).toBe(3);
+      expect(await storage.getInvestmentTransactions(investment.id)).toHaveLength(1);
+      const entries = await storage.getLedgerEntries(user.id);
+      expect(entries.map(entry => [entry.creditAccount, entry.amount, entry.investmentId])).toEqual([
+        ["investments", 20, investment.id],
+        ["returns", 4, investment.id],
+      ]);
+    });
+
+    it("leaves holdings without units out of the portfolio total", async () => {
+      await storage.createInvestment(holding(user.id, { units: 5, currentValue: 60 }));
+      await storage.createInvestment(holding(user.id, { currentValue: 1_000_000 }));
+      expect(await storage.getTotalInvestmentValue(user.id)).toBe(60);
+    });
+  });
+
+  describe("risk assessments", () => {
+    it("keeps every retake as the next version", async () => {
+      const scored = { recommendedRiskLevel: "medium", modelVersion: "risk-v1", riskScore: 55, contributions: [] };
+      const first = await storage.createRiskAssessment({ ...answers, ...scored, userId: user.id });
+      const second = await storage.createRiskAssessment({ ...answers, ...scored, riskTolerance: 9, userId: user.id });
+
+      expect([first.version, second.version]).toEqual([1, 2]);
+      expect((await storage.getRiskAssessment(user.id))?.riskTolerance).toBe(9);
+      expect((await storage.getRiskAssessmentHistory(user.id)).map(assessment => assessment.version)).toEqual([1, 2]);
+    });
+  });
+});
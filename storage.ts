@@ -2,9 +2,18 @@ import {
   users, 
   type User, 
   type InsertUser, 
+  exchangeRates,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  merchants,
+  type Merchant,
+  type InsertMerchant,
   transactions,
   type Transaction,
   type InsertTransaction,
+  plaidItems,
+  type PlaidItem,
+  type InsertPlaidItem,
   sustainabilityScores,
   type SustainabilityScore,
   type InsertSustainabilityScore,
@@ -17,33 +26,104 @@ import {
   cashbackRewards,
   type CashbackReward,
   type InsertCashbackReward,
+  ledgerEntries,
+  type LedgerEntry,
+  type InsertLedgerEntry,
   investmentProfiles,
   type InvestmentProfile,
   type InsertInvestmentProfile,
   investments,
   type Investment,
   type InsertInvestment,
+  investmentTransactions,
+  type InvestmentTransaction,
+  type InsertInvestmentTransaction,
   greenInvestments,
   type GreenInvestment,
   type InsertGreenInvestment,
+  investmentPrices,
+  type InvestmentPrice,
+  type InsertInvestmentPrice,
   riskAssessments,
   type RiskAssessment,
-  type InsertRiskAssessment
+  type ScoredRiskAssessment
 } from "@shared/schema";
+import { and, desc, eq, gte, inArray, isNotNull, lt, lte, notInArray, sql } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Take `amount` from rewards in the order given, each contributing what it
+ * has left after earlier allocations (`spent`). Undefined when the rewards
+ * don't cover the amount.
+ */
+function planCashbackAllocation(
+  rewards: CashbackReward[],
+  spent: Map<number, number>,
+  amount: number
+): { reward: CashbackReward; amount: number; exhausted: boolean }[] | undefined {
+  const plan: { reward: CashbackReward; amount: number; exhausted: boolean }[] = [];
+  let outstanding = roundCents(amount);
+  for (const reward of rewards) {
+    if (outstanding <= 0) break;
+    const available = roundCents(reward.amount - (spent.get(reward.id) ?? 0));
+    if (available <= 0) continue;
+    const take = Math.min(available, outstanding);
+    plan.push({ reward, amount: take, exhausted: take === available });
+    outstanding = roundCents(outstanding - take);
+  }
+  return outstanding > 0 ? undefined : plan;
+}
 
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
+  // Move the user into a new base currency together with everything kept in it: transaction
+  // base amounts, cashback rewards and ledger entries get the amounts keyed by their id (rows
+  // left out keep theirs). Either all of it is saved or none of it
+  changeBaseCurrency(
+    id: number,
+    updates: Partial<User> & { baseCurrency: string },
+    baseAmounts: Map<number, number>,
+    rewardAmounts: Map<number, number>,
+    entryAmounts: Map<number, number>
+  ): Promise<User | undefined>;
+  
+  // Exchange rate methods
+  getExchangeRates(currencies?: string[]): Promise<ExchangeRate[]>;
+  upsertExchangeRates(rates: InsertExchangeRate[]): Promise<number>;
+  
+  // Merchant catalog methods
+  getMerchants(): Promise<Merchant[]>;
+  getMerchant(id: number): Promise<Merchant | undefined>;
+  getMerchantByNormalizedName(normalizedName: string): Promise<Merchant | undefined>;
+  createMerchant(merchant: InsertMerchant): Promise<Merchant>;
+  updateMerchant(id: number, updates: Partial<Merchant>): Promise<Merchant | undefined>;
+  deleteMerchant(id: number): Promise<boolean>;
   
   // Transaction methods
   getTransactions(userId?: number): Promise<Transaction[]>;
   getTransactionById(id: number): Promise<Transaction | undefined>;
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
   createTransactions(transactions: InsertTransaction[]): Promise<Transaction[]>;
+  getTransactionByExternalId(userId: number, source: string, externalId: string): Promise<Transaction | undefined>;
+  getTransactionsByFingerprint(userId: number, fingerprint: string): Promise<Transaction[]>;
+  updateTransaction(id: number, updates: Partial<Transaction>): Promise<Transaction | undefined>;
+  deleteTransactionsByExternalIds(userId: number, source: string, externalIds: string[]): Promise<number>;
   getTransactionsByCategory(category: string, userId?: number): Promise<Transaction[]>;
   getTransactionsByEcoScore(minScore: number, maxScore: number, userId?: number): Promise<Transaction[]>;
+  getTransactionsByDateRange(userId: number, from?: Date, to?: Date): Promise<Transaction[]>;
+  
+  // Plaid item methods
+  getPlaidItems(userId: number): Promise<PlaidItem[]>;
+  getPlaidItemByItemId(itemId: string): Promise<PlaidItem | undefined>;
+  createPlaidItem(item: InsertPlaidItem): Promise<PlaidItem>;
+  updatePlaidItem(id: number, updates: Partial<PlaidItem>): Promise<PlaidItem | undefined>;
+  deletePlaidItem(id: number): Promise<boolean>;
   
   // Sustainability score methods
   getSustainabilityScores(userId?: number): Promise<SustainabilityScore[]>;
@@ -54,18 +134,39 @@ export interface IStorage {
   getCategoryBreakdowns(userId?: number): Promise<CategoryBreakdown[]>;
   createCategoryBreakdown(breakdown: InsertCategoryBreakdown): Promise<CategoryBreakdown>;
   createCategoryBreakdowns(breakdowns: InsertCategoryBreakdown[]): Promise<CategoryBreakdown[]>;
+  replaceCategoryBreakdowns(userId: number, breakdowns: InsertCategoryBreakdown[]): Promise<CategoryBreakdown[]>;
   
   // Recommendation methods
   getRecommendations(userId?: number): Promise<Recommendation[]>;
+  getRecommendation(id: number): Promise<Recommendation | undefined>;
   createRecommendation(recommendation: InsertRecommendation): Promise<Recommendation>;
+  updateRecommendation(id: number, updates: Partial<Recommendation>): Promise<Recommendation | undefined>;
+  // Upsert by dedupe key and drop the user's untouched recommendations that are no longer produced;
+  // ones the user accepted, dismissed or snoozed are kept so they don't come back as new
+  syncRecommendations(userId: number, recommendations: InsertRecommendation[]): Promise<Recommendation[]>;
   
   // Cashback rewards methods
   getCashbackRewards(userId: number): Promise<CashbackReward[]>;
   getCashbackRewardsByMonth(userId: number, month: string, year: number): Promise<CashbackReward | undefined>;
+  // Returns the month's existing reward, uncredited, when there already is one
   createCashbackReward(reward: InsertCashbackReward): Promise<CashbackReward>;
   updateCashbackReward(id: number, updates: Partial<CashbackReward>): Promise<CashbackReward | undefined>;
   getTotalCashbackAmount(userId: number): Promise<number>;
   getUnredeemedCashbackAmount(userId: number): Promise<number>;
+  // Marks the reward redeemed and pays out whatever of it hasn't been invested
+  redeemCashbackReward(id: number): Promise<CashbackReward | undefined>;
+  // Creates the investment paid for by the user's oldest unspent cashback, with `buy` as the
+  // first entry in its transaction log, or returns undefined when their unspent cashback
+  // doesn't cover the amount
+  fundInvestmentFromCashback(
+    userId: number,
+    amount: number,
+    investment: InsertInvestment,
+    buy: Omit<InsertInvestmentTransaction, "userId" | "investmentId">
+  ): Promise<{ investment: Investment; entries: LedgerEntry[] } | undefined>;
+  
+  // Cashback ledger methods
+  getLedgerEntries(userId: number): Promise<LedgerEntry[]>;
   
   // Investment profile methods
   getInvestmentProfile(userId: number): Promise<InvestmentProfile | undefined>;
@@ -78,62 +179,111 @@ export interface IStorage {
   createInvestment(investment: InsertInvestment): Promise<Investment>;
   updateInvestment(id: number, updates: Partial<Investment>): Promise<Investment | undefined>;
   getInvestmentsByType(userId: number, type: string): Promise<Investment[]>;
+  // Value of the user's priced holdings; legacy holdings without units carry a
+  // client-reported value and are left out
   getTotalInvestmentValue(userId: number): Promise<number>;
   
+  // Investment transaction log methods; entries are never changed or removed
+  getInvestmentTransactions(investmentId: number): Promise<InvestmentTransaction[]>;
+  getInvestmentTransactionsByUser(userId: number): Promise<InvestmentTransaction[]>;
+  // Append an entry, post the ledger entries for the money it moved and apply the changes it
+  // makes to its holding, as long as the holding still has `expectedUnits`; undefined when it
+  // doesn't exist or changed in the meantime
+  recordInvestmentTransaction(
+    entry: InsertInvestmentTransaction,
+    updates: Partial<Investment>,
+    expectedUnits: number | null,
+    postings?: Omit<InsertLedgerEntry, "userId" | "investmentId">[]
+  ): Promise<{ transaction: InvestmentTransaction; investment: Investment } | undefined>;
+  // Every user's holdings in green investment products, which are valued from prices
+  getPricedInvestments(): Promise<Investment[]>;
+  
   // Green investments methods
   getGreenInvestments(riskLevel?: string): Promise<GreenInvestment[]>;
   getGreenInvestmentById(id: number): Promise<GreenInvestment | undefined>;
   createGreenInvestment(investment: InsertGreenInvestment): Promise<GreenInvestment>;
   
+  // Investment price methods
+  getInvestmentPrices(symbols?: string[]): Promise<InvestmentPrice[]>;
+  upsertInvestmentPrices(prices: InsertInvestmentPrice[]): Promise<number>;
+  
   // Risk assessment methods
+  // Latest assessment
   getRiskAssessment(userId: number): Promise<RiskAssessment | undefined>;
-  createRiskAssessment(assessment: InsertRiskAssessment & { recommendedRiskLevel: string }): Promise<RiskAssessment>;
+  // Every assessment, oldest version first
+  getRiskAssessmentHistory(userId: number): Promise<RiskAssessment[]>;
+  // Saved as the user's next version; earlier ones are kept
+  createRiskAssessment(assessment: ScoredRiskAssessment): Promise<RiskAssessment>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private exchangeRates: Map<string, ExchangeRate>;
+  private merchants: Map<number, Merchant>;
   private transactions: Map<number, Transaction>;
+  private plaidItems: Map<number, PlaidItem>;
   private sustainabilityScores: Map<number, SustainabilityScore>;
   private categoryBreakdowns: Map<number, CategoryBreakdown>;
   private recommendations: Map<number, Recommendation>;
   private cashbackRewards: Map<number, CashbackReward>;
+  private ledgerEntries: Map<number, LedgerEntry>;
   private investmentProfiles: Map<number, InvestmentProfile>;
   private investments: Map<number, Investment>;
+  private investmentTransactions: Map<number, InvestmentTransaction>;
   private greenInvestments: Map<number, GreenInvestment>;
+  private investmentPrices: Map<string, InvestmentPrice>;
   private riskAssessments: Map<number, RiskAssessment>;
   
   currentUserId: number;
+  currentExchangeRateId: number;
+  currentMerchantId: number;
   currentTransactionId: number;
+  currentPlaidItemId: number;
   currentScoreId: number;
   currentBreakdownId: number;
   currentRecommendationId: number;
   currentCashbackId: number;
+  currentLedgerEntryId: number;
   currentInvestmentProfileId: number;
   currentInvestmentId: number;
+  currentInvestmentTransactionId: number;
   currentGreenInvestmentId: number;
+  currentInvestmentPriceId: number;
   currentRiskAssessmentId: number;
 
   constructor() {
     this.users = new Map();
+    this.exchangeRates = new Map();
+    this.merchants = new Map();
     this.transactions = new Map();
+    this.plaidItems = new Map();
     this.sustainabilityScores = new Map();
     this.categoryBreakdowns = new Map();
     this.recommendations = new Map();
     this.cashbackRewards = new Map();
+    this.ledgerEntries = new Map();
     this.investmentProfiles = new Map();
     this.investments = new Map();
+    this.investmentTransactions = new Map();
     this.greenInvestments = new Map();
+    this.investmentPrices = new Map();
     this.riskAssessments = new Map();
     
     this.currentUserId = 1;
+    this.currentExchangeRateId = 1;
+    this.currentMerchantId = 1;
     this.currentTransactionId = 1;
+    this.currentPlaidItemId = 1;
     this.currentScoreId = 1;
     this.currentBreakdownId = 1;
     this.currentRecommendationId = 1;
     this.currentCashbackId = 1;
+    this.currentLedgerEntryId = 1;
     this.currentInvestmentProfileId = 1;
     this.currentInvestmentId = 1;
+    this.currentInvestmentTransactionId = 1;
     this.currentGreenInvestmentId = 1;
+    this.currentInvestmentPriceId = 1;
     this.currentRiskAssessmentId = 1;
     
     // No default users or data - each new account starts empty
@@ -152,11 +302,104 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { name: null, baseCurrency: "USD", ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
   
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, ...updates, id };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async changeBaseCurrency(
+    id: number,
+    updates: Partial<User> & { baseCurrency: string },
+    baseAmounts: Map<number, number>,
+    rewardAmounts: Map<number, number>,
+    entryAmounts: Map<number, number>
+  ): Promise<User | undefined> {
+    if (!this.users.has(id)) return undefined;
+    
+    const currency = updates.baseCurrency;
+    this.transactions.forEach((transaction, transactionId) => {
+      if (transaction.userId !== id || !baseAmounts.has(transactionId)) return;
+      this.transactions.set(transactionId, { ...transaction, baseAmount: baseAmounts.get(transactionId)! });
+    });
+    this.cashbackRewards.forEach((reward, rewardId) => {
+      if (reward.userId !== id) return;
+      this.cashbackRewards.set(rewardId, { ...reward, currency, amount: rewardAmounts.get(rewardId) ?? reward.amount });
+    });
+    this.ledgerEntries.forEach((entry, entryId) => {
+      if (entry.userId !== id) return;
+      this.ledgerEntries.set(entryId, { ...entry, currency, amount: entryAmounts.get(entryId) ?? entry.amount });
+    });
+    return this.updateUser(id, updates);
+  }
+  
+  // Exchange rate methods
+  async getExchangeRates(currencies?: string[]): Promise<ExchangeRate[]> {
+    const rates = Array.from(this.exchangeRates.values());
+    return currencies ? rates.filter(rate => currencies.includes(rate.currency)) : rates;
+  }
+  
+  async upsertExchangeRates(insertRates: InsertExchangeRate[]): Promise<number> {
+    for (const insertRate of insertRates) {
+      const key = `${insertRate.date}:${insertRate.currency}`;
+      const id = this.exchangeRates.get(key)?.id ?? this.currentExchangeRateId++;
+      this.exchangeRates.set(key, { ...insertRate, id });
+    }
+    return insertRates.length;
+  }
+  
+  // Merchant catalog methods
+  async getMerchants(): Promise<Merchant[]> {
+    return Array.from(this.merchants.values());
+  }
+  
+  async getMerchant(id: number): Promise<Merchant | undefined> {
+    return this.merchants.get(id);
+  }
+  
+  async getMerchantByNormalizedName(normalizedName: string): Promise<Merchant | undefined> {
+    return Array.from(this.merchants.values()).find(
+      (merchant) => merchant.normalizedName === normalizedName,
+    );
+  }
+  
+  async createMerchant(insertMerchant: InsertMerchant): Promise<Merchant> {
+    const id = this.currentMerchantId++;
+    const merchant: Merchant = {
+      hasAlternatives: false,
+      ...insertMerchant,
+      id,
+      updatedAt: new Date()
+    };
+    this.merchants.set(id, merchant);
+    return merchant;
+  }
+  
+  async updateMerchant(id: number, updates: Partial<Merchant>): Promise<Merchant | undefined> {
+    const merchant = this.merchants.get(id);
+    if (!merchant) return undefined;
+    
+    const updatedMerchant = { ...merchant, ...updates, id, updatedAt: new Date() };
+    this.merchants.set(id, updatedMerchant);
+    return updatedMerchant;
+  }
+  
+  async deleteMerchant(id: number): Promise<boolean> {
+    // Mirror the foreign key's ON DELETE SET NULL
+    this.transactions.forEach((tx, txId) => {
+      if (tx.merchantId === id) this.transactions.set(txId, { ...tx, merchantId: null });
+    });
+    return this.merchants.delete(id);
+  }
+  
   // Transaction methods
   async getTransactions(userId?: number): Promise<Transaction[]> {
     if (userId) {
@@ -173,7 +416,24 @@ export class MemStorage implements IStorage {
   
   async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
     const id = this.currentTransactionId++;
-    const transaction: Transaction = { ...insertTransaction, id };
+    const transaction: Transaction = {
+      hasAlternatives: false,
+      userId: null,
+      currency: "USD",
+      baseAmount: null,
+      co2eKg: null,
+      waterLiters: null,
+      methodologyVersion: null,
+      merchantId: null,
+      scoreExplanation: null,
+      suggestedAlternatives: null,
+      kind: "purchase",
+      source: "csv",
+      externalId: null,
+      fingerprint: null,
+      ...insertTransaction,
+      id
+    };
     this.transactions.set(id, transaction);
     return transaction;
   }
@@ -182,6 +442,41 @@ export class MemStorage implements IStorage {
     return Promise.all(insertTransactions.map(tx => this.createTransaction(tx)));
   }
   
+  async getTransactionByExternalId(userId: number, source: string, externalId: string): Promise<Transaction | undefined> {
+    return Array.from(this.transactions.values()).find(
+      (tx) => tx.userId === userId && tx.source === source && tx.externalId === externalId,
+    );
+  }
+  
+  async getTransactionsByFingerprint(userId: number, fingerprint: string): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter(
+      (tx) => tx.userId === userId && tx.fingerprint === fingerprint,
+    );
+  }
+  
+  async updateTransaction(id: number, updates: Partial<Transaction>): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    if (!transaction) return undefined;
+    
+    const updatedTransaction = { ...transaction, ...updates, id };
+    this.transactions.set(id, updatedTransaction);
+    return updatedTransaction;
+  }
+  
+  async deleteTransactionsByExternalIds(userId: number, source: string, externalIds: string[]): Promise<number> {
+    const ids = new Set(externalIds);
+    let deleted = 0;
+    
+    for (const [id, tx] of Array.from(this.transactions.entries())) {
+      if (tx.userId === userId && tx.source === source && tx.externalId && ids.has(tx.externalId)) {
+        this.transactions.delete(id);
+        deleted++;
+      }
+    }
+    
+    return deleted;
+  }
+  
   async getTransactionsByCategory(category: string, userId?: number): Promise<Transaction[]> {
     let transactions = Array.from(this.transactions.values()).filter(
       (tx) => tx.category === category,
@@ -206,6 +501,57 @@ export class MemStorage implements IStorage {
     return transactions;
   }
   
+  // `from` is inclusive and `to` exclusive, so consecutive periods don't overlap
+  async getTransactionsByDateRange(userId: number, from?: Date, to?: Date): Promise<Transaction[]> {
+    return Array.from(this.transactions.values()).filter((tx) => {
+      const time = new Date(tx.date).getTime();
+      return tx.userId === userId
+        && (!from || time >= from.getTime())
+        && (!to || time < to.getTime());
+    });
+  }
+  
+  // Plaid item methods
+  async getPlaidItems(userId: number): Promise<PlaidItem[]> {
+    return Array.from(this.plaidItems.values()).filter(
+      (item) => item.userId === userId,
+    );
+  }
+  
+  async getPlaidItemByItemId(itemId: string): Promise<PlaidItem | undefined> {
+    return Array.from(this.plaidItems.values()).find(
+      (item) => item.itemId === itemId,
+    );
+  }
+  
+  async createPlaidItem(insertItem: InsertPlaidItem): Promise<PlaidItem> {
+    const id = this.currentPlaidItemId++;
+    const item: PlaidItem = {
+      institutionId: null,
+      institutionName: null,
+      cursor: null,
+      lastSyncedAt: null,
+      ...insertItem,
+      id,
+      createdAt: new Date()
+    };
+    this.plaidItems.set(id, item);
+    return item;
+  }
+  
+  async updatePlaidItem(id: number, updates: Partial<PlaidItem>): Promise<PlaidItem | undefined> {
+    const item = this.plaidItems.get(id);
+    if (!item) return undefined;
+    
+    const updatedItem = { ...item, ...updates, id };
+    this.plaidItems.set(id, updatedItem);
+    return updatedItem;
+  }
+  
+  async deletePlaidItem(id: number): Promise<boolean> {
+    return this.plaidItems.delete(id);
+  }
+  
   // Sustainability score methods
   async getSustainabilityScores(userId?: number): Promise<SustainabilityScore[]> {
     if (userId) {
@@ -244,7 +590,7 @@ export class MemStorage implements IStorage {
   
   async createCategoryBreakdown(insertBreakdown: InsertCategoryBreakdown): Promise<CategoryBreakdown> {
     const id = this.currentBreakdownId++;
-    const breakdown: CategoryBreakdown = { ...insertBreakdown, id };
+    const breakdown: CategoryBreakdown = { userId: null, transactionCount: 0, co2eKg: 0, ...insertBreakdown, id };
     this.categoryBreakdowns.set(id, breakdown);
     return breakdown;
   }
@@ -253,6 +599,13 @@ export class MemStorage implements IStorage {
     return Promise.all(insertBreakdowns.map(bd => this.createCategoryBreakdown(bd)));
   }
   
+  async replaceCategoryBreakdowns(userId: number, insertBreakdowns: InsertCategoryBreakdown[]): Promise<CategoryBreakdown[]> {
+    this.categoryBreakdowns.forEach((breakdown, id) => {
+      if (breakdown.userId === userId) this.categoryBreakdowns.delete(id);
+    });
+    return this.createCategoryBreakdowns(insertBreakdowns.map(bd => ({ ...bd, userId })));
+  }
+  
   // Recommendation methods
   async getRecommendations(userId?: number): Promise<Recommendation[]> {
     if (userId) {
@@ -263,13 +616,63 @@ export class MemStorage implements IStorage {
     return Array.from(this.recommendations.values());
   }
   
+  async getRecommendation(id: number): Promise<Recommendation | undefined> {
+    return this.recommendations.get(id);
+  }
+  
   async createRecommendation(insertRecommendation: InsertRecommendation): Promise<Recommendation> {
     const id = this.currentRecommendationId++;
-    const recommendation: Recommendation = { ...insertRecommendation, id };
+    const now = new Date();
+    const recommendation: Recommendation = {
+      userId: null,
+      co2eSavingsKg: 0,
+      spendSavings: 0,
+      ...insertRecommendation,
+      id,
+      status: "new",
+      snoozedUntil: null,
+      statusChangedAt: null,
+      baseline: null,
+      followThrough: null,
+      createdAt: now,
+      updatedAt: now
+    };
     this.recommendations.set(id, recommendation);
     return recommendation;
   }
   
+  async updateRecommendation(id: number, updates: Partial<Recommendation>): Promise<Recommendation | undefined> {
+    const recommendation = this.recommendations.get(id);
+    if (!recommendation) return undefined;
+    
+    const updatedRecommendation = { ...recommendation, ...updates, id, updatedAt: new Date() };
+    this.recommendations.set(id, updatedRecommendation);
+    return updatedRecommendation;
+  }
+  
+  async syncRecommendations(userId: number, insertRecommendations: InsertRecommendation[]): Promise<Recommendation[]> {
+    const keys = new Set(insertRecommendations.map(rec => rec.dedupeKey));
+    const existing = new Map<string, Recommendation>();
+    this.recommendations.forEach((rec, id) => {
+      if (rec.userId !== userId) return;
+      if (keys.has(rec.dedupeKey)) existing.set(rec.dedupeKey, rec);
+      else if (rec.status === "new") this.recommendations.delete(id);
+    });
+    
+    const saved: Recommendation[] = [];
+    for (const insertRecommendation of insertRecommendations) {
+      const current = existing.get(insertRecommendation.dedupeKey);
+      if (current) {
+        const updated = { ...current, ...insertRecommendation, userId, id: current.id, updatedAt: new Date() };
+        this.recommendations.set(current.id, updated);
+        saved.push(updated);
+      } else {
+        saved.push(await this.createRecommendation({ ...insertRecommendation, userId }));
+      }
+    }
+    return saved;
+  }
+  
   // Cashback rewards methods
   async getCashbackRewards(userId: number): Promise<CashbackReward[]> {
     return Array.from(this.cashbackRewards.values()).filter(
@@ -284,9 +687,34 @@ export class MemStorage implements IStorage {
   }
   
   async createCashbackReward(insertReward: InsertCashbackReward): Promise<CashbackReward> {
+    if (insertReward.userId != null) {
+      const existing = await this.getCashbackRewardsByMonth(insertReward.userId, insertReward.month, insertReward.year);
+      if (existing) return existing;
+    }
     const id = this.currentCashbackId++;
-    const reward: CashbackReward = { ...insertReward, id };
+    const reward: CashbackReward = {
+      userId: null,
+      redeemed: false,
+      invested: false,
+      date: new Date(),
+      currency: "USD",
+      policyVersion: null,
+      calculation: null,
+      ...insertReward,
+      id
+    };
     this.cashbackRewards.set(id, reward);
+    if (reward.userId !== null && reward.amount > 0) {
+      this.postLedgerEntry({
+        userId: reward.userId,
+        kind: "credit",
+        debitAccount: "cashback",
+        creditAccount: "rewards",
+        amount: reward.amount,
+        currency: reward.currency,
+        cashbackRewardId: id
+      });
+    }
     return reward;
   }
   
@@ -305,10 +733,82 @@ export class MemStorage implements IStorage {
   }
   
   async getUnredeemedCashbackAmount(userId: number): Promise<number> {
-    const rewards = await this.getCashbackRewards(userId);
-    return rewards
-      .filter(reward => !reward.redeemed)
-      .reduce((sum, reward) => sum + reward.amount, 0);
+    const entries = await this.getLedgerEntries(userId);
+    return roundCents(entries.reduce((sum, entry) =>
+      sum + (entry.debitAccount === "cashback" ? entry.amount : 0) - (entry.creditAccount === "cashback" ? entry.amount : 0), 0));
+  }
+  
+  async redeemCashbackReward(id: number): Promise<CashbackReward | undefined> {
+    const reward = this.cashbackRewards.get(id);
+    if (!reward) return undefined;
+    
+    const remaining = roundCents(reward.amount - (this.spentCashback().get(id) ?? 0));
+    if (reward.userId !== null && remaining > 0) {
+      this.postLedgerEntry({
+        userId: reward.userId,
+        kind: "redemption",
+        debitAccount: "payouts",
+        creditAccount: "cashback",
+        amount: remaining,
+        currency: reward.currency,
+        cashbackRewardId: id
+      });
+    }
+    const redeemedReward = { ...reward, redeemed: true };
+    this.cashbackRewards.set(id, redeemedReward);
+    return redeemedReward;
+  }
+  
+  async fundInvestmentFromCashback(
+    userId: number,
+    amount: number,
+    insertInvestment: InsertInvestment,
+    buy: Omit<InsertInvestmentTransaction, "userId" | "investmentId">
+  ): Promise<{ investment: Investment; entries: LedgerEntry[] } | undefined> {
+    const rewards = Array.from(this.cashbackRewards.values())
+      .filter(reward => reward.userId === userId && !reward.redeemed && !reward.invested)
+      .sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id);
+    const plan = planCashbackAllocation(rewards, this.spentCashback(), amount);
+    if (!plan) return undefined;
+    
+    const investment = await this.createInvestment({ ...insertInvestment, userId });
+    this.appendInvestmentTransaction({ ...buy, userId, investmentId: investment.id });
+    const entries = plan.map(({ reward, amount: allocated, exhausted }) => {
+      if (exhausted) this.cashbackRewards.set(reward.id, { ...reward, invested: true });
+      return this.postLedgerEntry({
+        userId,
+        kind: "allocation",
+        debitAccount: "investments",
+        creditAccount: "cashback",
+        amount: allocated,
+        currency: reward.currency,
+        cashbackRewardId: reward.id,
+        investmentId: investment.id
+      });
+    });
+    return { investment, entries };
+  }
+  
+  // Cashback ledger methods
+  async getLedgerEntries(userId: number): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values()).filter(entry => entry.userId === userId);
+  }
+  
+  private postLedgerEntry(insertEntry: InsertLedgerEntry): LedgerEntry {
+    const id = this.currentLedgerEntryId++;
+    const entry: LedgerEntry = { investmentId: null, cashbackRewardId: null, currency: "USD", ...insertEntry, id, createdAt: new Date() };
+    this.ledgerEntries.set(id, entry);
+    return entry;
+  }
+  
+  // Cashback already taken out of each reward, by reward id
+  private spentCashback(): Map<number, number> {
+    const spent = new Map<number, number>();
+    this.ledgerEntries.forEach(entry => {
+      if (entry.creditAccount !== "cashback" || entry.cashbackRewardId === null) return;
+      spent.set(entry.cashbackRewardId, (spent.get(entry.cashbackRewardId) ?? 0) + entry.amount);
+    });
+    return spent;
   }
   
   // Investment profile methods
@@ -359,7 +859,14 @@ export class MemStorage implements IStorage {
     const id = this.currentInvestmentId++;
     const now = new Date();
     const investment: Investment = { 
-      ...insertInvestment, 
+      userId: null,
+      profileId: null,
+      purchaseDate: now,
+      performanceData: null,
+      greenInvestmentId: null,
+      units: null,
+      // drizzle-zod widens json array columns, so narrow back to the table's insert type
+      ...(insertInvestment as typeof investments.$inferInsert), 
       id, 
       lastUpdated: now 
     };
@@ -388,7 +895,62 @@ export class MemStorage implements IStorage {
   
   async getTotalInvestmentValue(userId: number): Promise<number> {
     const investments = await this.getInvestments(userId);
-    return investments.reduce((sum, investment) => sum + investment.currentValue, 0);
+    return investments
+      .filter((investment) => investment.units !== null)
+      .reduce((sum, investment) => sum + investment.currentValue, 0);
+  }
+  
+  async getPricedInvestments(): Promise<Investment[]> {
+    return Array.from(this.investments.values()).filter(
+      (investment) => investment.greenInvestmentId !== null && investment.units !== null,
+    );
+  }
+  
+  // Investment transaction log methods
+  async getInvestmentTransactions(investmentId: number): Promise<InvestmentTransaction[]> {
+    return Array.from(this.investmentTransactions.values()).filter(
+      (transaction) => transaction.investmentId === investmentId,
+    );
+  }
+  
+  async getInvestmentTransactionsByUser(userId: number): Promise<InvestmentTransaction[]> {
+    return Array.from(this.investmentTransactions.values()).filter(
+      (transaction) => transaction.userId === userId,
+    );
+  }
+  
+  async recordInvestmentTransaction(
+    entry: InsertInvestmentTransaction,
+    updates: Partial<Investment>,
+    expectedUnits: number | null,
+    postings: Omit<InsertLedgerEntry, "userId" | "investmentId">[] = []
+  ): Promise<{ transaction: InvestmentTransaction; investment: Investment } | undefined> {
+    const investment = this.investments.get(entry.investmentId);
+    if (!investment || investment.units !== expectedUnits) return undefined;
+    
+    const transaction = this.appendInvestmentTransaction(entry);
+    for (const posting of postings) {
+      this.postLedgerEntry({ ...posting, userId: entry.userId, investmentId: entry.investmentId });
+    }
+    const updatedInvestment = { ...investment, ...updates, id: investment.id, lastUpdated: new Date() };
+    this.investments.set(investment.id, updatedInvestment);
+    return { transaction, investment: updatedInvestment };
+  }
+  
+  private appendInvestmentTransaction(entry: InsertInvestmentTransaction): InvestmentTransaction {
+    const id = this.currentInvestmentTransactionId++;
+    const transaction: InvestmentTransaction = {
+      units: null,
+      price: null,
+      priceCurrency: null,
+      costBasis: null,
+      realizedGain: null,
+      date: new Date(),
+      ...entry,
+      id
+    };
+    this.investmentTransactions.set(id, transaction);
+    return transaction;
   }
   
   // Green investments methods
@@ -407,23 +969,47 @@ export class MemStorage implements IStorage {
   
   async createGreenInvestment(insertInvestment: InsertGreenInvestment): Promise<GreenInvestment> {
     const id = this.currentGreenInvestmentId++;
-    const investment: GreenInvestment = { ...insertInvestment, id };
+    const investment: GreenInvestment = { logoUrl: null, performanceHistory: null, symbol: null, ...(insertInvestment as typeof greenInvestments.$inferInsert), id };
     this.greenInvestments.set(id, investment);
     return investment;
   }
   
+  // Investment price methods
+  async getInvestmentPrices(symbols?: string[]): Promise<InvestmentPrice[]> {
+    const prices = Array.from(this.investmentPrices.values());
+    return symbols ? prices.filter(price => symbols.includes(price.symbol)) : prices;
+  }
+  
+  async upsertInvestmentPrices(insertPrices: InsertInvestmentPrice[]): Promise<number> {
+    for (const insertPrice of insertPrices) {
+      const key = `${insertPrice.symbol}:${insertPrice.date}`;
+      const id = this.investmentPrices.get(key)?.id ?? this.currentInvestmentPriceId++;
+      this.investmentPrices.set(key, { currency: "USD", ...insertPrice, id });
+    }
+    return insertPrices.length;
+  }
+  
   // Risk assessment methods
   async getRiskAssessment(userId: number): Promise<RiskAssessment | undefined> {
-    return Array.from(this.riskAssessments.values()).find(
-      (assessment) => assessment.userId === userId,
-    );
+    return (await this.getRiskAssessmentHistory(userId)).pop();
+  }
+
+  async getRiskAssessmentHistory(userId: number): Promise<RiskAssessment[]> {
+    return Array.from(this.riskAssessments.values())
+      .filter((assessment) => assessment.userId === userId)
+      .sort((a, b) => a.version - b.version);
   }
   
-  async createRiskAssessment(insertAssessment: InsertRiskAssessment & { recommendedRiskLevel: string }): Promise<RiskAssessment> {
+  async createRiskAssessment(insertAssessment: ScoredRiskAssessment): Promise<RiskAssessment> {
     const id = this.currentRiskAssessmentId++;
+    const previous = insertAssessment.userId != null
+      ? await this.getRiskAssessment(insertAssessment.userId)
+      : undefined;
     const assessment: RiskAssessment = { 
+      userId: null,
       ...insertAssessment,
       id, 
+      version: (previous?.version ?? 0) + 1,
       date: new Date()
     };
     this.riskAssessments.set(id, assessment);
@@ -431,4 +1017,773 @@ export class MemStorage implements IStorage {
   }
 }
 
-export const storage = new MemStorage();
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database = createDatabase()) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...values } = updates;
+    const [user] = await this.db
+      .update(users)
+      .set(values)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async changeBaseCurrency(
+    id: number,
+    updates: Partial<User> & { baseCurrency: string },
+    baseAmounts: Map<number, number>,
+    rewardAmounts: Map<number, number>,
+    entryAmounts: Map<number, number>
+  ): Promise<User | undefined> {
+    const { id: _id, ...values } = updates;
+    const currency = updates.baseCurrency;
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.update(users).set(values).where(eq(users.id, id)).returning();
+      if (!user) return undefined;
+      for (const [transactionId, baseAmount] of Array.from(baseAmounts)) {
+        await tx.update(transactions).set({ baseAmount }).where(and(eq(transactions.id, transactionId), eq(transactions.userId, id)));
+      }
+      for (const [rewardId, amount] of Array.from(rewardAmounts)) {
+        await tx.update(cashbackRewards).set({ amount }).where(and(eq(cashbackRewards.id, rewardId), eq(cashbackRewards.userId, id)));
+      }
+      for (const [entryId, amount] of Array.from(entryAmounts)) {
+        await tx.update(ledgerEntries).set({ amount }).where(and(eq(ledgerEntries.id, entryId), eq(ledgerEntries.userId, id)));
+      }
+      await tx.update(cashbackRewards).set({ currency }).where(eq(cashbackRewards.userId, id));
+      await tx.update(ledgerEntries).set({ currency }).where(eq(ledgerEntries.userId, id));
+      return user;
+    });
+  }
+
+  // Exchange rate methods
+  async getExchangeRates(currencies?: string[]): Promise<ExchangeRate[]> {
+    return this.db
+      .select()
+      .from(exchangeRates)
+      .where(currencies ? inArray(exchangeRates.currency, currencies) : undefined);
+  }
+
+  async upsertExchangeRates(insertRates: InsertExchangeRate[]): Promise<number> {
+    if (insertRates.length === 0) return 0;
+    const saved = await this.db
+      .insert(exchangeRates)
+      .values(insertRates)
+      .onConflictDoUpdate({
+        target: [exchangeRates.date, exchangeRates.currency],
+        set: { rate: sql`excluded.rate` },
+      })
+      .returning({ id: exchangeRates.id });
+    return saved.length;
+  }
+
+  // Merchant catalog methods
+  async getMerchants(): Promise<Merchant[]> {
+    return this.db.select().from(merchants);
+  }
+
+  async getMerchant(id: number): Promise<Merchant | undefined> {
+    const [merchant] = await this.db.select().from(merchants).where(eq(merchants.id, id));
+    return merchant;
+  }
+
+  async getMerchantByNormalizedName(normalizedName: string): Promise<Merchant | undefined> {
+    const [merchant] = await this.db
+      .select()
+      .from(merchants)
+      .where(eq(merchants.normalizedName, normalizedName));
+    return merchant;
+  }
+
+  async createMerchant(insertMerchant: InsertMerchant): Promise<Merchant> {
+    const [merchant] = await this.db
+      .insert(merchants)
+      .values(insertMerchant)
+      .returning();
+    return merchant;
+  }
+
+  async updateMerchant(id: number, updates: Partial<Merchant>): Promise<Merchant | undefined> {
+    const { id: _id, ...values } = updates;
+    const [merchant] = await this.db
+      .update(merchants)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(merchants.id, id))
+      .returning();
+    return merchant;
+  }
+
+  async deleteMerchant(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(merchants)
+      .where(eq(merchants.id, id))
+      .returning({ id: merchants.id });
+    return deleted.length > 0;
+  }
+
+  // Transaction methods
+  async getTransactions(userId?: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(userId ? eq(transactions.userId, userId) : undefined);
+  }
+
+  async getTransactionById(id: number): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions).where(eq(transactions.id, id));
+    return transaction;
+  }
+
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    const [transaction] = await this.db.insert(transactions).values(insertTransaction).returning();
+    return transaction;
+  }
+
+  async createTransactions(insertTransactions: InsertTransaction[]): Promise<Transaction[]> {
+    if (insertTransactions.length === 0) return [];
+    return this.db.insert(transactions).values(insertTransactions).returning();
+  }
+
+  async getTransactionByExternalId(userId: number, source: string, externalId: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactions.source, source),
+        eq(transactions.externalId, externalId),
+      ));
+    return transaction;
+  }
+
+  async getTransactionsByFingerprint(userId: number, fingerprint: string): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.userId, userId), eq(transactions.fingerprint, fingerprint)));
+  }
+
+  async updateTransaction(id: number, updates: Partial<Transaction>): Promise<Transaction | undefined> {
+    const { id: _id, ...values } = updates;
+    const [transaction] = await this.db
+      .update(transactions)
+      .set(values)
+      .where(eq(transactions.id, id))
+      .returning();
+    return transaction;
+  }
+
+  async deleteTransactionsByExternalIds(userId: number, source: string, externalIds: string[]): Promise<number> {
+    if (externalIds.length === 0) return 0;
+    const deleted = await this.db
+      .delete(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        eq(transactions.source, source),
+        inArray(transactions.externalId, externalIds),
+      ))
+      .returning({ id: transactions.id });
+    return deleted.length;
+  }
+
+  async getTransactionsByCategory(category: string, userId?: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.category, category),
+        userId ? eq(transactions.userId, userId) : undefined,
+      ));
+  }
+
+  async getTransactionsByEcoScore(minScore: number, maxScore: number, userId?: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(
+        gte(transactions.ecoScore, minScore),
+        lte(transactions.ecoScore, maxScore),
+        userId ? eq(transactions.userId, userId) : undefined,
+      ));
+  }
+
+  async getTransactionsByDateRange(userId: number, from?: Date, to?: Date): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        from ? gte(transactions.date, from) : undefined,
+        to ? lt(transactions.date, to) : undefined,
+      ))
+      .orderBy(transactions.date);
+  }
+
+  // Plaid item methods
+  async getPlaidItems(userId: number): Promise<PlaidItem[]> {
+    return this.db.select().from(plaidItems).where(eq(plaidItems.userId, userId));
+  }
+
+  async getPlaidItemByItemId(itemId: string): Promise<PlaidItem | undefined> {
+    const [item] = await this.db.select().from(plaidItems).where(eq(plaidItems.itemId, itemId));
+    return item;
+  }
+
+  async createPlaidItem(insertItem: InsertPlaidItem): Promise<PlaidItem> {
+    const [item] = await this.db.insert(plaidItems).values(insertItem).returning();
+    return item;
+  }
+
+  async updatePlaidItem(id: number, updates: Partial<PlaidItem>): Promise<PlaidItem | undefined> {
+    const { id: _id, ...values } = updates;
+    const [item] = await this.db
+      .update(plaidItems)
+      .set(values)
+      .where(eq(plaidItems.id, id))
+      .returning();
+    return item;
+  }
+
+  async deletePlaidItem(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(plaidItems)
+      .where(eq(plaidItems.id, id))
+      .returning({ id: plaidItems.id });
+    return deleted.length > 0;
+  }
+
+  // Sustainability score methods
+  async getSustainabilityScores(userId?: number): Promise<SustainabilityScore[]> {
+    return this.db
+      .select()
+      .from(sustainabilityScores)
+      .where(userId ? eq(sustainabilityScores.userId, userId) : undefined);
+  }
+
+  async getLatestSustainabilityScore(userId?: number): Promise<SustainabilityScore | undefined> {
+    const [score] = await this.db
+      .select()
+      .from(sustainabilityScores)
+      .where(userId ? eq(sustainabilityScores.userId, userId) : undefined)
+      .orderBy(desc(sustainabilityScores.date))
+      .limit(1);
+    return score;
+  }
+
+  async createSustainabilityScore(insertScore: InsertSustainabilityScore): Promise<SustainabilityScore> {
+    const [score] = await this.db.insert(sustainabilityScores).values(insertScore).returning();
+    return score;
+  }
+
+  // Category breakdown methods
+  async getCategoryBreakdowns(userId?: number): Promise<CategoryBreakdown[]> {
+    return this.db
+      .select()
+      .from(categoryBreakdowns)
+      .where(userId ? eq(categoryBreakdowns.userId, userId) : undefined);
+  }
+
+  async createCategoryBreakdown(insertBreakdown: InsertCategoryBreakdown): Promise<CategoryBreakdown> {
+    const [breakdown] = await this.db.insert(categoryBreakdowns).values(insertBreakdown).returning();
+    return breakdown;
+  }
+
+  async createCategoryBreakdowns(insertBreakdowns: InsertCategoryBreakdown[]): Promise<CategoryBreakdown[]> {
+    if (insertBreakdowns.length === 0) return [];
+    return this.db.insert(categoryBreakdowns).values(insertBreakdowns).returning();
+  }
+
+  // Swap in the new set atomically so readers never see a half-refreshed breakdown
+  async replaceCategoryBreakdowns(userId: number, insertBreakdowns: InsertCategoryBreakdown[]): Promise<CategoryBreakdown[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(categoryBreakdowns).where(eq(categoryBreakdowns.userId, userId));
+      if (insertBreakdowns.length === 0) return [];
+      return tx
+        .insert(categoryBreakdowns)
+        .values(insertBreakdowns.map(bd => ({ ...bd, userId })))
+        .returning();
+    });
+  }
+
+  // Recommendation methods
+  async getRecommendations(userId?: number): Promise<Recommendation[]> {
+    return this.db
+      .select()
+      .from(recommendations)
+      .where(userId ? eq(recommendations.userId, userId) : undefined);
+  }
+
+  async getRecommendation(id: number): Promise<Recommendation | undefined> {
+    const [recommendation] = await this.db.select().from(recommendations).where(eq(recommendations.id, id));
+    return recommendation;
+  }
+
+  async createRecommendation(insertRecommendation: InsertRecommendation): Promise<Recommendation> {
+    const [recommendation] = await this.db.insert(recommendations).values(insertRecommendation).returning();
+    return recommendation;
+  }
+
+  async updateRecommendation(id: number, updates: Partial<Recommendation>): Promise<Recommendation | undefined> {
+    const { id: _id, ...values } = updates;
+    const [recommendation] = await this.db
+      .update(recommendations)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(recommendations.id, id))
+      .returning();
+    return recommendation;
+  }
+
+  async syncRecommendations(userId: number, insertRecommendations: InsertRecommendation[]): Promise<Recommendation[]> {
+    const keys = insertRecommendations.map(rec => rec.dedupeKey);
+    return this.db.transaction(async (tx) => {
+      const untouched = and(eq(recommendations.userId, userId), eq(recommendations.status, "new"));
+      await tx
+        .delete(recommendations)
+        .where(keys.length > 0 ? and(untouched, notInArray(recommendations.dedupeKey, keys)) : untouched);
+      if (insertRecommendations.length === 0) return [];
+      // Existing rows keep their id and creation time
+      return tx
+        .insert(recommendations)
+        .values(insertRecommendations.map(rec => ({ ...rec, userId })))
+        .onConflictDoUpdate({
+          target: [recommendations.userId, recommendations.dedupeKey],
+          set: {
+            ruleId: sql`excluded.rule_id`,
+            title: sql`excluded.title`,
+            description: sql`excluded.description`,
+            icon: sql`excluded.icon`,
+            potentialImpact: sql`excluded.potential_impact`,
+            co2eSavingsKg: sql`excluded.co2e_savings_kg`,
+            spendSavings: sql`excluded.spend_savings`,
+            category: sql`excluded.category`,
+            updatedAt: sql`now()`,
+          },
+        })
+        .returning();
+    });
+  }
+
+  // Cashback rewards methods
+  async getCashbackRewards(userId: number): Promise<CashbackReward[]> {
+    return this.db.select().from(cashbackRewards).where(eq(cashbackRewards.userId, userId));
+  }
+
+  async getCashbackRewardsByMonth(userId: number, month: string, year: number): Promise<CashbackReward | undefined> {
+    const [reward] = await this.db
+      .select()
+      .from(cashbackRewards)
+      .where(and(
+        eq(cashbackRewards.userId, userId),
+        eq(cashbackRewards.month, month),
+        eq(cashbackRewards.year, year),
+      ));
+    return reward;
+  }
+
+  async createCashbackReward(insertReward: InsertCashbackReward): Promise<CashbackReward> {
+    return this.db.transaction(async (tx) => {
+      const findExisting = async () => {
+        const [existing] = await tx
+          .select()
+          .from(cashbackRewards)
+          .where(and(
+            eq(cashbackRewards.userId, insertReward.userId!),
+            eq(cashbackRewards.month, insertReward.month),
+            eq(cashbackRewards.year, insertReward.year),
+          ));
+        return existing;
+      };
+      const existing = await findExisting();
+      if (existing) return existing;
+
+      const [reward] = await tx
+        .insert(cashbackRewards)
+        .values(insertReward)
+        .onConflictDoNothing({ target: [cashbackRewards.userId, cashbackRewards.month, cashbackRewards.year] })
+        .returning();
+      // Another request created the month's reward in the meantime; it has already been credited
+      if (!reward) return findExisting();
+      if (reward.userId !== null && reward.amount > 0) {
+        await tx.insert(ledgerEntries).values({
+          userId: reward.userId,
+          kind: "credit",
+          debitAccount: "cashback",
+          creditAccount: "rewards",
+          amount: reward.amount,
+          currency: reward.currency,
+          cashbackRewardId: reward.id,
+        });
+      }
+      return reward;
+    });
+  }
+
+  async updateCashbackReward(id: number, updates: Partial<CashbackReward>): Promise<CashbackReward | undefined> {
+    const { id: _id, ...values } = updates;
+    const [reward] = await this.db
+      .update(cashbackRewards)
+      .set(values)
+      .where(eq(cashbackRewards.id, id))
+      .returning();
+    return reward;
+  }
+
+  async getTotalCashbackAmount(userId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${cashbackRewards.amount}), 0)` })
+      .from(cashbackRewards)
+      .where(eq(cashbackRewards.userId, userId));
+    return Number(row.total);
+  }
+
+  async getUnredeemedCashbackAmount(userId: number): Promise<number> {
+    const [row] = await this.db
+      .select({
+        total: sql<number>`coalesce(sum(case
+          when ${ledgerEntries.debitAccount} = 'cashback' then ${ledgerEntries.amount}
+          when ${ledgerEntries.creditAccount} = 'cashback' then -${ledgerEntries.amount}
+          else 0 end), 0)`,
+      })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.userId, userId));
+    return roundCents(Number(row.total));
+  }
+
+  async redeemCashbackReward(id: number): Promise<CashbackReward | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [reward] = await tx.select().from(cashbackRewards).where(eq(cashbackRewards.id, id)).for("update");
+      if (!reward) return undefined;
+
+      const [row] = await tx
+        .select({ spent: sql<number>`coalesce(sum(${ledgerEntries.amount}), 0)` })
+        .from(ledgerEntries)
+        .where(and(eq(ledgerEntries.cashbackRewardId, id), eq(ledgerEntries.creditAccount, "cashback")));
+      const remaining = roundCents(reward.amount - Number(row.spent));
+      if (reward.userId !== null && remaining > 0) {
+        await tx.insert(ledgerEntries).values({
+          userId: reward.userId,
+          kind: "redemption",
+          debitAccount: "payouts",
+          creditAccount: "cashback",
+          amount: remaining,
+          currency: reward.currency,
+          cashbackRewardId: id,
+        });
+      }
+      const [redeemed] = await tx
+        .update(cashbackRewards)
+        .set({ redeemed: true })
+        .where(eq(cashbackRewards.id, id))
+        .returning();
+      return redeemed;
+    });
+  }
+
+  async fundInvestmentFromCashback(
+    userId: number,
+    amount: number,
+    insertInvestment: InsertInvestment,
+    buy: Omit<InsertInvestmentTransaction, "userId" | "investmentId">
+  ): Promise<{ investment: Investment; entries: LedgerEntry[] } | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the rewards so concurrent requests can't spend the same cashback twice
+      const rewards = await tx
+        .select()
+        .from(cashbackRewards)
+        .where(and(
+          eq(cashbackRewards.userId, userId),
+          eq(cashbackRewards.redeemed, false),
+          eq(cashbackRewards.invested, false),
+        ))
+        .orderBy(cashbackRewards.date, cashbackRewards.id)
+        .for("update");
+      if (rewards.length === 0) return undefined;
+
+      const spentRows = await tx
+        .select({
+          rewardId: ledgerEntries.cashbackRewardId,
+          spent: sql<number>`sum(${ledgerEntries.amount})`,
+        })
+        .from(ledgerEntries)
+        .where(and(
+          inArray(ledgerEntries.cashbackRewardId, rewards.map(reward => reward.id)),
+          eq(ledgerEntries.creditAccount, "cashback"),
+        ))
+        .groupBy(ledgerEntries.cashbackRewardId);
+      const spent = new Map(spentRows.map(row => [row.rewardId!, Number(row.spent)]));
+
+      const plan = planCashbackAllocation(rewards, spent, amount);
+      if (!plan) return undefined;
+
+      const [investment] = await tx
+        .insert(investments)
+        .values({ ...insertInvestment, userId } as typeof investments.$inferInsert)
+        .returning();
+      await tx.insert(investmentTransactions).values({ ...buy, userId, investmentId: investment.id });
+      const entries = await tx
+        .insert(ledgerEntries)
+        .values(plan.map(({ reward, amount: allocated }) => ({
+          userId,
+          kind: "allocation" as const,
+          debitAccount: "investments" as const,
+          creditAccount: "cashback" as const,
+          amount: allocated,
+          currency: reward.currency,
+          cashbackRewardId: reward.id,
+          investmentId: investment.id,
+        })))
+        .returning();
+      const exhausted = plan.filter(allocation => allocation.exhausted).map(allocation => allocation.reward.id);
+      if (exhausted.length > 0) {
+        await tx.update(cashbackRewards).set({ invested: true }).where(inArray(cashbackRewards.id, exhausted));
+      }
+      return { investment, entries };
+    });
+  }
+
+  // Cashback ledger methods
+  async getLedgerEntries(userId: number): Promise<LedgerEntry[]> {
+    return this.db
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.userId, userId))
+      .orderBy(ledgerEntries.createdAt, ledgerEntries.id);
+  }
+
+  // Investment profile methods
+  async getInvestmentProfile(userId: number): Promise<InvestmentProfile | undefined> {
+    const [profile] = await this.db
+      .select()
+      .from(investmentProfiles)
+      .where(eq(investmentProfiles.userId, userId));
+    return profile;
+  }
+
+  async createInvestmentProfile(insertProfile: InsertInvestmentProfile): Promise<InvestmentProfile> {
+    const [profile] = await this.db.insert(investmentProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updateInvestmentProfile(userId: number, updates: Partial<InvestmentProfile>): Promise<InvestmentProfile | undefined> {
+    const { id: _id, ...values } = updates;
+    const [profile] = await this.db
+      .update(investmentProfiles)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(investmentProfiles.userId, userId))
+      .returning();
+    return profile;
+  }
+
+  // Investments methods
+  async getInvestments(userId: number): Promise<Investment[]> {
+    return this.db.select().from(investments).where(eq(investments.userId, userId));
+  }
+
+  async getInvestmentById(id: number): Promise<Investment | undefined> {
+    const [investment] = await this.db.select().from(investments).where(eq(investments.id, id));
+    return investment;
+  }
+
+  async createInvestment(insertInvestment: InsertInvestment): Promise<Investment> {
+    // drizzle-zod widens json array columns, so narrow back to the table's insert type
+    const [investment] = await this.db
+      .insert(investments)
+      .values(insertInvestment as typeof investments.$inferInsert)
+      .returning();
+    return investment;
+  }
+
+  async updateInvestment(id: number, updates: Partial<Investment>): Promise<Investment | undefined> {
+    const { id: _id, ...values } = updates;
+    const [investment] = await this.db
+      .update(investments)
+      .set({ ...values, lastUpdated: new Date() })
+      .where(eq(investments.id, id))
+      .returning();
+    return investment;
+  }
+
+  async getInvestmentsByType(userId: number, type: string): Promise<Investment[]> {
+    return this.db
+      .select()
+      .from(investments)
+      .where(and(eq(investments.userId, userId), eq(investments.type, type)));
+  }
+
+  async getTotalInvestmentValue(userId: number): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sql<number>`coalesce(sum(${investments.currentValue}), 0)` })
+      .from(investments)
+      .where(and(eq(investments.userId, userId), isNotNull(investments.units)));
+    return Number(row.total);
+  }
+
+  async getPricedInvestments(): Promise<Investment[]> {
+    return this.db
+      .select()
+      .from(investments)
+      .where(and(isNotNull(investments.greenInvestmentId), isNotNull(investments.units)));
+  }
+
+  // Investment transaction log methods
+  async getInvestmentTransactions(investmentId: number): Promise<InvestmentTransaction[]> {
+    return this.db
+      .select()
+      .from(investmentTransactions)
+      .where(eq(investmentTransactions.investmentId, investmentId))
+      .orderBy(investmentTransactions.date, investmentTransactions.id);
+  }
+
+  async getInvestmentTransactionsByUser(userId: number): Promise<InvestmentTransaction[]> {
+    return this.db
+      .select()
+      .from(investmentTransactions)
+      .where(eq(investmentTransactions.userId, userId))
+      .orderBy(investmentTransactions.date, investmentTransactions.id);
+  }
+
+  async recordInvestmentTransaction(
+    entry: InsertInvestmentTransaction,
+    updates: Partial<Investment>,
+    expectedUnits: number | null,
+    postings: Omit<InsertLedgerEntry, "userId" | "investmentId">[] = []
+  ): Promise<{ transaction: InvestmentTransaction; investment: Investment } | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the holding so two sales can't both spend the same units
+      const [current] = await tx
+        .select()
+        .from(investments)
+        .where(eq(investments.id, entry.investmentId))
+        .for("update");
+      if (!current || current.units !== expectedUnits) return undefined;
+
+      const [transaction] = await tx.insert(investmentTransactions).values(entry).returning();
+      if (postings.length > 0) {
+        await tx
+          .insert(ledgerEntries)
+          .values(postings.map(posting => ({ ...posting, userId: entry.userId, investmentId: entry.investmentId })));
+      }
+      const { id: _id, ...values } = updates;
+      const [investment] = await tx
+        .update(investments)
+        .set({ ...values, lastUpdated: new Date() })
+        .where(eq(investments.id, entry.investmentId))
+        .returning();
+      return { transaction, investment };
+    });
+  }
+
+  // Green investments methods
+  async getGreenInvestments(riskLevel?: string): Promise<GreenInvestment[]> {
+    return this.db
+      .select()
+      .from(greenInvestments)
+      .where(riskLevel ? eq(greenInvestments.riskLevel, riskLevel) : undefined);
+  }
+
+  async getGreenInvestmentById(id: number): Promise<GreenInvestment | undefined> {
+    const [investment] = await this.db.select().from(greenInvestments).where(eq(greenInvestments.id, id));
+    return investment;
+  }
+
+  async createGreenInvestment(insertInvestment: InsertGreenInvestment): Promise<GreenInvestment> {
+    const [investment] = await this.db
+      .insert(greenInvestments)
+      .values(insertInvestment as typeof greenInvestments.$inferInsert)
+      .returning();
+    return investment;
+  }
+
+  // Investment price methods
+  async getInvestmentPrices(symbols?: string[]): Promise<InvestmentPrice[]> {
+    return this.db
+      .select()
+      .from(investmentPrices)
+      .where(symbols ? inArray(investmentPrices.symbol, symbols) : undefined);
+  }
+
+  async upsertInvestmentPrices(insertPrices: InsertInvestmentPrice[]): Promise<number> {
+    if (insertPrices.length === 0) return 0;
+    const saved = await this.db
+      .insert(investmentPrices)
+      .values(insertPrices)
+      .onConflictDoUpdate({
+        target: [investmentPrices.symbol, investmentPrices.date],
+        set: { price: sql`excluded.price`, currency: sql`excluded.currency` },
+      })
+      .returning({ id: investmentPrices.id });
+    return saved.length;
+  }
+
+  // Risk assessment methods
+  async getRiskAssessment(userId: number): Promise<RiskAssessment | undefined> {
+    const [assessment] = await this.db
+      .select()
+      .from(riskAssessments)
+      .where(eq(riskAssessments.userId, userId))
+      .orderBy(desc(riskAssessments.version))
+      .limit(1);
+    return assessment;
+  }
+
+  async getRiskAssessmentHistory(userId: number): Promise<RiskAssessment[]> {
+    return this.db
+      .select()
+      .from(riskAssessments)
+      .where(eq(riskAssessments.userId, userId))
+      .orderBy(riskAssessments.version);
+  }
+
+  async createRiskAssessment(insertAssessment: ScoredRiskAssessment): Promise<RiskAssessment> {
+    const userId = insertAssessment.userId!;
+    return this.db.transaction(async (tx) => {
+      // Lock the user so two retakes can't claim the same version
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+      const [latest] = await tx
+        .select({ version: sql<number>`coalesce(max(${riskAssessments.version}), 0)` })
+        .from(riskAssessments)
+        .where(eq(riskAssessments.userId, userId));
+      const [assessment] = await tx
+        .insert(riskAssessments)
+        .values({ ...insertAssessment, version: Number(latest.version) + 1 })
+        .returning();
+      return assessment;
+    });
+  }
+}
+
+/**
+ * Pick the storage backend from STORAGE_DRIVER ("memory" or "postgres").
+ * Without an explicit driver, Postgres is used whenever DATABASE_URL is set.
+ */
+export function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+      return new DatabaseStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+}
+
+export const storage = createStorage();
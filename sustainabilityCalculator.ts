@@ -1,31 +1,17 @@
-import { CSVRow } from "@shared/schema";
+import type { NormalizedTransaction } from "./transactionNormalizer";
+import type { CurrencyConverter } from "./exchangeRates";
+import { getEmissionsEngine, type EmissionsEngine } from "./emissionsEngine";
+import type { MerchantMatch, MerchantMatcher } from "./merchantCatalog";
+import { FALLBACK_CATEGORY, canonicalCategory, matchCategory } from "./categoryTaxonomy";
 import type { 
   InsertTransaction, 
   InsertSustainabilityScore, 
-  InsertCategoryBreakdown 
+  InsertCategoryBreakdown,
+  Merchant,
+  ScoreExplanation
 } from "@shared/schema";
 
-// Sustainable ratings based on merchants
-const MERCHANT_RATINGS: Record<string, number> = {
-  "whole foods": 85,
-  "trader joe's": 80,
-  "farmers market": 95,
-  "amazon": 60,
-  "walmart": 55,
-  "target": 65,
-  "h&m": 45,
-  "zara": 40,
-  "patagonia": 90,
-  "uber": 60,
-  "lyft": 62,
-  "public transit": 90,
-  "starbucks": 65,
-  "local coffee": 85,
-  "mcdonald's": 40,
-  "chipotle": 70,
-};
-
-// Category ratings for fallback when merchant is not found
+// Ratings per canonical category (see categoryTaxonomy.ts) for merchants not in the catalog
 const CATEGORY_RATINGS: Record<string, number> = {
   "groceries": 75,
   "shopping": 50,
@@ -40,132 +26,209 @@ const CATEGORY_RATINGS: Record<string, number> = {
   "other": 60,
 };
 
-// Calculate eco score for a given merchant and category
-export function calculateEcoScore(merchant: string, category: string): number {
-  // Check for merchant rating first
-  for (const [key, rating] of Object.entries(MERCHANT_RATINGS)) {
-    if (merchant.toLowerCase().includes(key.toLowerCase())) {
-      return rating;
-    }
+// Score for merchants that neither the catalog nor a category rating covers
+const DEFAULT_ECO_SCORE = 60;
+
+// Categories that usually have greener alternatives
+const CATEGORIES_WITH_ALTERNATIVES = ["shopping", "transportation", "dining", "groceries"];
+
+// Categories too vague to say anything about a purchase; a catalog match supplies a better one
+const isGenericCategory = (category: string) => canonicalCategory(category) === FALLBACK_CATEGORY;
+
+// Eco score from the catalog merchant, falling back to the category, with how it was chosen
+export function explainEcoScore(category: string, match?: MerchantMatch): ScoreExplanation["ecoScore"] {
+  if (match) {
+    const { merchant, matchedName, method, confidence } = match;
+    return {
+      score: merchant.ecoScore,
+      source: "merchant",
+      merchant: { id: merchant.id, name: merchant.name, matchedName, method, confidence, evidence: merchant.evidence }
+    };
   }
   
   // Fallback to category rating
-  for (const [key, rating] of Object.entries(CATEGORY_RATINGS)) {
-    if (category.toLowerCase().includes(key.toLowerCase())) {
-      return rating;
-    }
+  const key = matchCategory(category);
+  if (key !== undefined && CATEGORY_RATINGS[key] !== undefined) {
+    return { score: CATEGORY_RATINGS[key], source: "category", categoryRule: key };
   }
   
   // Default rating if no matches
-  return 60;
+  return { score: DEFAULT_ECO_SCORE, source: "default" };
 }
 
-// Check if sustainable alternatives should be suggested
-export function hasAlternatives(merchant: string, category: string, ecoScore: number): boolean {
+// Check if sustainable alternatives should be suggested, and why
+export function explainAlternatives(
+  category: string,
+  ecoScore: number,
+  merchant?: Merchant
+): ScoreExplanation["alternatives"] {
   // If eco score is already high, no alternatives needed
-  if (ecoScore >= 80) return false;
-  
-  // Categories that typically have alternatives
-  const categoriesWithAlternatives = ['shopping', 'transportation', 'dining', 'groceries'];
-  
-  // Check for low-rated merchants that have known alternatives
-  const merchantsWithAlternatives = ['h&m', 'zara', 'uber', 'lyft', 'starbucks', 'walmart', 'mcdonald\'s'];
+  if (ecoScore >= 80) {
+    return { hasAlternatives: false, reason: `Eco score ${ecoScore} is already 80 or above` };
+  }
   
-  // Check if the category has alternatives
-  for (const cat of categoriesWithAlternatives) {
-    if (category.toLowerCase().includes(cat)) {
-      return true;
-    }
+  // The catalog knows whether a merchant has greener substitutes
+  if (merchant) {
+    return {
+      hasAlternatives: merchant.hasAlternatives,
+      reason: merchant.hasAlternatives
+        ? `${merchant.name} has greener alternatives in the merchant catalog`
+        : `The merchant catalog lists no greener alternatives to ${merchant.name}`
+    };
   }
   
-  // Check if the merchant has alternatives
-  for (const m of merchantsWithAlternatives) {
-    if (merchant.toLowerCase().includes(m)) {
-      return true;
-    }
+  // Check if the category has alternatives
+  const key = matchCategory(category);
+  if (key !== undefined && CATEGORIES_WITH_ALTERNATIVES.includes(key)) {
+    return { hasAlternatives: true, reason: `Purchases in ${key} usually have greener alternatives` };
   }
   
-  return false;
+  return { hasAlternatives: false, reason: `No known alternatives for the ${category} category` };
 }
 
-// Process CSV rows into transaction data
-export function processTransactions(csvRows: CSVRow[], userId: number): {
+// Score normalized transactions from any source: merchants are matched against the catalog,
+// amounts converted into the user's base currency and footprints estimated by the emissions engine
+export function processTransactions(
+  normalized: NormalizedTransaction[],
+  userId: number,
+  converter: CurrencyConverter,
+  matcher: MerchantMatcher,
+  engine: EmissionsEngine = getEmissionsEngine()
+): {
   transactions: InsertTransaction[];
   sustainabilityScore: InsertSustainabilityScore;
   categoryBreakdowns: InsertCategoryBreakdown[];
 } {
   const transactions: InsertTransaction[] = [];
-  const categoryMap = new Map<string, { amount: number; ecoScore: number; count: number }>();
-  let totalEcoScore = 0;
-  let totalCarbonFootprint = 0;
-  let sustainablePurchasesCount = 0;
-  let totalWaterUsage = 0;
   
   // Process each transaction
-  for (const row of csvRows) {
-    // Parse date and amount
-    const date = new Date(row.date);
-    const amount = parseFloat(row.amount.replace('$', '').replace(',', ''));
-    
-    if (isNaN(amount)) {
-      throw new Error(`Invalid amount format: ${row.amount}`);
-    }
+  for (const normalizedRow of normalized) {
+    const match = matcher.match(normalizedRow.merchant);
+    const merchant = match?.merchant;
+    const row = merchant && isGenericCategory(normalizedRow.category)
+      ? { ...normalizedRow, category: merchant.category }
+      : normalizedRow;
     
     // Calculate eco score
-    const ecoScore = calculateEcoScore(row.merchant, row.category);
+    const ecoScore = explainEcoScore(row.category, match);
     
-    // Determine if alternatives should be suggested
-    const hasAlts = hasAlternatives(row.merchant, row.category, ecoScore);
+    // Only purchases can be swapped for a greener option
+    const alternatives: ScoreExplanation["alternatives"] = row.kind === "purchase"
+      ? explainAlternatives(row.category, ecoScore.score, merchant)
+      : { hasAlternatives: false, reason: `A ${row.kind} is not a purchase that could be swapped` };
+    
+    // Credits such as card payments don't buy anything, so they carry no footprint
+    const emissions = row.kind === "credit" ? undefined : engine.estimate(row, converter);
     
     // Create transaction
     const transaction: InsertTransaction = {
-      date,
+      date: row.date,
       merchant: row.merchant,
+      merchantId: merchant?.id ?? null,
       category: row.category,
-      amount,
-      ecoScore,
-      hasAlternatives: hasAlts,
-      userId
+      amount: row.amount,
+      currency: row.currency,
+      baseAmount: converter.toBase(row.amount, row.currency, row.date),
+      ecoScore: ecoScore.score,
+      hasAlternatives: alternatives.hasAlternatives,
+      co2eKg: emissions?.co2eKg ?? 0,
+      waterLiters: emissions?.waterLiters ?? 0,
+      methodologyVersion: engine.methodologyVersion,
+      scoreExplanation: {
+        ecoScore,
+        category: { original: normalizedRow.category, applied: row.category },
+        alternatives,
+        emissions: emissions && {
+          methodologyVersion: emissions.methodologyVersion,
+          factorCategory: emissions.factorCategory,
+          sector: emissions.sector,
+          co2eKgPerUnit: emissions.co2eKgPerUnit,
+          waterLitersPerUnit: emissions.waterLitersPerUnit,
+          spend: emissions.spend,
+          spendCurrency: emissions.spendCurrency,
+          co2eKg: emissions.co2eKg,
+          waterLiters: emissions.waterLiters
+        }
+      },
+      userId,
+      kind: row.kind
     };
     
     transactions.push(transaction);
+  }
+  
+  return {
+    transactions,
+    ...summarizeTransactions(transactions, userId)
+  };
+}
+
+/**
+ * Calculate the sustainability score and category breakdowns for a set of
+ * transactions. Refunds (negative amounts) net out the spending and impact of
+ * the purchase they reverse but don't count as purchases; other credits such
+ * as card payments are ignored. Totals are in the user's base currency;
+ * rows without a converted amount are taken as already being in it.
+ * Carbon and water are the sums of the per-transaction estimates.
+ */
+export function summarizeTransactions(transactions: InsertTransaction[], userId: number): {
+  sustainabilityScore: InsertSustainabilityScore;
+  categoryBreakdowns: InsertCategoryBreakdown[];
+} {
+  const categoryMap = new Map<string, { amount: number; ecoScore: number; count: number; transactions: number; co2eKg: number }>();
+  let totalEcoScore = 0;
+  let purchaseCount = 0;
+  let totalCarbonFootprint = 0;
+  let sustainablePurchasesCount = 0;
+  let totalWaterUsage = 0;
+  
+  for (const transaction of transactions) {
+    const { amount: rawAmount, baseAmount, ecoScore, category: rawCategory, kind = "purchase" } = transaction;
+    if (kind === "credit") continue;
+    const amount = baseAmount ?? rawAmount;
+    const isPurchase = kind === "purchase";
     
-    // Update statistics
-    totalEcoScore += ecoScore;
-    
-    // Calculate carbon footprint (simplified model)
-    const carbonImpact = (100 - ecoScore) * 0.05 * amount; // kg CO2
-    totalCarbonFootprint += carbonImpact;
+    // Per-transaction estimates from the emissions engine
+    totalCarbonFootprint += transaction.co2eKg ?? 0; // kg CO2e
+    totalWaterUsage += (transaction.waterLiters ?? 0) / 1000; // kL
     
-    // Calculate water usage (simplified model)
-    const waterUsage = (100 - ecoScore) * 0.001 * amount; // kL
-    totalWaterUsage += waterUsage;
+    // Update category breakdown, merging the many names a category goes by
+    const category = canonicalCategory(rawCategory);
+    const categoryData = categoryMap.get(category) || { amount: 0, ecoScore: 0, count: 0, transactions: 0, co2eKg: 0 };
+    categoryData.amount += amount;
+    categoryData.transactions += 1;
+    categoryData.co2eKg += transaction.co2eKg ?? 0;
     
-    // Count sustainable purchases (eco score >= 70)
-    if (ecoScore >= 70) {
-      sustainablePurchasesCount++;
+    if (isPurchase) {
+      // Update statistics
+      totalEcoScore += ecoScore;
+      purchaseCount++;
+      
+      // Count sustainable purchases (eco score >= 70)
+      if (ecoScore >= 70) {
+        sustainablePurchasesCount++;
+      }
+      
+      categoryData.ecoScore += ecoScore;
+      categoryData.count += 1;
     }
-    
-    // Update category breakdown
-    const category = row.category.toLowerCase();
-    const categoryData = categoryMap.get(category) || { amount: 0, ecoScore: 0, count: 0 };
-    categoryData.amount += amount;
-    categoryData.ecoScore += ecoScore;
-    categoryData.count += 1;
     categoryMap.set(category, categoryData);
   }
   
   // Calculate overall sustainability score
-  const overallScore = Math.round(totalEcoScore / transactions.length);
-  const sustainablePurchasesPercentage = Math.round((sustainablePurchasesCount / transactions.length) * 100);
+  const overallScore = purchaseCount > 0 ? Math.round(totalEcoScore / purchaseCount) : 0;
+  const sustainablePurchasesPercentage = purchaseCount > 0
+    ? Math.round((sustainablePurchasesCount / purchaseCount) * 100)
+    : 0;
   
   // Create sustainability score record
   const sustainabilityScore: InsertSustainabilityScore = {
     userId,
     overallScore,
-    carbonFootprint: Math.round(totalCarbonFootprint * 10) / 10, // Round to 1 decimal place
+    // Refunds can't take the footprint below zero when their purchase is outside this set
+    carbonFootprint: Math.max(0, Math.round(totalCarbonFootprint * 10) / 10), // Round to 1 decimal place
     sustainablePurchases: sustainablePurchasesPercentage,
-    waterUsage: Math.round(totalWaterUsage * 10) / 10, // Round to 1 decimal place
+    waterUsage: Math.max(0, Math.round(totalWaterUsage * 10) / 10), // Round to 1 decimal place
     date: new Date()
   };
   
@@ -177,12 +240,14 @@ export function processTransactions(csvRows: CSVRow[], userId: number): {
       userId,
       category,
       amount: Math.round(data.amount * 100) / 100, // Round to 2 decimal places
-      ecoScore: Math.round(data.ecoScore / data.count) // Average eco score for category
+      // Average eco score of the category's purchases (refund-only categories fall back to neutral)
+      ecoScore: data.count > 0 ? Math.round(data.ecoScore / data.count) : DEFAULT_ECO_SCORE,
+      transactionCount: data.transactions,
+      co2eKg: Math.round(data.co2eKg * 100) / 100
     });
   }
   
   return {
-    transactions,
     sustainabilityScore,
     categoryBreakdowns
   };
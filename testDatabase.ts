@@ -0,0 +1,39 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { newDb } from "pg-mem";
+import { createDatabase, type Database } from "./db";
+
+const MIGRATIONS_DIR = path.resolve(process.cwd(), "migrations");
+
+/**
+ * A fresh in-memory Postgres (pg-mem) with every migration applied, for
+ * running DatabaseStorage in tests. Drizzle asks pg for its own type parsers
+ * and for rows as arrays, neither of which pg-mem's adapter supports, so
+ * queries go through a shim that drops the parsers and builds the array rows.
+ */
+export function createTestDatabase(): Database {
+  const memory = newDb();
+  const files = readdirSync(MIGRATIONS_DIR).filter(file => file.endsWith(".sql")).sort();
+  for (const file of files) {
+    const statements = readFileSync(path.join(MIGRATIONS_DIR, file), "utf8").split("--> statement-breakpoint");
+    for (const statement of statements) {
+      if (statement.trim()) memory.public.none(statement);
+    }
+  }
+
+  const { Pool, Client } = memory.adapters.createPg();
+  for (const prototype of [Pool.prototype, Client.prototype]) {
+    const query = prototype.query;
+    prototype.query = async function (config: any, ...args: any[]) {
+      if (!config || typeof config !== "object") return query.call(this, config, ...args);
+      const { types: _types, rowMode, ...rest } = config;
+      const result = await query.call(this, rest, ...args);
+      if (rowMode === "array") {
+        // Columns come back in select order
+        result.rows = result.rows.map((row: Record<string, unknown>) => Object.values(row));
+      }
+      return result;
+    };
+  }
+  return createDatabase(new Pool());
+}
@@ -0,0 +1,57 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+const DEV_TOKEN_KEY = "eco-sustainability-dev-token-key";
+
+let cachedKey: Buffer | null = null;
+
+// Derive a 256-bit key from PLAID_TOKEN_KEY so any sufficiently long secret works
+function getKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  let secret = process.env.PLAID_TOKEN_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("PLAID_TOKEN_KEY must be set in production");
+    }
+    console.warn("Warning: PLAID_TOKEN_KEY not set, using an insecure development key.");
+    secret = DEV_TOKEN_KEY;
+  }
+
+  cachedKey = createHash("sha256").update(secret).digest();
+  return cachedKey;
+}
+
+/**
+ * Encrypt a secret token for storage
+ * @param plaintext Token as returned by the provider
+ * @returns `v1:<iv>:<auth tag>:<ciphertext>`, each part base64 encoded
+ */
+export function encryptToken(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+}
+
+/**
+ * Decrypt a token produced by encryptToken
+ * @throws Error when the payload is malformed or was encrypted with another key
+ */
+export function decryptToken(payload: string): string {
+  const [version, iv, tag, ciphertext] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || !ciphertext) {
+    throw new Error("Unrecognized encrypted token format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { InsertTransaction, User } from "@shared/schema";
+import { storage } from "../storage";
+import { computeFingerprint, importTransactions, type ImportRow } from "./transactionImport";
+
+let run = 0;
+let user: User;
+
+beforeEach(async () => {
+  run++;
+  user = await storage.createUser({ username: `import-${run}`, password: "hashed" });
+});
+
+const purchase = (date: string, merchant: string, amount: number, overrides: Partial<InsertTransaction> = {}): ImportRow => ({
+  transaction: { date: new Date(`${date}T00:00:00Z`), merchant, category: "Groceries", amount, ecoScore: 60, ...overrides }
+});
+
+const statement = [
+  purchase("2024-03-01", "Whole Foods", 54.2),
+  purchase("2024-03-02", "Shell", 40),
+  purchase("2024-03-03", "Blue Bottle", 4.5),
+];
+
+const stored = async () => (await storage.getTransactions(user.id)).map(tx => [tx.source, tx.externalId, tx.merchant, tx.amount]);
+
+describe("computeFingerprint", () => {
+  it("ignores the time of day and how the merchant is written", () => {
+    expect(computeFingerprint({ date: new Date("2024-03-01T08:00:00Z"), merchant: "WHOLE FOODS #123", amount: 54.2 }))
+      .toBe(computeFingerprint({ date: new Date("2024-03-01T00:00:00Z"), merchant: "whole foods 123", amount: 54.20 }));
+    expect(computeFingerprint({ date: new Date("2024-03-01"), merchant: "Whole Foods", amount: 54.2 }))
+      .not.toBe(computeFingerprint({ date: new Date("2024-03-02"), merchant: "Whole Foods", amount: 54.2 }));
+  });
+});
+
+describe("importTransactions", () => {
+  it("skips a re-imported statement instead of duplicating it", async () => {
+    expect((await importTransactions(user.id, "csv", statement)).inserted).toHaveLength(3);
+    expect(await importTransactions(user.id, "csv", statement)).toEqual({ inserted: [], updated: [], skipped: 3 });
+    expect(await storage.getTransactions(user.id)).toHaveLength(3);
+  });
+
+  it("updates a re-imported row that changed", async () => {
+    await importTransactions(user.id, "csv", statement);
+    const rescored = [statement[0], { transaction: { ...statement[1].transaction, ecoScore: 30 } }, statement[2]];
+    const result = await importTransactions(user.id, "csv", rescored);
+    expect(result.updated.map(tx => [tx.merchant, tx.ecoScore])).toEqual([["Shell", 30]]);
+    expect(result.skipped).toBe(2);
+  });
+
+  it("keeps identical purchases on the same day apart by occurrence", async () => {
+    const coffee = purchase("2024-03-03", "Blue Bottle", 4.5);
+    const first = await importTransactions(user.id, "csv", [coffee, coffee]);
+    const fingerprint = computeFingerprint(coffee.transaction);
+    expect(first.inserted.map(tx => tx.externalId)).toEqual([`${fingerprint}-0`, `${fingerprint}-1`]);
+
+    // The same two again are the same two, and a third that day is new
+    expect(await importTransactions(user.id, "csv", [coffee, coffee])).toMatchObject({ inserted: [], skipped: 2 });
+    expect((await importTransactions(user.id, "csv", [coffee, coffee, coffee])).inserted.map(tx => tx.externalId))
+      .toEqual([`${fingerprint}-2`]);
+  });
+
+  it("lets a bank-synced row take over the matching CSV row", async () => {
+    const [csvRow] = (await importTransactions(user.id, "csv", statement)).inserted;
+    const synced = { ...purchase("2024-03-01", "WHOLE FOODS", 54.2, { category: "Food and Drink" }), externalId: "plaid-tx-1" };
+
+    const result = await importTransactions(user.id, "plaid", [synced]);
+    expect(result.inserted).toHaveLength(0);
+    expect(result.updated).toMatchObject([{ id: csvRow.id, source: "plaid", externalId: "plaid-tx-1", category: "Food and Drink" }]);
+    expect(await storage.getTransactions(user.id)).toHaveLength(3);
+
+    // Later syncs find it by its Plaid id
+    expect(await importTransactions(user.id, "plaid", [synced])).toMatchObject({ updated: [], skipped: 1 });
+  });
+
+  it("skips CSV rows that a bank sync already brought in", async () => {
+    await importTransactions(user.id, "plaid", [
+      { ...purchase("2024-03-01", "Whole Foods", 54.2), externalId: "plaid-tx-1" },
+      { ...purchase("2024-03-02", "Shell", 40), externalId: "plaid-tx-2" },
+    ]);
+
+    const result = await importTransactions(user.id, "csv", statement);
+    expect(result.skipped).toBe(2);
+    expect(result.inserted.map(tx => tx.merchant)).toEqual(["Blue Bottle"]);
+    expect(await stored()).toEqual([
+      ["plaid", "plaid-tx-1", "Whole Foods", 54.2],
+      ["plaid", "plaid-tx-2", "Shell", 40],
+      ["csv", `${computeFingerprint(statement[2].transaction)}-0`, "Blue Bottle", 4.5],
+    ]);
+  });
+
+  it("matches one existing row to at most one incoming row", async () => {
+    const coffee = purchase("2024-03-03", "Blue Bottle", 4.5);
+    await importTransactions(user.id, "csv", [coffee]);
+
+    // Two identical synced purchases: the first adopts the CSV row, the second is new
+    const result = await importTransactions(user.id, "plaid", [
+      { ...coffee, externalId: "plaid-a" },
+      { ...coffee, externalId: "plaid-b" },
+    ]);
+    expect(result.updated.map(tx => tx.externalId)).toEqual(["plaid-a"]);
+    expect(result.inserted.map(tx => tx.externalId)).toEqual(["plaid-b"]);
+  });
+});
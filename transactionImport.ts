@@ -0,0 +1,100 @@
+import { createHash } from "crypto";
+import type { InsertTransaction, Transaction } from "@shared/schema";
+import { storage } from "../storage";
+
+export type TransactionSource = "csv" | "plaid";
+
+export interface ImportRow {
+  transaction: InsertTransaction;
+  // Provider id such as Plaid's transaction_id; CSV rows derive one from the fingerprint
+  externalId?: string;
+}
+
+export interface ImportResult {
+  inserted: Transaction[];
+  updated: Transaction[];
+  skipped: number;
+}
+
+// Fields that, when changed upstream, turn a re-import into an update
+const TRACKED_FIELDS = [
+  "merchant", "category", "amount", "currency", "baseAmount", "ecoScore", "hasAlternatives",
+  "co2eKg", "waterLiters", "methodologyVersion", "merchantId"
+] as const;
+
+function normalizeMerchant(merchant: string): string {
+  return merchant.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Stable hash of date, merchant and amount. The same purchase produces the
+ * same fingerprint whether it arrived from a CSV statement or a bank sync.
+ */
+export function computeFingerprint(tx: Pick<InsertTransaction, "date" | "merchant" | "amount">): string {
+  const day = new Date(tx.date).toISOString().split("T")[0];
+  const key = `${day}|${normalizeMerchant(tx.merchant)}|${tx.amount.toFixed(2)}`;
+  return createHash("sha256").update(key).digest("hex").slice(0, 32);
+}
+
+function hasChanges(existing: Transaction, incoming: InsertTransaction): boolean {
+  if (new Date(existing.date).getTime() !== new Date(incoming.date).getTime()) return true;
+  return TRACKED_FIELDS.some(field => incoming[field] !== undefined && existing[field] !== incoming[field]);
+}
+
+/**
+ * Idempotently import transactions for a user.
+ *
+ * A row whose source and external id already exist is updated if it changed
+ * and skipped otherwise. A row matching another source's transaction by
+ * fingerprint is a duplicate: bank-synced rows adopt the matching CSV row,
+ * CSV rows that overlap a bank sync are skipped.
+ */
+export async function importTransactions(
+  userId: number,
+  source: TransactionSource,
+  rows: ImportRow[]
+): Promise<ImportResult> {
+  const result: ImportResult = { inserted: [], updated: [], skipped: 0 };
+  // Identical purchases in one file (two coffees on the same day) are kept apart by occurrence
+  const occurrences = new Map<string, number>();
+  // Rows already matched in this import, so one existing row can't absorb two incoming ones
+  const claimed = new Set<number>();
+
+  for (const row of rows) {
+    const fingerprint = computeFingerprint(row.transaction);
+    const occurrence = occurrences.get(fingerprint) ?? 0;
+    occurrences.set(fingerprint, occurrence + 1);
+
+    const externalId = row.externalId ?? `${fingerprint}-${occurrence}`;
+    const incoming: InsertTransaction = { ...row.transaction, userId, source, externalId, fingerprint };
+
+    const existing = await storage.getTransactionByExternalId(userId, source, externalId);
+    if (existing) {
+      claimed.add(existing.id);
+      if (hasChanges(existing, incoming)) {
+        result.updated.push((await storage.updateTransaction(existing.id, incoming))!);
+      } else {
+        result.skipped++;
+      }
+      continue;
+    }
+
+    const duplicate = (await storage.getTransactionsByFingerprint(userId, fingerprint))
+      .find(tx => tx.source !== source && !claimed.has(tx.id));
+    if (duplicate) {
+      claimed.add(duplicate.id);
+      if (source === "plaid" && duplicate.source === "csv") {
+        result.updated.push((await storage.updateTransaction(duplicate.id, incoming))!);
+      } else {
+        result.skipped++;
+      }
+      continue;
+    }
+
+    const saved = await storage.createTransaction(incoming);
+    claimed.add(saved.id);
+    result.inserted.push(saved);
+  }
+
+  return result;
+}
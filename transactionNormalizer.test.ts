@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import type { Transaction as PlaidTransaction } from "plaid";
+import {
+  NormalizationError,
+  normalizeAmount,
+  normalizePlaidTransaction,
+  normalizeTransaction,
+  parseMoney,
+  parseTransactionDate
+} from "./transactionNormalizer";
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+describe("parseTransactionDate", () => {
+  it("reads a slash date by the format it's given", () => {
+    expect(isoDay(parseTransactionDate("03/04/2024", "MM/DD/YYYY"))).toBe("2024-03-04");
+    expect(isoDay(parseTransactionDate("03/04/2024", "DD/MM/YYYY"))).toBe("2024-04-03");
+  });
+
+  it("rejects a slash date that could be either way round unless a format is given", () => {
+    expect(() => parseTransactionDate("03/04/2024")).toThrow(NormalizationError);
+    expect(() => parseTransactionDate("03/04/2024", "auto")).toThrow("could be month or day first");
+  });
+
+  it("reads the dates that only have one reading", () => {
+    expect(["2024-03-04", "2024-03-04T18:30:00", "04.03.2024", "13/03/2024", "03/13/2024", "03/03/2024", "3/4/24"]
+      .map(value => { try { return isoDay(parseTransactionDate(value)); } catch { return "rejected"; } }))
+      .toEqual(["2024-03-04", "2024-03-04", "2024-03-04", "2024-03-13", "2024-03-13", "2024-03-03", "rejected"]);
+  });
+
+  it("lands on UTC midnight", () => {
+    expect(parseTransactionDate("2024-03-04").toISOString()).toBe("2024-03-04T00:00:00.000Z");
+  });
+
+  it("rejects days that don't exist and text that isn't a date", () => {
+    expect(() => parseTransactionDate("2023-02-29")).toThrow('"2023-02-29" is not a valid calendar date');
+    expect(() => parseTransactionDate("31/04/2024", "DD/MM/YYYY")).toThrow("is not a valid calendar date");
+    expect(() => parseTransactionDate("yesterday")).toThrow("is not a date in a supported format");
+  });
+});
+
+describe("parseMoney", () => {
+  it.each([
+    ["1,234.56", 1234.56, "USD"],
+    ["1.234,56", 1234.56, "USD"],
+    ["1.234,56 EUR", 1234.56, "EUR"],
+    ["€12,50", 12.5, "EUR"],
+    ["£1 234.50", 1234.5, "GBP"],
+    ["1.234.567", 1234567, "USD"],
+    ["(12.00)", -12, "USD"],
+    ["-12.00", -12, "USD"],
+    ["12.00-", -12, "USD"],
+    ["$-5.00", -5, "USD"],
+    ["-$5.00", -5, "USD"],
+    ["CAD $5.00", 5, "CAD"],
+  ])("reads %s", (value, amount, currency) => {
+    expect(parseMoney(value)).toEqual({ amount, currency, marker: undefined });
+  });
+
+  it("keeps a CR or DR suffix apart from the sign", () => {
+    expect(parseMoney("45.10 CR")).toEqual({ amount: 45.1, currency: "USD", marker: "CR" });
+    expect(parseMoney("45.10dr")).toEqual({ amount: 45.1, currency: "USD", marker: "DR" });
+  });
+
+  it("follows an explicit decimal separator and default currency", () => {
+    expect(parseMoney("1,234", { decimalSeparator: "," })).toMatchObject({ amount: 1.234 });
+    expect(parseMoney("1,234", { decimalSeparator: "." })).toMatchObject({ amount: 1234 });
+    expect(parseMoney("12.00", { currency: "gbp" })).toMatchObject({ currency: "GBP" });
+  });
+
+  it("rejects what isn't an amount", () => {
+    expect(() => parseMoney("twelve")).toThrow('"twelve" is not a valid amount');
+    expect(() => parseMoney("")).toThrow(NormalizationError);
+  });
+});
+
+describe("normalizeAmount", () => {
+  it("takes purchases as positive by default and flips them for debit_negative files", () => {
+    expect(normalizeAmount({ amount: "12.00" })).toEqual({ amount: 12, currency: "USD" });
+    expect(normalizeAmount({ amount: "-12.00" }, { signConvention: "debit_negative" })).toEqual({ amount: 12, currency: "USD" });
+    expect(normalizeAmount({ amount: "12.00" }, { signConvention: "debit_negative" })).toEqual({ amount: -12, currency: "USD" });
+  });
+
+  it("lets CR and DR decide the direction under either convention", () => {
+    for (const signConvention of ["debit_positive", "debit_negative"] as const) {
+      expect(normalizeAmount({ amount: "45.10 CR" }, { signConvention }).amount).toBe(-45.1);
+      expect(normalizeAmount({ amount: "-45.10 DR" }, { signConvention }).amount).toBe(45.1);
+    }
+  });
+
+  it("reads separate debit and credit columns as money out and money in", () => {
+    expect(normalizeAmount({ debit: "40.00", credit: "" })).toEqual({ amount: 40, currency: "USD" });
+    expect(normalizeAmount({ debit: "", credit: "500.00" })).toEqual({ amount: -500, currency: "USD" });
+    // Some banks write credits with a minus; the column alone says which way the money went
+    expect(normalizeAmount({ debit: "", credit: "-500.00" })).toEqual({ amount: -500, currency: "USD" });
+    expect(normalizeAmount({ debit: "40.00", credit: "5.00" }).amount).toBe(40);
+  });
+
+  it("needs an amount", () => {
+    expect(() => normalizeAmount({ debit: "", credit: "" })).toThrow("Amount is missing");
+  });
+});
+
+describe("normalizeTransaction", () => {
+  it("marks money back as a refund when the line says so and a credit otherwise", () => {
+    const line = { date: "2024-03-04", merchant: " Market ", category: "Groceries" };
+    expect(normalizeTransaction({ ...line, amount: "12.00" })).toMatchObject({ merchant: "Market", amount: 12, kind: "purchase" });
+    expect(normalizeTransaction({ ...line, merchant: "Market REFUND", amount: "-12.00" }).kind).toBe("refund");
+    expect(normalizeTransaction({ ...line, amount: "-12.00" }).kind).toBe("credit");
+  });
+});
+
+describe("normalizePlaidTransaction", () => {
+  const plaid = (overrides: Partial<PlaidTransaction>) => ({
+    transaction_id: "tx-1",
+    account_id: "acc-1",
+    date: "2024-03-04",
+    name: "SHELL OIL 5742",
+    merchant_name: "Shell",
+    category: ["Travel", "Gas Stations"],
+    amount: 40,
+    iso_currency_code: "USD",
+    unofficial_currency_code: null,
+    ...overrides
+  }) as PlaidTransaction;
+
+  it("keeps Plaid's sign, where money leaving the account is positive as in ours", () => {
+    expect(normalizePlaidTransaction(plaid({}))).toMatchObject({ merchant: "Shell", category: "Travel", amount: 40, kind: "purchase" });
+    expect(normalizePlaidTransaction(plaid({ amount: -40, name: "SHELL REFUND", merchant_name: null }))).toMatchObject({
+      merchant: "SHELL REFUND",
+      amount: -40,
+      kind: "refund"
+    });
+    expect(normalizePlaidTransaction(plaid({ amount: -1500, name: "PAYROLL", merchant_name: null, category: null })))
+      .toMatchObject({ category: "Unknown", amount: -1500, kind: "credit" });
+  });
+
+  it("takes the currency Plaid reports", () => {
+    expect(normalizePlaidTransaction(plaid({ iso_currency_code: null, unofficial_currency_code: "BTC" })).currency).toBe("BTC");
+    expect(normalizePlaidTransaction(plaid({ iso_currency_code: null })).currency).toBe("USD");
+    expect(isoDay(normalizePlaidTransaction(plaid({})).date)).toBe("2024-03-04");
+  });
+});
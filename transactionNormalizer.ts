@@ -0,0 +1,261 @@
+import type { Transaction as PlaidTransaction } from "plaid";
+import { csvDateFormats } from "@shared/schema";
+
+export type DateFormat = typeof csvDateFormats[number];
+export type DecimalSeparator = "auto" | "." | ",";
+// debit_positive: purchases are positive (our convention); debit_negative: purchases are negative
+export type SignConvention = "debit_positive" | "debit_negative";
+// purchase: money out; refund: money back from a merchant; credit: any other money in
+export type TransactionKind = "purchase" | "refund" | "credit";
+
+export interface NormalizationOptions {
+  dateFormat?: DateFormat;
+  decimalSeparator?: DecimalSeparator;
+  signConvention?: SignConvention;
+  // ISO 4217 code for amounts that carry no currency symbol or code
+  currency?: string;
+}
+
+export interface NormalizedTransaction {
+  // Calendar date at UTC midnight, independent of the server's time zone
+  date: Date;
+  merchant: string;
+  category: string;
+  // Signed, money out positive; refunds and other credits are negative
+  amount: number;
+  currency: string;
+  kind: TransactionKind;
+}
+
+export class NormalizationError extends Error {
+  constructor(message: string, public field: "date" | "amount") {
+    super(message);
+    this.name = "NormalizationError";
+  }
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "$": "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+};
+
+const REFUND_PATTERN = /\b(refund|return|reversal|chargeback)\b/i;
+
+function utcDate(year: number, month: number, day: number, value: string): Date {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+
+  // Date.UTC rolls Feb 30 over into March, so confirm the parts survived
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new NormalizationError(`"${value}" is not a valid calendar date`, "date");
+  }
+  return date;
+}
+
+/**
+ * Parse a statement date into UTC midnight.
+ *
+ * "auto" accepts ISO dates (optionally with a time), DD.MM.YYYY, and
+ * slash dates where only one reading is possible. A slash date such as
+ * 03/04/2024 could be either month first or day first, so it is rejected
+ * and needs an explicit format.
+ */
+export function parseTransactionDate(value: string, format: DateFormat = "auto"): Date {
+  const trimmed = value.trim();
+  const parts = trimmed.split(/[T\s]/)[0].split(/[-/.]/).map(Number);
+
+  if (parts.length !== 3 || parts.some(isNaN)) {
+    throw new NormalizationError(`"${value}" is not a date in a supported format (${csvDateFormats.join(", ")})`, "date");
+  }
+
+  const [a, b, c] = parts;
+  switch (format) {
+    case "YYYY-MM-DD":
+      return utcDate(a, b, c, value);
+    case "MM/DD/YYYY":
+      return utcDate(c, a, b, value);
+    case "DD/MM/YYYY":
+    case "DD.MM.YYYY":
+      return utcDate(c, b, a, value);
+    case "auto":
+      if (/^\d{4}[-/.]/.test(trimmed)) return utcDate(a, b, c, value);
+      if (trimmed.includes(".") || a > 12) return utcDate(c, b, a, value);
+      if (b <= 12 && a !== b) {
+        throw new NormalizationError(
+          `"${value}" could be month or day first; set the date format to MM/DD/YYYY or DD/MM/YYYY`,
+          "date"
+        );
+      }
+      return utcDate(c, a, b, value);
+  }
+}
+
+// Decide which of "." and "," is the decimal separator when the caller didn't say
+function detectDecimalSeparator(digits: string): "." | "," {
+  const lastDot = digits.lastIndexOf(".");
+  const lastComma = digits.lastIndexOf(",");
+
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? "." : ",";
+  if (lastComma >= 0) return /,\d{1,2}$/.test(digits) ? "," : ".";
+  if (/^\d{1,3}(\.\d{3}){2,}$/.test(digits)) return ",";
+  return ".";
+}
+
+export interface ParsedMoney {
+  amount: number;
+  currency: string;
+  // Set when the value carried a CR/DR suffix, which fixes the direction regardless of sign convention
+  marker?: "CR" | "DR";
+}
+
+/**
+ * Parse a formatted amount such as "$1,234.56", "1.234,56 EUR", "(12.00)"
+ * or "45.10 CR" into a signed number as written plus its currency.
+ * Parentheses and a leading or trailing minus make it negative.
+ */
+export function parseMoney(
+  value: string,
+  options: Pick<NormalizationOptions, "decimalSeparator" | "currency"> = {}
+): ParsedMoney {
+  let text = value.trim();
+  let negative = false;
+  let currency = options.currency?.toUpperCase();
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+
+  const markerMatch = text.match(/\s*(CR|DR)$/i);
+  const marker = markerMatch ? markerMatch[1].toUpperCase() as "CR" | "DR" : undefined;
+  if (markerMatch) {
+    text = text.slice(0, markerMatch.index).trim();
+  }
+
+  if (text.startsWith("-") || text.endsWith("-")) {
+    negative = !negative;
+    text = text.replace(/^-|-$/g, "").trim();
+  } else if (text.startsWith("+")) {
+    text = text.slice(1).trim();
+  }
+
+  const code = text.match(/^([A-Z]{3})\s*|\s*([A-Z]{3})$/i);
+  if (code) {
+    currency = (code[1] || code[2]).toUpperCase();
+    text = text.replace(code[0], "");
+  }
+
+  for (const [symbol, symbolCurrency] of Object.entries(CURRENCY_SYMBOLS)) {
+    if (text.includes(symbol)) {
+      // "$" is shared by many dollars, so an explicit dollar currency wins over USD
+      if (!(symbol === "$" && currency?.endsWith("D"))) {
+        currency = symbolCurrency;
+      }
+      text = text.replace(symbol, "");
+    }
+  }
+
+  // Sign may also sit between the symbol and the digits, e.g. "$-5.00"
+  text = text.trim();
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  const digits = text.replace(/[\s']/g, "");
+  const decimalSeparator = !options.decimalSeparator || options.decimalSeparator === "auto"
+    ? detectDecimalSeparator(digits)
+    : options.decimalSeparator;
+  const thousandsSeparator = decimalSeparator === "." ? "," : ".";
+  const numeric = digits.split(thousandsSeparator).join("").replace(decimalSeparator, ".");
+
+  if (!/^\d+(\.\d+)?$/.test(numeric)) {
+    throw new NormalizationError(`"${value}" is not a valid amount`, "amount");
+  }
+
+  const amount = parseFloat(numeric);
+  return {
+    amount: negative ? -amount : amount,
+    currency: currency || "USD",
+    marker
+  };
+}
+
+function classify(amount: number, merchant: string, category: string): TransactionKind {
+  if (amount >= 0) return "purchase";
+  return REFUND_PATTERN.test(merchant) || REFUND_PATTERN.test(category) ? "refund" : "credit";
+}
+
+export interface RawTransaction {
+  date: string;
+  merchant: string;
+  category: string;
+  // Either a single signed amount or separate debit/credit values
+  amount?: string;
+  debit?: string;
+  credit?: string;
+}
+
+/**
+ * Resolve a statement line's amount so money out is positive. A single
+ * `amount` is read with the given sign convention, while a CR suffix always
+ * means money in and DR money out. With split columns the debit wins when
+ * both are filled in.
+ */
+export function normalizeAmount(
+  raw: Pick<RawTransaction, "amount" | "debit" | "credit">,
+  options: NormalizationOptions = {}
+): { amount: number; currency: string } {
+  if (raw.amount) {
+    const money = parseMoney(raw.amount, options);
+    if (money.marker) {
+      const magnitude = Math.abs(money.amount);
+      return { amount: money.marker === "CR" ? -magnitude : magnitude, currency: money.currency };
+    }
+    return {
+      amount: options.signConvention === "debit_negative" ? -money.amount : money.amount,
+      currency: money.currency
+    };
+  }
+
+  if (raw.debit || raw.credit) {
+    const money = parseMoney((raw.debit || raw.credit)!, options);
+    const magnitude = Math.abs(money.amount);
+    return { amount: raw.debit ? magnitude : -magnitude, currency: money.currency };
+  }
+
+  throw new NormalizationError("Amount is missing", "amount");
+}
+
+// Normalize one statement line into a typed transaction
+export function normalizeTransaction(raw: RawTransaction, options: NormalizationOptions = {}): NormalizedTransaction {
+  const date = parseTransactionDate(raw.date, options.dateFormat);
+  const { amount, currency } = normalizeAmount(raw, options);
+
+  return {
+    date,
+    merchant: raw.merchant.trim(),
+    category: raw.category.trim(),
+    amount,
+    currency,
+    kind: classify(amount, raw.merchant, raw.category)
+  };
+}
+
+// Plaid amounts are positive for money leaving the account, matching our convention
+export function normalizePlaidTransaction(tx: PlaidTransaction): NormalizedTransaction {
+  const merchant = tx.merchant_name || tx.name;
+  const category = tx.category ? tx.category[0] : "Unknown";
+
+  return {
+    date: parseTransactionDate(tx.date, "YYYY-MM-DD"),
+    merchant,
+    category,
+    amount: tx.amount,
+    currency: tx.iso_currency_code || tx.unofficial_currency_code || "USD",
+    kind: classify(tx.amount, merchant, category)
+  };
+}